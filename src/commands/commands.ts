@@ -3,48 +3,8 @@
  * Handles function commands executed from ribbon buttons
  */
 
-import { convertToRstAsync, ExtractedImage } from '../converter';
-
-interface OoxmlImage {
-  name: string;
-  base64: string;
-  contentType: string;
-}
-
-/**
- * Extract images from OOXML package data
- * OOXML contains images as pkg:part elements with pkg:binaryData
- */
-function extractImagesFromOoxml(ooxml: string): OoxmlImage[] {
-  const images: OoxmlImage[] = [];
-
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(ooxml, 'application/xml');
-
-  const parts = doc.getElementsByTagName('pkg:part');
-
-  for (let i = 0; i < parts.length; i++) {
-    const part = parts[i];
-    const name = part.getAttribute('pkg:name') || '';
-    const contentType = part.getAttribute('pkg:contentType') || '';
-
-    if (name.includes('/media/') && contentType.startsWith('image/')) {
-      const binaryDataElements = part.getElementsByTagName('pkg:binaryData');
-      if (binaryDataElements.length > 0) {
-        const base64 = binaryDataElements[0].textContent || '';
-        if (base64) {
-          images.push({
-            name: name,
-            base64: base64.replace(/\s/g, ''),
-            contentType: contentType,
-          });
-        }
-      }
-    }
-  }
-
-  return images;
-}
+import { convertToRstAsync, ExtractedImage, OutputFile, OutputFormat } from '../converter';
+import { loadExportSettings, getOutputFileType } from '../utils';
 
 // Initialize Office
 Office.onReady(() => {
@@ -61,33 +21,33 @@ async function exportToRst(event: Office.AddinCommands.Event): Promise<void> {
       const body = context.document.body;
       const htmlResult = body.getHtml();
 
-      // Get OOXML to extract ALL images (including those in text boxes/shapes)
+      // Get OOXML for the data of every picture (matched to the images by the converter)
       const ooxmlResult = body.getOoxml();
 
       await context.sync();
 
-      // Extract images from OOXML
-      const ooxmlImages = extractImagesFromOoxml(ooxmlResult.value);
+      // Use the export options chosen in the taskpane
+      const settings = loadExportSettings();
 
       const html = htmlResult.value;
       const result = await convertToRstAsync(html, {
         imageDirectory: 'images/',
+        ooxml: ooxmlResult.value,
+        source: settings.source,
+        imageNaming: settings.imageNaming,
+        metafileFormat: settings.metafileFormat,
+        styleMap: settings.styleMap,
+        outputFormat: settings.outputFormat,
+        splitLevel: settings.splitLevel,
+        toctreeMaxDepth: settings.toctreeMaxDepth,
+        toctreeNumbered: settings.toctreeNumbered,
       });
 
-      // Merge OOXML image data with parsed images
-      for (let i = 0; i < result.images.length && i < ooxmlImages.length; i++) {
-        const img = result.images[i];
-        const data = ooxmlImages[i];
-        if (!img.base64Data && data.base64) {
-          img.base64Data = data.base64;
-        }
-      }
-
-      // Export based on whether we have images
-      if (result.images.length > 0) {
-        await exportAsZip(result.rst, result.images);
+      // Export based on whether we have images or several files
+      if (result.images.length > 0 || result.files) {
+        await exportAsZip(result.rst, settings.outputFormat, result.images, result.files);
       } else {
-        downloadRstFile(result.rst);
+        downloadDocumentFile(result.rst, settings.outputFormat);
       }
     });
   } catch (error) {
@@ -112,10 +72,18 @@ async function copyRstToClipboard(event: Office.AddinCommands.Event): Promise<vo
     await Word.run(async (context) => {
       const body = context.document.body;
       const htmlResult = body.getHtml();
+      const ooxmlResult = body.getOoxml();
       await context.sync();
 
       const html = htmlResult.value;
-      const result = await convertToRstAsync(html);
+      const settings = loadExportSettings();
+      const result = await convertToRstAsync(html, {
+        ooxml: ooxmlResult.value,
+        source: settings.source,
+        metafileFormat: settings.metafileFormat,
+        styleMap: settings.styleMap,
+        outputFormat: settings.outputFormat,
+      });
       rst = result.rst;
     });
 
@@ -162,14 +130,15 @@ function downloadTextFile(content: string, filename: string): void {
 }
 
 /**
- * Download RST file directly
+ * Download the RST or MyST file directly
  */
-function downloadRstFile(rst: string): void {
-  const blob = new Blob([rst], { type: 'text/x-rst' });
+function downloadDocumentFile(text: string, format: OutputFormat): void {
+  const fileType = getOutputFileType(format);
+  const blob = new Blob([text], { type: fileType.mimeType });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = 'document.rst';
+  a.download = `document.${fileType.extension}`;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
@@ -177,16 +146,28 @@ function downloadRstFile(rst: string): void {
 }
 
 /**
- * Export as ZIP file with RST and images
+ * Export as ZIP file with RST (or MyST) and images
+ * When the document was split, its files are written instead of a single document
  */
-async function exportAsZip(rst: string, images: ExtractedImage[]): Promise<void> {
+async function exportAsZip(
+  text: string,
+  format: OutputFormat,
+  images: ExtractedImage[],
+  files?: OutputFile[]
+): Promise<void> {
   // Dynamically import JSZip
   const JSZip = (await import('jszip')).default;
 
   const zip = new JSZip();
 
-  // Add RST file
-  zip.file('document.rst', rst);
+  // Add document files
+  if (files) {
+    for (const file of files) {
+      zip.file(file.path, file.content);
+    }
+  } else {
+    zip.file(`document.${getOutputFileType(format).extension}`, text);
+  }
 
   // Create images folder and add images
   const imagesFolder = zip.folder('images');
@@ -194,7 +194,7 @@ function calculateTocDepth(element: HTMLElement): number {
  * @param fieldCode - Word field code string
  * @returns Parsed options
  */
-function parseWordTocFieldCode(fieldCode: string): ContentsOptions {
+export function parseWordTocFieldCode(fieldCode: string): ContentsOptions {
   const options: ContentsOptions = {};
 
   // Extract outline level range
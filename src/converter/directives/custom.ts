@@ -59,11 +59,29 @@ export function parseCustomDirective(
   styleName: string,
   content: string
 ): CustomDirective {
-  const directiveName = extractDirectiveName(styleName);
+  return parseDirectiveContent(extractDirectiveName(styleName), content);
+}
+
+/**
+ * Parse directive content (argument, options and body) from a paragraph
+ *
+ * Used for rst_* styles and for styles mapped to a directive; the content
+ * format is the same as for parseCustomDirective().
+ *
+ * @param directiveName - Directive name (e.g., "warning")
+ * @param content - Paragraph content
+ * @param defaults - Argument and options used when the content sets none
+ * @returns Parsed custom directive
+ */
+export function parseDirectiveContent(
+  directiveName: string,
+  content: string,
+  defaults: { argument?: string; options?: Record<string, string> } = {}
+): CustomDirective {
   const lines = content.split('\n');
 
   let argument: string | undefined;
-  const options = new Map<string, string>();
+  const options = new Map<string, string>(Object.entries(defaults.options || {}));
   const bodyLines: string[] = [];
 
   let inBody = false;
@@ -102,7 +120,7 @@ export function parseCustomDirective(
 
   return {
     name: directiveName,
-    argument,
+    argument: argument || defaults.argument,
     options,
     content: body,
   };
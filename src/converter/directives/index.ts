@@ -29,10 +29,16 @@ export {
 // Table directive
 export {
   generateTableDirective,
+  generateListTable,
+  generateCsvTable,
   generateGridTable,
   generateSimpleTable,
   calculateColumnWidths,
+  getGridLayoutProblem,
+  resolveTableFormat,
   parseHtmlTable,
+  parseTableAltText,
+  getTableStyleFormat,
   generateTableRefName,
 } from './table';
 
@@ -41,16 +47,21 @@ export {
   generateContentsDirective,
   isTocElement,
   parseTocOptions,
+  parseWordTocFieldCode,
   recommendBacklinks,
   containsTocField,
   extractTocTitle,
 } from './contents';
 
+// Toctree directive
+export { generateToctreeDirective } from './toctree';
+
 // Custom directives (rst_* styles)
 export {
   isRstDirectiveStyle,
   extractDirectiveName,
   parseCustomDirective,
+  parseDirectiveContent,
   generateCustomDirective,
   normalizeDirectiveName,
   getKnownDirectives,
@@ -5,7 +5,8 @@
  * @see https://docutils.sourceforge.io/docs/ref/rst/directives.html#table
  */
 
-import { TableOptions, TableData, TableRow, TableCell } from '../types';
+import { TableOptions, TableData, TableRow, TableCell, TableFormat } from '../types';
+import { escapeLiteralText } from '../../utils/rst-escape';
 
 /**
  * Default indentation for directive options
@@ -13,10 +14,38 @@ import { TableOptions, TableData, TableRow, TableCell } from '../types';
 const INDENT = '   ';
 
 /**
- * Generate an RST table directive with grid table content
+ * Widest column before grid table cells wrap
+ */
+const MAX_COLUMN_WIDTH = 40;
+
+/**
+ * Table formats authors can pick per table, keyed by the name used in a
+ * table style ("rst_list-table") or alt text ("rst:list-table")
+ */
+const TABLE_FORMAT_NAMES: Record<string, TableFormat> = {
+  'grid': 'grid',
+  'simple': 'simple',
+  'listtable': 'list-table',
+  'csvtable': 'csv-table',
+  'auto': 'auto',
+};
+
+/**
+ * Table format after resolving 'auto' and fallbacks
+ */
+export type ResolvedTableFormat = Exclude<TableFormat, 'auto'>;
+
+/**
+ * Generate an RST table in the requested format
+ *
+ * Grid and simple tables get a `.. table::` directive wrapper when they
+ * have a caption or options. A format set on the table itself takes
+ * precedence, and formats that cannot represent the table fall back as
+ * described by {@link resolveTableFormat}.
  *
  * @param data - Table data including rows and options
- * @returns RST table directive string
+ * @param format - Document-wide table format (default: 'grid')
+ * @returns RST table string
  *
  * @example
  * ```typescript
@@ -29,9 +58,21 @@ const INDENT = '   ';
  * });
  * ```
  */
-export function generateTableDirective(data: TableData): string {
+export function generateTableDirective(data: TableData, format: TableFormat = 'grid'): string {
   const lines: string[] = [];
   const { rows, options } = data;
+  const resolved = resolveTableFormat(data, format).format;
+
+  if (resolved === 'list-table') {
+    return generateListTable(data);
+  }
+  if (resolved === 'csv-table') {
+    return generateCsvTable(data);
+  }
+
+  const table = resolved === 'simple'
+    ? generateSimpleTable(rows, options.hasHeader)
+    : generateGridTable(rows, options.hasHeader);
 
   // If table has caption or options, use directive wrapper
   const useDirective = !!(
@@ -51,47 +92,228 @@ export function generateTableDirective(data: TableData): string {
       lines.push('.. table::');
     }
 
-    // Add options
-    if (options.align) {
-      lines.push(`${INDENT}:align: ${options.align}`);
-    }
+    lines.push(...generateOptionLines(options));
+    lines.push('');
 
-    if (options.width) {
-      lines.push(`${INDENT}:width: ${options.width}`);
-    }
+    // Indent the table as directive content
+    const indentedTable = table
+      .split('\n')
+      .map((line) => INDENT + line)
+      .join('\n');
+    lines.push(indentedTable);
+  } else {
+    // Just the table without directive wrapper
+    lines.push(table);
+  }
 
-    if (options.widths) {
-      const widthsStr = Array.isArray(options.widths)
-        ? options.widths.join(' ')
-        : options.widths;
-      lines.push(`${INDENT}:widths: ${widthsStr}`);
-    }
+  return lines.join('\n');
+}
+
+/**
+ * Choose the format a table is written in
+ *
+ * 'auto' keeps merged cells in a grid table, uses a list-table for cells
+ * with lists or several paragraphs, a simple table when every cell is a
+ * short single line, and a list-table otherwise. An explicit format that
+ * cannot represent the table falls back to the closest one that can.
+ *
+ * @param data - Table data including rows and options
+ * @param format - Document-wide table format (default: 'grid')
+ * @returns Format to use and, when the table loses structure or the
+ *   requested format is replaced, a description of why
+ */
+export function resolveTableFormat(
+  data: TableData,
+  format: TableFormat = 'grid'
+): { format: ResolvedTableFormat; problem?: string } {
+  const { rows, options } = data;
+  const requested = options.format || format;
+  const merged = hasMergedCells(rows);
+  const gridProblem = getGridLayoutProblem(rows, options.hasHeader);
+  const gridFallback = (reason: string) => gridProblem
+    ? { format: 'list-table' as const, problem: `${reason} and ${gridProblem}; written as a list-table without merged cells` }
+    : { format: 'grid' as const, problem: `${reason}; written as a grid table` };
+
+  switch (requested) {
+    case 'auto':
+      if (merged) {
+        return gridProblem
+          ? { format: 'list-table', problem: `${gridProblem}; written as a list-table without merged cells` }
+          : { format: 'grid' };
+      }
+      if (hasBlockContent(rows)) {
+        return { format: 'list-table' };
+      }
+      return { format: getSimpleTableProblem(rows) ? 'list-table' : 'simple' };
 
-    if (options.class) {
-      lines.push(`${INDENT}:class: ${options.class}`);
+    case 'simple': {
+      const problem = merged ? 'a simple table cannot have merged cells' : getSimpleTableProblem(rows);
+      return problem ? gridFallback(problem) : { format: 'simple' };
     }
 
-    if (options.name) {
-      lines.push(`${INDENT}:name: ${options.name}`);
+    case 'csv-table':
+      if (rows.some((row) => row.cells.some((cell) => cell.content.includes('\n')))) {
+        return { format: 'list-table', problem: 'a csv-table cannot have multi-line cells; written as a list-table' };
+      }
+      return merged
+        ? { format: 'csv-table', problem: 'merged cells are not supported in a csv-table; written without merged cells' }
+        : { format: 'csv-table' };
+
+    case 'list-table':
+      return merged
+        ? { format: 'list-table', problem: 'merged cells are not supported in a list-table; written without merged cells' }
+        : { format: 'list-table' };
+
+    case 'grid':
+    default:
+      return gridProblem
+        ? { format: 'list-table', problem: `${gridProblem}; written as a list-table without merged cells` }
+        : { format: 'grid' };
+  }
+}
+
+/**
+ * Check if any cell spans several rows or columns
+ */
+function hasMergedCells(rows: TableRow[]): boolean {
+  return rows.some((row) => row.cells.some((cell) => (cell.colspan || 1) > 1 || (cell.rowspan || 1) > 1));
+}
+
+/**
+ * Check if any cell contains lists or several paragraphs
+ */
+function hasBlockContent(rows: TableRow[]): boolean {
+  return rows.some((row) => row.cells.some((cell) =>
+    /\n\s*\n/.test(cell.content) || /^\s*(?:[-*+]|#\.)\s/m.test(cell.content)
+  ));
+}
+
+/**
+ * Check whether a table can be written as a simple table
+ *
+ * @param rows - Table rows (without merged cells)
+ * @returns Description of the problem, or null if a simple table works
+ */
+function getSimpleTableProblem(rows: TableRow[]): string | null {
+  for (const row of rows) {
+    if (!row.cells[0]?.content.trim()) {
+      // An empty first cell continues the previous row
+      return 'a simple table cannot have an empty first column cell';
+    }
+    for (const cell of row.cells) {
+      if (cell.content.includes('\n')) {
+        return 'a simple table cannot have multi-line cells';
+      }
+      if (cell.content.length > MAX_COLUMN_WIDTH) {
+        return `a simple table cannot have cells longer than ${MAX_COLUMN_WIDTH} characters`;
+      }
     }
+  }
+
+  return null;
+}
 
+/**
+ * Generate an RST list-table directive
+ *
+ * List tables cannot merge cells: a merged cell's content goes to its
+ * top-left position and the other positions it covered stay empty.
+ *
+ * @param data - Table data including rows and options
+ * @returns RST list-table directive string
+ */
+export function generateListTable(data: TableData): string {
+  const { rows, options } = data;
+  const lines: string[] = [];
+
+  lines.push(options.caption ? `.. list-table:: ${options.caption}` : '.. list-table::');
+
+  const headerRows = countHeaderRows(rows, options.hasHeader, true);
+  if (headerRows > 0) {
+    lines.push(`${INDENT}:header-rows: ${headerRows}`);
+  }
+  lines.push(...generateOptionLines(options));
+
+  for (const row of getGridContents(rows)) {
     lines.push('');
+    row.forEach((content, colIndex) => {
+      const marker = colIndex === 0 ? '* - ' : '  - ';
 
-    // Generate grid table with indentation
-    const gridTable = generateGridTable(rows, options.hasHeader);
-    const indentedTable = gridTable
-      .split('\n')
-      .map((line) => INDENT + line)
-      .join('\n');
-    lines.push(indentedTable);
-  } else {
-    // Just generate the grid table without directive wrapper
-    lines.push(generateGridTable(rows, options.hasHeader));
+      content.split('\n').forEach((line, lineIndex) => {
+        const prefix = lineIndex === 0 ? marker : '    ';
+        lines.push(line ? INDENT + prefix + line : (INDENT + prefix).trimEnd());
+      });
+    });
   }
 
   return lines.join('\n');
 }
 
+/**
+ * Generate an RST csv-table directive
+ *
+ * Every cell is quoted, so commas in cell text need no escaping. Merged
+ * cells are written like in {@link generateListTable}.
+ *
+ * @param data - Table data with single-line cells
+ * @returns RST csv-table directive string
+ */
+export function generateCsvTable(data: TableData): string {
+  const { rows, options } = data;
+  const lines: string[] = [];
+
+  lines.push(options.caption ? `.. csv-table:: ${options.caption}` : '.. csv-table::');
+
+  const headerRows = countHeaderRows(rows, options.hasHeader, true);
+  if (headerRows > 0) {
+    lines.push(`${INDENT}:header-rows: ${headerRows}`);
+  }
+  lines.push(...generateOptionLines(options));
+  lines.push('');
+
+  for (const row of getGridContents(rows)) {
+    const fields = row.map((content) => `"${content.replace(/"/g, '""')}"`);
+    lines.push(INDENT + fields.join(', '));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Generate the option lines shared by the table directives
+ *
+ * @param options - Table options
+ * @returns Indented option lines
+ */
+function generateOptionLines(options: TableOptions): string[] {
+  const lines: string[] = [];
+
+  if (options.align) {
+    lines.push(`${INDENT}:align: ${options.align}`);
+  }
+
+  if (options.width) {
+    lines.push(`${INDENT}:width: ${options.width}`);
+  }
+
+  if (options.widths) {
+    const widthsStr = Array.isArray(options.widths)
+      ? options.widths.join(' ')
+      : options.widths;
+    lines.push(`${INDENT}:widths: ${widthsStr}`);
+  }
+
+  if (options.class) {
+    lines.push(`${INDENT}:class: ${options.class}`);
+  }
+
+  if (options.name) {
+    lines.push(`${INDENT}:name: ${options.name}`);
+  }
+
+  return lines;
+}
+
 /**
  * Generate an RST grid table
  *
@@ -106,37 +328,82 @@ export function generateGridTable(rows: TableRow[], hasHeader?: boolean): string
     return '';
   }
 
-  // Calculate column widths
+  const grid = buildCellGrid(rows);
   const columnWidths = calculateColumnWidths(rows);
-  const numColumns = columnWidths.length;
-
-  const lines: string[] = [];
+  const headerRows = countHeaderRows(rows, hasHeader);
 
-  // Generate separator line
-  const normalSeparator = generateSeparator(columnWidths, '-');
-  const headerSeparator = generateSeparator(columnWidths, '=');
+  // Wrap every cell to the width of the columns it spans
+  const cellLines = new Map<GridCell, string[]>();
+  for (const placed of grid.cells) {
+    cellLines.set(placed, wrapText(placed.cell.content, getSpanWidth(columnWidths, placed.column, placed.colspan)));
+  }
 
-  // Top border
-  lines.push(normalSeparator);
+  // Row heights: single-row cells first, then merged cells grow the last row they span
+  const rowHeights: number[] = new Array(rows.length).fill(1);
+  const bySpanEnd = [...grid.cells].sort((a, b) => (a.row + a.rowspan) - (b.row + b.rowspan));
+  for (const placed of bySpanEnd) {
+    const lastRow = placed.row + placed.rowspan - 1;
+    const available = rowHeights
+      .slice(placed.row, lastRow + 1)
+      .reduce((sum, height) => sum + height, placed.rowspan - 1);
+    const needed = cellLines.get(placed)!.length;
+    if (needed > available) {
+      rowHeights[lastRow] += needed - available;
+    }
+  }
 
-  // Process rows
-  for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
-    const row = rows[rowIndex];
-    const isHeaderRow = row.isHeader || (hasHeader && rowIndex === 0);
+  // Border positions of every column and row
+  const columnEdges = [0];
+  columnWidths.forEach((width, index) => columnEdges.push(columnEdges[index] + width + 3));
+  const rowEdges = [0];
+  rowHeights.forEach((height, index) => rowEdges.push(rowEdges[index] + height + 1));
 
-    // Generate row content (may span multiple lines for wrapped text)
-    const rowLines = generateRowLines(row, columnWidths, numColumns);
-    lines.push(...rowLines);
+  const canvas: string[][] = Array.from({ length: rowEdges[rows.length] + 1 }, () =>
+    new Array(columnEdges[grid.numColumns] + 1).fill(' ')
+  );
+  const headerEdge = headerRows > 0 ? rowEdges[headerRows] : -1;
+
+  // Draw each cell as a box; shared borders overlap, and "+" marks every
+  // point where borders meet
+  for (const placed of grid.cells) {
+    const left = columnEdges[placed.column];
+    const right = columnEdges[placed.column + placed.colspan];
+    const top = rowEdges[placed.row];
+    const bottom = rowEdges[placed.row + placed.rowspan];
+
+    for (const y of [top, bottom]) {
+      const char = y === headerEdge ? '=' : '-';
+      for (let x = left + 1; x < right; x++) {
+        drawBorder(canvas, y, x, char);
+      }
+      drawBorder(canvas, y, left, '+');
+      drawBorder(canvas, y, right, '+');
+    }
 
-    // Add separator after row
-    if (isHeaderRow) {
-      lines.push(headerSeparator);
-    } else {
-      lines.push(normalSeparator);
+    for (let y = top + 1; y < bottom; y++) {
+      drawBorder(canvas, y, left, '|');
+      drawBorder(canvas, y, right, '|');
     }
+
+    const width = right - left - 3;
+    cellLines.get(placed)!.forEach((line, index) => {
+      const text = padCell(line, width, placed.cell.align);
+      canvas[top + 1 + index].splice(left + 2, text.length, ...text.split(''));
+    });
   }
 
-  return lines.join('\n');
+  return canvas.map((line) => line.join('').trimEnd()).join('\n');
+}
+
+/**
+ * Draw a border character, keeping junctions and header separators
+ */
+function drawBorder(canvas: string[][], y: number, x: number, char: string): void {
+  const current = canvas[y][x];
+  if (current === '+' || (current === '=' && char === '-')) {
+    return;
+  }
+  canvas[y][x] = char;
 }
 
 /**
@@ -152,6 +419,7 @@ export function generateSimpleTable(rows: TableRow[], hasHeader?: boolean): stri
   }
 
   const columnWidths = calculateColumnWidths(rows);
+  const headerRows = countHeaderRows(rows, hasHeader);
   const lines: string[] = [];
 
   // Generate separator
@@ -163,18 +431,17 @@ export function generateSimpleTable(rows: TableRow[], hasHeader?: boolean): stri
   // Process rows
   for (let rowIndex = 0; rowIndex < rows.length; rowIndex++) {
     const row = rows[rowIndex];
-    const isHeaderRow = row.isHeader || (hasHeader && rowIndex === 0);
 
     // Generate cell content
-    const cellContents = row.cells.map((cell, colIndex) => {
-      const width = columnWidths[colIndex] || 10;
-      return padCell(cell.content, width, cell.align);
+    const cellContents = columnWidths.map((width, colIndex) => {
+      const cell = row.cells[colIndex];
+      return padCell(cell?.content || '', width, cell?.align);
     });
 
-    lines.push(cellContents.join('  '));
+    lines.push(cellContents.join('  ').trimEnd());
 
-    // Add header separator after header row
-    if (isHeaderRow) {
+    // Add header separator after the last header row
+    if (rowIndex === headerRows - 1) {
       lines.push(separator);
     }
   }
@@ -196,29 +463,52 @@ export function generateSimpleTable(rows: TableRow[], hasHeader?: boolean): stri
 export function calculateColumnWidths(
   rows: TableRow[],
   minWidth: number = 3,
-  maxWidth: number = 40
+  maxWidth: number = MAX_COLUMN_WIDTH
 ): number[] {
   if (rows.length === 0) {
     return [];
   }
 
-  // Find maximum number of columns
-  const numColumns = Math.max(...rows.map((row) => row.cells.length));
+  const grid = buildCellGrid(rows);
 
   // Initialize widths with minimum
-  const widths: number[] = new Array(numColumns).fill(minWidth);
-
-  // Calculate max width for each column
-  for (const row of rows) {
-    for (let colIndex = 0; colIndex < row.cells.length; colIndex++) {
-      const cell = row.cells[colIndex];
-      const contentWidth = getContentWidth(cell.content);
-      widths[colIndex] = Math.max(widths[colIndex], contentWidth);
+  const widths: number[] = new Array(grid.numColumns).fill(minWidth);
+
+  // Single-column cells set the widths; merged cells then widen the columns
+  // they span if their content still does not fit. Long lines wrap at
+  // maxWidth, but a cell is never narrower than its longest unbreakable word.
+  const bySpan = [...grid.cells].sort((a, b) => a.colspan - b.colspan);
+  for (const placed of bySpan) {
+    const { content } = placed.cell;
+    const needed = Math.max(
+      Math.min(getContentWidth(content), maxWidth),
+      getMinimumContentWidth(content)
+    );
+    const available = getSpanWidth(widths, placed.column, placed.colspan);
+
+    if (needed > available) {
+      const extra = needed - available;
+      for (let i = 0; i < placed.colspan; i++) {
+        widths[placed.column + i] += Math.floor(extra / placed.colspan) + (i < extra % placed.colspan ? 1 : 0);
+      }
     }
   }
 
-  // Apply max width limit
-  return widths.map((w) => Math.min(w, maxWidth));
+  return widths;
+}
+
+/**
+ * Get the content width of a cell spanning several columns
+ *
+ * @param widths - Column widths
+ * @param column - First spanned column
+ * @param colspan - Number of spanned columns
+ * @returns Column widths plus the " | " borders between them
+ */
+function getSpanWidth(widths: number[], column: number, colspan: number): number {
+  return widths
+    .slice(column, column + colspan)
+    .reduce((sum, width) => sum + width, (colspan - 1) * 3);
 }
 
 /**
@@ -233,69 +523,181 @@ function getContentWidth(content: string): number {
 }
 
 /**
- * Generate a table separator line
+ * Get the narrowest width content can be wrapped to
  *
- * @param columnWidths - Array of column widths
- * @param char - Character to use for horizontal lines ('-' or '=')
- * @returns Separator line
+ * @param content - Cell content
+ * @returns Width of the longest word, including its line's hanging indent
+ */
+function getMinimumContentWidth(content: string): number {
+  let width = 1;
+
+  for (const line of content.split('\n')) {
+    const { prefix, words } = splitWrapLine(line);
+    for (const word of words) {
+      width = Math.max(width, prefix.length + word.length);
+    }
+  }
+
+  return width;
+}
+
+/**
+ * Cell placed on the table's occupancy grid
  */
-function generateSeparator(columnWidths: number[], char: string): string {
-  const segments = columnWidths.map((width) => char.repeat(width + 2));
-  return '+' + segments.join('+') + '+';
+interface GridCell {
+  /** Source cell */
+  cell: TableCell;
+  /** First row covered by the cell */
+  row: number;
+  /** First column covered by the cell */
+  column: number;
+  /** Rows covered (clamped to the table) */
+  rowspan: number;
+  /** Columns covered */
+  colspan: number;
 }
 
 /**
- * Generate lines for a single row (handles text wrapping)
+ * Occupancy grid of a table
+ */
+interface CellGrid {
+  /** Cell covering each position, indexed by row then column */
+  slots: GridCell[][];
+  /** Placed cells, including empty fillers for short rows */
+  cells: GridCell[];
+  /** Number of grid columns */
+  numColumns: number;
+  /** First position covered by two cells, if any */
+  overlap?: { row: number; column: number };
+}
+
+/**
+ * Lay out table cells on an occupancy grid
  *
- * @param row - Table row
- * @param columnWidths - Column widths
- * @param numColumns - Total number of columns
- * @returns Array of row content lines
+ * Cells are placed like HTML does: each cell takes the next column not
+ * already covered by a row-spanning cell from an earlier row. Positions
+ * left uncovered by short rows are filled with empty cells.
+ *
+ * @param rows - Table rows
+ * @returns Occupancy grid
  */
-function generateRowLines(
-  row: TableRow,
-  columnWidths: number[],
-  numColumns: number
-): string[] {
-  // Split each cell content into lines
-  const cellLines: string[][] = [];
+function buildCellGrid(rows: TableRow[]): CellGrid {
+  const slots: GridCell[][] = rows.map(() => []);
+  const cells: GridCell[] = [];
+  let overlap: CellGrid['overlap'];
 
-  for (let colIndex = 0; colIndex < numColumns; colIndex++) {
-    const cell = row.cells[colIndex];
-    const width = columnWidths[colIndex] || 10;
+  rows.forEach((row, rowIndex) => {
+    let column = 0;
 
-    if (cell) {
-      // Wrap content to fit column width
-      const wrapped = wrapText(cell.content, width);
-      cellLines.push(wrapped);
-    } else {
-      cellLines.push(['']);
+    for (const cell of row.cells) {
+      while (slots[rowIndex][column]) {
+        column++;
+      }
+
+      const placed: GridCell = {
+        cell,
+        row: rowIndex,
+        column,
+        rowspan: Math.min(Math.max(cell.rowspan || 1, 1), rows.length - rowIndex),
+        colspan: Math.max(cell.colspan || 1, 1),
+      };
+      cells.push(placed);
+
+      for (let r = rowIndex; r < rowIndex + placed.rowspan; r++) {
+        for (let c = column; c < column + placed.colspan; c++) {
+          if (slots[r][c]) {
+            overlap = overlap || { row: r, column: c };
+          } else {
+            slots[r][c] = placed;
+          }
+        }
+      }
+
+      column += placed.colspan;
+    }
+  });
+
+  const numColumns = Math.max(...slots.map((slotRow) => slotRow.length), 0);
+
+  slots.forEach((slotRow, rowIndex) => {
+    for (let column = 0; column < numColumns; column++) {
+      if (!slotRow[column]) {
+        const filler: GridCell = { cell: { content: '' }, row: rowIndex, column, rowspan: 1, colspan: 1 };
+        slotRow[column] = filler;
+        cells.push(filler);
+      }
     }
+  });
+
+  return { slots, cells, numColumns, overlap };
+}
+
+/**
+ * Count the header rows at the top of a table
+ *
+ * Grid tables have a single header separator, so only leading header rows
+ * count. A table cannot consist of header rows alone.
+ *
+ * @param rows - Table rows
+ * @param hasHeader - Whether the first row is a header
+ * @param allowAll - Allow every row to be a header row (list tables)
+ * @returns Number of header rows
+ */
+function countHeaderRows(rows: TableRow[], hasHeader?: boolean, allowAll: boolean = false): number {
+  let count = 0;
+  while (count < rows.length && rows[count].isHeader) {
+    count++;
   }
 
-  // Find maximum number of lines in any cell
-  const maxLines = Math.max(...cellLines.map((lines) => lines.length), 1);
+  if (count === 0 && hasHeader) {
+    count = 1;
+  }
 
-  // Generate output lines
-  const outputLines: string[] = [];
+  return count < rows.length || allowAll ? count : 0;
+}
+
+/**
+ * Get the content of every grid position
+ *
+ * A merged cell's content goes to its top-left position; the other
+ * positions it covers are empty.
+ *
+ * @param rows - Table rows
+ * @returns Content indexed by row then column
+ */
+function getGridContents(rows: TableRow[]): string[][] {
+  const grid = buildCellGrid(rows);
 
-  for (let lineIndex = 0; lineIndex < maxLines; lineIndex++) {
-    const segments: string[] = [];
+  return grid.slots.map((slots, rowIndex) =>
+    slots.map((placed, colIndex) =>
+      placed.row === rowIndex && placed.column === colIndex ? placed.cell.content : ''
+    )
+  );
+}
 
-    for (let colIndex = 0; colIndex < numColumns; colIndex++) {
-      const width = columnWidths[colIndex] || 10;
-      const cell = row.cells[colIndex];
-      const lines = cellLines[colIndex] || [''];
-      const lineContent = lines[lineIndex] || '';
-      const align = cell?.align || 'left';
+/**
+ * Check whether a table's merged cells can be drawn as a grid table
+ *
+ * @param rows - Table rows
+ * @param hasHeader - Whether the first row is a header
+ * @returns Description of the problem, or null if the grid is valid
+ */
+export function getGridLayoutProblem(rows: TableRow[], hasHeader?: boolean): string | null {
+  const grid = buildCellGrid(rows);
 
-      segments.push(' ' + padCell(lineContent, width, align) + ' ');
-    }
+  if (grid.overlap) {
+    return `merged cells overlap at row ${grid.overlap.row + 1}, column ${grid.overlap.column + 1}`;
+  }
 
-    outputLines.push('|' + segments.join('|') + '|');
+  const headerRows = countHeaderRows(rows, hasHeader);
+  const crossesHeader = grid.cells.some(
+    (placed) => placed.row < headerRows && placed.row + placed.rowspan > headerRows
+  );
+  if (crossesHeader) {
+    return 'a merged cell spans the header and body rows';
   }
 
-  return outputLines;
+  return null;
 }
 
 /**
@@ -317,31 +719,48 @@ function wrapText(text: string, width: number): string[] {
   for (const paragraph of paragraphs) {
     if (paragraph.length <= width) {
       result.push(paragraph);
-    } else {
-      // Word wrap
-      const words = paragraph.split(' ');
-      let currentLine = '';
-
-      for (const word of words) {
-        if (currentLine.length === 0) {
-          currentLine = word;
-        } else if (currentLine.length + 1 + word.length <= width) {
-          currentLine += ' ' + word;
-        } else {
-          result.push(currentLine);
-          currentLine = word;
-        }
-      }
+      continue;
+    }
 
-      if (currentLine) {
+    // Word wrap; continuation lines keep the indent of list items and
+    // line blocks so the cell content stays valid RST
+    const { prefix, words } = splitWrapLine(paragraph);
+    const hangingIndent = ' '.repeat(prefix.length);
+    let currentLine = prefix;
+    let lineHasWord = false;
+
+    for (const word of words) {
+      if (!lineHasWord) {
+        currentLine += word;
+        lineHasWord = true;
+      } else if (currentLine.length + 1 + word.length <= width) {
+        currentLine += ' ' + word;
+      } else {
         result.push(currentLine);
+        currentLine = hangingIndent + word;
       }
     }
+
+    result.push(currentLine);
   }
 
   return result.length > 0 ? result : [''];
 }
 
+/**
+ * Split a line into its hanging-indent prefix and words
+ *
+ * The prefix is the leading indent plus any list or line block markers
+ * ("- ", "#. ", "| "). Words are separated by spaces, except escaped
+ * spaces ("\\ "), which must not become line breaks.
+ */
+function splitWrapLine(line: string): { prefix: string; words: string[] } {
+  const marker = line.match(/^\s*(?:(?:[-*+]|#\.|\d+\.|\|)\s+)*/);
+  const prefix = marker ? marker[0] : '';
+  const words = line.slice(prefix.length).split(/(?<!\\) +/).filter(Boolean);
+  return { prefix, words };
+}
+
 /**
  * Pad cell content to width with alignment
  *
@@ -376,13 +795,29 @@ function padCell(
   }
 }
 
+/**
+ * Converts the content of an HTML table cell to RST cell text
+ */
+export type CellFormatter = (cell: HTMLElement) => string;
+
+/**
+ * Default cell formatter: plain text content, escaped
+ */
+function formatPlainCell(cell: HTMLElement): string {
+  return escapeLiteralText(cell.textContent?.trim() || '');
+}
+
 /**
  * Parse table from HTML table element
  *
  * @param tableElement - HTML table element
+ * @param formatCell - Converts cell content to RST (default: plain text)
  * @returns Parsed table data
  */
-export function parseHtmlTable(tableElement: HTMLTableElement): TableData {
+export function parseHtmlTable(
+  tableElement: HTMLTableElement,
+  formatCell: CellFormatter = formatPlainCell
+): TableData {
   const rows: TableRow[] = [];
   const options: TableOptions = {};
 
@@ -399,32 +834,36 @@ export function parseHtmlTable(tableElement: HTMLTableElement): TableData {
   }
 
   // Parse thead
-  const thead = tableElement.querySelector('thead');
+  const thead = tableElement.querySelector(':scope > thead');
   if (thead) {
     const headerRows = thead.querySelectorAll('tr');
     headerRows.forEach((tr) => {
-      rows.push(parseTableRow(tr, true));
+      rows.push(parseTableRow(tr, true, formatCell));
     });
     options.hasHeader = true;
   }
 
   // Parse tbody
-  const tbody = tableElement.querySelector('tbody');
+  const tbody = tableElement.querySelector(':scope > tbody');
   const bodyElement = tbody || tableElement;
-  const bodyRows = bodyElement.querySelectorAll(':scope > tr');
-
-  bodyRows.forEach((tr, index) => {
-    // If no thead, first row might be header (check for th elements)
-    const hasThElements = tr.querySelectorAll('th').length > 0;
-    const isHeader = !thead && index === 0 && hasThElements;
+  const bodyRows = Array.from(bodyElement.querySelectorAll(':scope > tr'));
 
-    if (isHeader) {
-      options.hasHeader = true;
-    }
+  // Without thead, leading rows may still be headers (th cells or Word markup)
+  const headerCount = thead ? 0 : countBodyHeaderRows(tableElement, bodyRows);
+  if (headerCount > 0) {
+    options.hasHeader = true;
+  }
 
-    rows.push(parseTableRow(tr, isHeader));
+  bodyRows.forEach((tr, index) => {
+    rows.push(parseTableRow(tr, index < headerCount, formatCell));
   });
 
+  // Relative column widths from <col> elements or cell widths
+  const widths = getColumnWidths(tableElement, rows);
+  if (widths) {
+    options.widths = widths;
+  }
+
   // Parse table attributes
   const align = tableElement.getAttribute('align');
   if (align && ['left', 'center', 'right'].includes(align)) {
@@ -436,23 +875,93 @@ export function parseHtmlTable(tableElement: HTMLTableElement): TableData {
     options.width = width;
   }
 
+  // Alt text (Table Properties > Alt Text)
+  const title = parseTableAltText(tableElement.getAttribute('title'));
+  const description = parseTableAltText(tableElement.getAttribute('summary'));
+  if (title.text) {
+    options.altTitle = title.text;
+  }
+  if (description.text) {
+    options.altDescription = description.text;
+  }
+
+  // Per-table format: table style first, then alt text
+  const format = getStyleTableFormat(tableElement) || title.format || description.format;
+  if (format) {
+    options.format = format;
+  }
+
   return { rows, options };
 }
 
+/**
+ * Get the table format picked through the table's Word style
+ *
+ * Word exports the table style as a class name without spaces, so a table
+ * style named "rst_list-table" or "rst simple" selects that format.
+ */
+function getStyleTableFormat(tableElement: HTMLTableElement): TableFormat | undefined {
+  for (const cls of (tableElement.className || '').split(/\s+/)) {
+    const format = getTableStyleFormat(cls);
+    if (format) {
+      return format;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the table format a table style name selects
+ *
+ * @param styleName - Table style name or class (e.g., "rst_list-table", "rstsimple")
+ * @returns Table format, or undefined for other styles
+ */
+export function getTableStyleFormat(styleName: string): TableFormat | undefined {
+  const name = normalizeFormatName(styleName);
+  return name.startsWith('rst') ? TABLE_FORMAT_NAMES[name.slice(3)] : undefined;
+}
+
+/**
+ * Split table alt text into its text and an "rst:<format>" marker
+ *
+ * @param value - Alt text title or description
+ * @returns Text without the marker, and the format it names
+ */
+export function parseTableAltText(value: string | null): { text?: string; format?: TableFormat } {
+  if (!value) {
+    return {};
+  }
+
+  const marker = value.match(/(?:^|\s)rst:([\w-]+)(?=\s|$)/i);
+  const format = marker ? TABLE_FORMAT_NAMES[normalizeFormatName(marker[1])] : undefined;
+  const text = (format && marker ? value.replace(marker[0], ' ') : value).replace(/\s+/g, ' ').trim();
+
+  return { text: text || undefined, format };
+}
+
+/**
+ * Normalize a table format name for lookup (case, spaces, "-" and "_")
+ */
+function normalizeFormatName(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
 /**
  * Parse a table row from HTML
  *
  * @param tr - HTML table row element
  * @param isHeader - Whether this is a header row
+ * @param formatCell - Converts cell content to RST
  * @returns Parsed table row
  */
-function parseTableRow(tr: Element, isHeader: boolean): TableRow {
+function parseTableRow(tr: Element, isHeader: boolean, formatCell: CellFormatter): TableRow {
   const cells: TableCell[] = [];
 
-  const cellElements = tr.querySelectorAll('td, th');
+  // Direct children only: cells of nested tables belong to the nested table
+  const cellElements = tr.querySelectorAll(':scope > td, :scope > th');
   cellElements.forEach((cell) => {
     const tableCell: TableCell = {
-      content: cell.textContent?.trim() || '',
+      content: formatCell(cell as HTMLElement),
     };
 
     // Check for colspan
@@ -473,25 +982,197 @@ function parseTableRow(tr: Element, isHeader: boolean): TableRow {
       tableCell.align = align as TableCell['align'];
     }
 
+    // Width: Word writes both width='312' (pixels) and style='width:3.25in'
+    const width = getElementWidth(cell);
+    if (width) {
+      tableCell.width = width;
+    }
+
     cells.push(tableCell);
   });
 
   return { cells, isHeader };
 }
 
+/**
+ * Count the header rows at the top of a table body
+ *
+ * Leading rows of <th> cells are headers. Word rarely writes those; it
+ * marks the last row of "Repeat as header row" rows with
+ * mso-yfti-lastfirstrow, and the "Header Row" table style option with bit
+ * 0x20 of mso-yfti-tbllook. That option is on by default, so the first row
+ * only counts when it is also bold or shaded.
+ *
+ * @param tableElement - HTML table element
+ * @param trs - Body rows
+ * @returns Number of header rows
+ */
+function countBodyHeaderRows(tableElement: HTMLTableElement, trs: Element[]): number {
+  let thRows = 0;
+  while (thRows < trs.length && isThRow(trs[thRows])) {
+    thRows++;
+  }
+  if (thRows > 0) {
+    return thRows;
+  }
+
+  const lastRepeated = trs.findIndex((tr) =>
+    /mso-yfti-lastfirstrow:\s*yes/i.test(tr.getAttribute('style') || '')
+  );
+  if (lastRepeated >= 0) {
+    return lastRepeated + 1;
+  }
+
+  const look = (tableElement.getAttribute('style') || '').match(/mso-yfti-tbllook:\s*(\d+)/i);
+  const firstRowLook = look ? (parseInt(look[1]) & 0x20) !== 0 : false;
+  if (firstRowLook && trs.length > 1 && isHeaderFormattedRow(trs[0])) {
+    return 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Check if all cells of a row are <th> cells
+ */
+function isThRow(tr: Element): boolean {
+  const cells = Array.from(tr.querySelectorAll(':scope > td, :scope > th'));
+  return cells.length > 0 && cells.every((cell) => cell.tagName.toUpperCase() === 'TH');
+}
+
+/**
+ * Check if every non-empty cell of a row is bold or shaded
+ */
+function isHeaderFormattedRow(tr: Element): boolean {
+  const cells = Array.from(tr.querySelectorAll(':scope > td, :scope > th'))
+    .filter((cell) => cell.textContent?.trim());
+
+  return cells.length > 0 && cells.every((cell) => isShaded(cell) || isBoldText(cell));
+}
+
+/**
+ * Check if a cell has a background color other than white
+ */
+function isShaded(cell: Element): boolean {
+  const style = cell.getAttribute('style') || '';
+  const background = style.match(/background(?:-color)?:\s*([^;]+)/i);
+  if (!background) {
+    return false;
+  }
+  return !/^(?:white|transparent|auto|none|#fff(?:fff)?)$/i.test(background[1].trim());
+}
+
+/**
+ * Check if all text in an element is bold
+ */
+function isBoldText(element: Element): boolean {
+  const walker = element.ownerDocument.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  let hasText = false;
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (!node.textContent?.trim()) {
+      continue;
+    }
+    hasText = true;
+
+    let bold = false;
+    for (let el = node.parentElement; el && !bold; el = el === element ? null : el.parentElement) {
+      const tagName = el.tagName.toUpperCase();
+      bold = tagName === 'B' || tagName === 'STRONG' ||
+        /font-weight:\s*(bold|[6-9]00)/i.test(el.getAttribute('style') || '');
+    }
+    if (!bold) {
+      return false;
+    }
+  }
+
+  return hasText;
+}
+
+/**
+ * Get relative column widths of a table
+ *
+ * Widths come from <col> elements or, per column, from the first cell
+ * that covers only that column. They are scaled to add up to about 100.
+ *
+ * @param tableElement - HTML table element
+ * @param rows - Parsed rows (with cell widths)
+ * @returns Integer widths, or undefined if a column width is unknown
+ */
+function getColumnWidths(tableElement: HTMLTableElement, rows: TableRow[]): number[] | undefined {
+  const grid = buildCellGrid(rows);
+  const widths: (number | undefined)[] = [];
+
+  const cols = tableElement.querySelectorAll(':scope > colgroup > col, :scope > col');
+  if (cols.length > 0) {
+    for (const col of Array.from(cols)) {
+      const span = Math.max(parseInt(col.getAttribute('span') || '1') || 1, 1);
+      const width = getElementWidth(col);
+      for (let i = 0; i < span; i++) {
+        widths.push(width);
+      }
+    }
+  } else {
+    for (let column = 0; column < grid.numColumns; column++) {
+      const placed = grid.cells.find((c) => c.column === column && c.colspan === 1 && c.cell.width);
+      widths.push(placed?.cell.width);
+    }
+  }
+
+  if (grid.numColumns === 0 || widths.length !== grid.numColumns || widths.some((w) => !w)) {
+    return undefined;
+  }
+
+  const total = (widths as number[]).reduce((sum, width) => sum + width, 0);
+  return (widths as number[]).map((width) => Math.max(1, Math.round((width / total) * 100)));
+}
+
+/**
+ * Get the width of a table element in points
+ *
+ * The style width (in, pt, cm) is preferred over the width attribute,
+ * which is in pixels, and over mso-width-alt.
+ */
+function getElementWidth(element: Element): number | undefined {
+  const style = element.getAttribute('style') || '';
+  const styleWidth = style.match(/(?:^|;)\s*width:\s*([\d.]+)\s*(in|pt|cm|mm|px)/i);
+  if (styleWidth) {
+    return toPoints(parseFloat(styleWidth[1]), styleWidth[2]);
+  }
+
+  const attribute = (element.getAttribute('width') || '').match(/^\s*([\d.]+)\s*(px)?\s*$/i);
+  if (attribute) {
+    return toPoints(parseFloat(attribute[1]), 'px');
+  }
+
+  // mso-width-alt is in twentieths of a point
+  const alternate = style.match(/mso-width-alt:\s*([\d.]+)/i);
+  return alternate ? toPoints(parseFloat(alternate[1]) / 20, 'pt') : undefined;
+}
+
+/**
+ * Convert a length to points
+ */
+function toPoints(value: number, unit: string): number | undefined {
+  const factors: Record<string, number> = { in: 72, pt: 1, cm: 72 / 2.54, mm: 72 / 25.4, px: 0.75 };
+  const points = value * factors[unit.toLowerCase()];
+  return points > 0 ? points : undefined;
+}
+
 /**
  * Generate a reference name from table caption
  *
  * @param caption - Table caption
  * @param tableNumber - Optional table number
- * @returns Reference name suitable for RST
+ * @returns Reference name suitable for RST (e.g., "table-2-1",
+ *   "table-user-information")
  */
 export function generateTableRefName(
   caption: string,
   tableNumber?: string
 ): string {
   if (tableNumber) {
-    return `tbl-${tableNumber.replace(/\./g, '-')}`;
+    return `table-${tableNumber.replace(/\./g, '-')}`;
   }
 
   // Generate from caption text
@@ -502,5 +1183,5 @@ export function generateTableRefName(
     .replace(/^-+|-+$/g, '')
     .substring(0, 50);
 
-  return `tbl-${text || 'unnamed'}`;
+  return `table-${text || 'unnamed'}`;
 }
@@ -0,0 +1,62 @@
+/**
+ * RST Word Add-in - Toctree Directive Generator
+ * Generates Sphinx `.. toctree::` directives for multi-file documents
+ *
+ * @see https://www.sphinx-doc.org/en/master/usage/restructuredtext/directives.html#directive-toctree
+ */
+
+import { ToctreeOptions } from '../types';
+
+/**
+ * Default indentation for directive options
+ */
+const INDENT = '   ';
+
+/**
+ * Generate a Sphinx toctree directive
+ *
+ * @param options - Toctree options and entries
+ * @returns RST toctree directive string
+ *
+ * @example
+ * ```typescript
+ * const rst = generateToctreeDirective({
+ *   entries: ['introduction', 'installation'],
+ *   maxdepth: 2,
+ * });
+ * // Returns:
+ * // .. toctree::
+ * //    :maxdepth: 2
+ * //
+ * //    introduction
+ * //    installation
+ * ```
+ */
+export function generateToctreeDirective(options: ToctreeOptions): string {
+  const lines: string[] = ['.. toctree::'];
+
+  // Add options
+  if (options.maxdepth !== undefined && options.maxdepth > 0) {
+    lines.push(`${INDENT}:maxdepth: ${options.maxdepth}`);
+  }
+
+  if (options.numbered) {
+    lines.push(`${INDENT}:numbered:`);
+  }
+
+  if (options.caption) {
+    lines.push(`${INDENT}:caption: ${options.caption}`);
+  }
+
+  if (options.hidden) {
+    lines.push(`${INDENT}:hidden:`);
+  }
+
+  // Entries are separated from the options by a blank line
+  if (options.entries.length > 0) {
+    lines.push('');
+    lines.push(...options.entries.map((entry) => `${INDENT}${entry}`));
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,141 @@
+/**
+ * RST Word Add-in - Heading Hierarchy
+ * Detects and repairs heading levels that docutils cannot nest
+ *
+ * Word lets authors jump from Heading 1 to Heading 3 or use Heading 1 more
+ * than once. In RST a skipped level produces an inconsistent section
+ * structure. Several level-1 headings are fine for a document made of
+ * chapters, but leave a standalone page without a single title.
+ */
+
+import { AnyDocumentElement, HeadingElement } from './types';
+import { unescapeText } from '../utils/rst-escape';
+
+/**
+ * Heading hierarchy problem
+ */
+export interface HeadingIssue {
+  /** Kind of problem */
+  type: 'skipped-level' | 'multiple-titles';
+  /** Heading text (without RST escapes) */
+  heading: string;
+  /** Word heading level */
+  level: number;
+  /** Level the heading gets when the hierarchy is normalized */
+  expectedLevel: number;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * How heading hierarchy problems are handled
+ * - normalize: collapse skipped levels (and demote extra titles with the
+ *   singleTitle option)
+ * - warn: keep the levels and report each problem as a warning
+ * - ignore: keep the levels silently
+ */
+export type HeadingHierarchyMode = 'normalize' | 'warn' | 'ignore';
+
+/**
+ * Find heading hierarchy problems
+ *
+ * @param elements - Parsed document elements
+ * @param singleTitle - Report (and normalize) every Heading 1 after the first
+ * @returns Problems in document order
+ */
+export function checkHeadingHierarchy(elements: AnyDocumentElement[], singleTitle: boolean = false): HeadingIssue[] {
+  const headings = getHeadings(elements);
+  const levels = computeNormalizedLevels(headings, singleTitle);
+  const issues: HeadingIssue[] = [];
+  let titleSeen = false;
+
+  headings.forEach((heading, index) => {
+    const text = unescapeText(heading.text);
+
+    if (heading.level === 1) {
+      if (titleSeen && singleTitle) {
+        issues.push({
+          type: 'multiple-titles',
+          heading: text,
+          level: heading.level,
+          expectedLevel: levels[index],
+          message: `Heading "${text}" is an additional Heading 1; only the first one can be the document title`,
+        });
+      }
+      titleSeen = true;
+      return;
+    }
+
+    const previous = index > 0 ? headings[index - 1].level : null;
+    if (previous !== null && heading.level > previous + 1) {
+      issues.push({
+        type: 'skipped-level',
+        heading: text,
+        level: heading.level,
+        expectedLevel: levels[index],
+        message: `Heading "${text}" jumps from level ${previous} to level ${heading.level}`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Normalize heading levels
+ *
+ * Skipped levels are collapsed, so each heading is at most one level below
+ * its parent. With singleTitle, when the document has several Heading 1s
+ * the first stays the title and every later heading moves down one level
+ * first.
+ *
+ * @param elements - Parsed document elements
+ * @param singleTitle - Demote the headings after the first Heading 1
+ * @returns Elements with normalized copies of the headings
+ */
+export function normalizeHeadingLevels(elements: AnyDocumentElement[], singleTitle: boolean = false): AnyDocumentElement[] {
+  const headings = getHeadings(elements);
+  const levels = computeNormalizedLevels(headings, singleTitle);
+  const byHeading = new Map(headings.map((heading, index) => [heading, levels[index]]));
+
+  return elements.map((element) => {
+    const level = element.type === 'heading' ? byHeading.get(element) : undefined;
+    return level !== undefined && level !== (element as HeadingElement).level
+      ? { ...element, level } as HeadingElement
+      : element;
+  });
+}
+
+/**
+ * Get the heading elements of a document
+ */
+function getHeadings(elements: AnyDocumentElement[]): HeadingElement[] {
+  return elements.filter((element): element is HeadingElement => element.type === 'heading');
+}
+
+/**
+ * Compute the normalized level of every heading
+ */
+function computeNormalizedLevels(headings: HeadingElement[], singleTitle: boolean): number[] {
+  // Demote everything after the first title when there are several
+  const titleCount = headings.filter((heading) => heading.level === 1).length;
+  let titleSeen = false;
+  const demoted = headings.map((heading) => {
+    const level = singleTitle && titleCount > 1 && titleSeen ? heading.level + 1 : heading.level;
+    titleSeen = titleSeen || heading.level === 1;
+    return level;
+  });
+
+  // The document keeps its top level; deeper levels nest one at a time
+  const base = demoted.length > 0 ? Math.min(...demoted) : 1;
+  const stack: { level: number; normalized: number }[] = [];
+
+  return demoted.map((level) => {
+    while (stack.length > 0 && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    const normalized = stack.length > 0 ? stack[stack.length - 1].normalized + 1 : base;
+    stack.push({ level, normalized });
+    return normalized;
+  });
+}
@@ -14,22 +14,30 @@ import {
   ListItem,
   FieldListElement,
   FieldListItem,
+  DefinitionListElement,
+  DefinitionListItem,
+  CodeBlockElement,
   ImageElement,
   FigureElement,
   TableElement,
   TocElement,
   DirectiveElement,
+  FootnoteElement,
   ExtractedImage,
   ImageOptions,
   FigureOptions,
+  ParsedCaption,
+  StyleMapping,
 } from './types';
 
 import {
   parseHtmlTable,
+  generateTableRefName,
   isTocElement,
   parseTocOptions,
   isRstDirectiveStyle,
   parseCustomDirective,
+  parseDirectiveContent,
 } from './directives';
 
 import {
@@ -38,6 +46,22 @@ import {
   hasCaptionStyle,
 } from '../utils/caption-parser';
 
+import {
+  ElementHandler,
+  ElementPlugin,
+  ParseContext,
+  ParseResult,
+  BUILT_IN_PRIORITIES,
+  getElementPlugins,
+  sortElementHandlers,
+} from './plugins';
+
+import { OoxmlNotes } from '../utils/ooxml';
+import { normalizeCodeLanguage, detectCodeLanguage } from '../utils/code-language';
+import { escapeInlineText, escapeLineStarts, escapeLiteralText } from '../utils/rst-escape';
+import { normalizeLabel, prefixLabel, uniqueLabel } from '../utils/labels';
+import { normalizeStyleName, findStyleMapping, StyleKind } from '../utils/style-map';
+
 /**
  * Result of parsing Word HTML
  */
@@ -48,6 +72,8 @@ export interface ParsedDocument {
   images: ExtractedImage[];
   /** Document metadata */
   metadata: DocumentMetadata;
+  /** Problems found while parsing (e.g., dangling cross-references) */
+  warnings: string[];
 }
 
 /**
@@ -62,6 +88,79 @@ export interface DocumentMetadata {
   language?: string;
 }
 
+/**
+ * Parser options
+ */
+export interface ParserOptions {
+  /** Footnote/endnote text from the OOXML package (used when the HTML has no note bodies) */
+  ooxmlNotes?: OoxmlNotes;
+  /** Where footnote blocks are placed: end of document or end of each section */
+  footnotePlacement?: 'document' | 'section';
+  /** Font families rendered as inline literals (default: DEFAULT_MONOSPACE_FONTS) */
+  monospaceFonts?: string[];
+  /** Word character styles rendered as inline literals (default: DEFAULT_CODE_CHARACTER_STYLES) */
+  codeCharacterStyles?: string[];
+  /** Word paragraph styles rendered as code blocks (default: DEFAULT_CODE_PARAGRAPH_STYLES) */
+  codeParagraphStyles?: string[];
+  /** Guess the code block language from its content when the style names none (default: true) */
+  codeLanguageDetection?: boolean;
+  /** Role for cross-references to figure and table captions (default: 'numref') */
+  crossReferenceStyle?: 'numref' | 'ref';
+  /** Prefix for generated labels and names, e.g. the document name */
+  labelPrefix?: string;
+  /** Element plugins, in addition to those registered with registerElementPlugin() */
+  plugins?: ElementPlugin[];
+  /** Word styles mapped to directives, roles, headings, code blocks or nothing */
+  styleMap?: StyleMapping[];
+}
+
+/**
+ * Monospace font families recognized as inline code
+ */
+export const DEFAULT_MONOSPACE_FONTS = [
+  'Consolas',
+  'Courier New',
+  'Courier',
+  'Lucida Console',
+  'Lucida Sans Typewriter',
+  'Cascadia Code',
+  'Cascadia Mono',
+  'Source Code Pro',
+  'Fira Code',
+  'Fira Mono',
+  'Menlo',
+  'Monaco',
+  'DejaVu Sans Mono',
+  'Liberation Mono',
+  'monospace',
+];
+
+/**
+ * Word character styles recognized as inline code
+ */
+export const DEFAULT_CODE_CHARACTER_STYLES = [
+  'Code',
+  'Code Char',
+  'Inline Code',
+  'HTML Code',
+  'HTML Keyboard',
+  'HTML Sample',
+  'HTML Typewriter',
+];
+
+/**
+ * Word paragraph styles recognized as code blocks
+ *
+ * A style name followed by a language (e.g., "Code Python") sets the
+ * language of the block.
+ */
+export const DEFAULT_CODE_PARAGRAPH_STYLES = [
+  'Code',
+  'Code Block',
+  'HTML Preformatted',
+  'Source Code',
+];
+
 /**
  * Word heading style patterns
  */
@@ -73,6 +172,17 @@ const HEADING_PATTERNS = [
   { pattern: /^h(\d)$/i, levelExtractor: (m: RegExpMatchArray) => parseInt(m[1]) },
 ];
 
+/**
+ * Word paragraph styles for definition list terms and definitions
+ */
+export const DEFINITION_TERM_STYLES = ['Definition Term', 'DT'];
+export const DEFINITION_STYLES = ['Definition', 'DD'];
+
+/**
+ * Maximum length of a bold lead paragraph treated as a definition term
+ */
+const MAX_TERM_LENGTH = 100;
+
 // Word list style patterns (used for future list detection enhancements)
 // const LIST_PATTERNS = {
 //   ordered: /MsoListNumber|MsoListParagraph.*level.*numbering|list-style-type:\s*decimal/i,
@@ -91,14 +201,89 @@ export function resetImageCounter(): void {
   imageCounter = 0;
 }
 
+/**
+ * Options for the document currently being parsed
+ */
+let parseOptions: ParserOptions = {};
+
+/**
+ * Footnote names in the order they are first referenced
+ */
+let noteReferences: string[] = [];
+
+/**
+ * Internal links found while parsing, resolved against bookmarks afterwards
+ */
+let internalLinks: InternalLink[] = [];
+
+/**
+ * Figure/table names keyed by the bookmarks on their captions
+ */
+let captionTargets = new Map<string, CaptionTarget>();
+
+/**
+ * Cross-references to figures and tables, checked against the parsed names
+ */
+let captionReferences: CaptionTarget[] = [];
+
+/**
+ * Unique figure/table names reserved for numbered captions, in document
+ * order, keyed by the name the caption number gives
+ */
+let captionNames = new Map<string, string[]>();
+
+/**
+ * Figure and table names taken in the document
+ */
+let usedCaptionNames = new Set<string>();
+
+/**
+ * Warnings for figures and tables that were renamed to keep names unique
+ */
+let captionNameWarnings: string[] = [];
+
+/**
+ * Figure or table a caption bookmark stands for
+ */
+interface CaptionTarget {
+  /** Generated :name: of the figure or table (e.g., "fig-3") */
+  name: string;
+  /** Caption number (e.g., "3", "2.1") */
+  number: string;
+}
+
+/**
+ * Internal hyperlink to a Word bookmark
+ */
+interface InternalLink {
+  /** Bookmark name the link points to (without "#") */
+  target: string;
+  /** Link text (may contain inline formatting) */
+  text: string;
+}
+
+/**
+ * Word footnote/endnote anchor patterns
+ * - References link to #_ftn1 / #_edn1
+ * - Note bodies live in <div id="ftn1"> / <div id="edn1">
+ */
+const NOTE_REFERENCE_PATTERN = /^#_(ftn|edn)(\d+)$/i;
+const NOTE_BODY_PATTERN = /^(ftn|edn)(\d+)$/i;
+
+/**
+ * Anchor names Word uses for footnote/endnote references and back-references
+ */
+const FOOTNOTE_ANCHOR_PATTERN = /^_(ftn|edn)(ref)?\d+$/i;
+
 /**
  * Parse Word HTML into structured document elements
  *
  * @param html - HTML string from Word's getHtml()
+ * @param options - Parser options
  * @returns Parsed document with elements and images
  */
-export function parseWordHtml(html: string): ParsedDocument {
-  resetImageCounter();
+export function parseWordHtml(html: string, options: ParserOptions = {}): ParsedDocument {
+  beginDocument(options);
 
   const parser = new DOMParser();
   const doc = parser.parseFromString(html, 'text/html');
@@ -110,27 +295,100 @@ export function parseWordHtml(html: string): ParsedDocument {
   // Process body content
   const body = doc.body;
   if (!body) {
-    return { elements, images, metadata };
+    return { elements, images, metadata, warnings: [] };
   }
 
+  // Pull footnote/endnote bodies out before collecting blocks
+  const noteBodies = extractNoteBodies(body);
+
+  // Turn REF/PAGEREF field results into links to their bookmarks
+  convertReferenceFields(body);
+
   // Get all top-level block elements
   const blockElements = getBlockElements(body);
+  collectCaptionTargets(blockElements);
 
-  for (const element of blockElements) {
-    const parsed = parseElement(element, images);
-    if (parsed) {
-      if (Array.isArray(parsed)) {
-        elements.push(...parsed);
-      } else {
-        elements.push(parsed);
+  // Bookmarks waiting for the next element that produces output
+  let pendingBookmarks: string[] = [];
+
+  const handlers = sortElementHandlers(getElementPlugins(options.plugins), BUILT_IN_HANDLERS);
+
+  for (let i = 0; i < blockElements.length; i++) {
+    const element = blockElements[i];
+    const first = i;
+
+    const context: ParseContext = {
+      images,
+      peek: () => blockElements[i + 1],
+      consume: () => blockElements[++i],
+      formatInline: getFormattedContent,
+    };
+    const parsed = parseElement(element, handlers, context);
+
+    for (let j = first; j <= i; j++) {
+      pendingBookmarks.push(...getBookmarkNames(blockElements[j]));
+    }
+
+    const produced = !parsed ? [] : Array.isArray(parsed) ? parsed : [parsed];
+    if (produced.length > 0) {
+      // Bookmarks on empty paragraphs carry over to the next element
+      if (pendingBookmarks.length > 0) {
+        produced[0].labels = [...(produced[0].labels || []), ...pendingBookmarks];
+        pendingBookmarks = [];
       }
+      elements.push(...produced);
     }
   }
 
+  return { ...finishDocument(elements, noteBodies), images, metadata };
+}
+
+/**
+ * Reset the parser state for a new document
+ *
+ * The OOXML front end shares this state (footnotes, links, captions and
+ * image names) with the HTML parser.
+ *
+ * @param options - Parser options
+ */
+export function beginDocument(options: ParserOptions): void {
+  resetImageCounter();
+  parseOptions = options;
+  noteReferences = [];
+  internalLinks = [];
+  captionTargets = new Map();
+  captionReferences = [];
+  captionNames = new Map();
+  usedCaptionNames = new Set();
+  captionNameWarnings = [];
+}
+
+/**
+ * Finish the elements of a document
+ *
+ * Merges list items, field lists and captions into their elements, turns
+ * bookmarks into labels and adds footnote blocks for every referenced note.
+ *
+ * @param elements - Parsed elements in document order
+ * @param noteBodies - Footnote/endnote content keyed by footnote name
+ * @returns Final elements and warnings for dangling references and
+ *   renamed figures and tables
+ */
+export function finishDocument(
+  elements: AnyDocumentElement[],
+  noteBodies: Map<string, string>
+): { elements: AnyDocumentElement[]; warnings: string[] } {
   // Post-process: merge consecutive list items, handle figures with captions
   const processed = postProcessElements(elements);
 
-  return { elements: processed, images, metadata };
+  // Turn bookmarks into labels and point internal links at them
+  const warnings = resolveInternalLinks(processed);
+
+  // Add footnote blocks for every referenced note
+  const footnotes = buildFootnoteElements(noteBodies);
+  const placed = placeFootnotes(processed, footnotes, parseOptions.footnotePlacement || 'document');
+
+  return { elements: placed, warnings: [...captionNameWarnings, ...warnings] };
 }
 
 /**
@@ -166,7 +424,7 @@ function extractMetadata(doc: Document): DocumentMetadata {
 function getBlockElements(container: HTMLElement): HTMLElement[] {
   const elements: HTMLElement[] = [];
   // Content block tags (not wrapper divs)
-  const contentBlockTags = ['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'TABLE', 'UL', 'OL', 'BLOCKQUOTE', 'FIGURE', 'NAV'];
+  const contentBlockTags = ['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'TABLE', 'UL', 'OL', 'DL', 'PRE', 'BLOCKQUOTE', 'FIGURE', 'NAV'];
   // Wrapper tags that we should recurse into
   const wrapperTags = ['DIV', 'SPAN', 'SECTION', 'ARTICLE', 'MAIN'];
 
@@ -192,58 +450,186 @@ function getBlockElements(container: HTMLElement): HTMLElement[] {
 }
 
 /**
- * Parse a single HTML element into document element(s)
+ * Built-in block element handlers
  */
-function parseElement(
-  element: HTMLElement,
-  images: ExtractedImage[]
-): AnyDocumentElement | AnyDocumentElement[] | null {
-  const tagName = element.tagName.toUpperCase();
-  const className = element.className || '';
-
-  // Check for TOC first (can be div, nav, or have specific classes)
-  if (isTocElement(element)) {
-    return parseTocElement(element);
-  }
-
-  // Check for custom RST directive style
-  const wordStyle = extractWordStyle(element);
-  if (wordStyle && isRstDirectiveStyle(wordStyle)) {
-    return parseDirectiveElement(element, wordStyle);
-  }
+const BUILT_IN_HANDLERS: ElementHandler[] = [
+  {
+    // Styles in the styleMap option come before the built-in detection
+    name: 'style-map',
+    priority: BUILT_IN_PRIORITIES.styleMap,
+    detect: (element) => getStyleMapping(element, 'paragraph') !== undefined,
+    parse: (element, context) => parseMappedElement(element, getStyleMapping(element, 'paragraph')!, context),
+  },
+  {
+    // Consecutive code paragraphs form a single literal block
+    name: 'code-block',
+    priority: BUILT_IN_PRIORITIES.codeBlock,
+    detect: (element) => getCodeParagraphStyle(element) !== null,
+    parse: (element, context) => parseCodeParagraphs(element, context),
+  },
+  {
+    // Definition terms consume the indented paragraphs that follow them
+    name: 'definition-term',
+    priority: BUILT_IN_PRIORITIES.definitionTerm,
+    detect: (element, context) => isDefinitionTerm(element) && isDefinitionBody(context.peek()),
+    parse: (element, context) => {
+      const bodies: HTMLElement[] = [];
+      while (isDefinitionBody(context.peek())) {
+        bodies.push(context.consume());
+      }
+      return parseDefinitionItem(element, bodies);
+    },
+  },
+  {
+    // TOC can be div, nav, or have specific classes
+    name: 'toc',
+    priority: BUILT_IN_PRIORITIES.toc,
+    detect: (element) => isTocElement(element),
+    parse: (element) => parseTocElement(element),
+  },
+  {
+    name: 'directive',
+    priority: BUILT_IN_PRIORITIES.directive,
+    detect: (element) => {
+      const wordStyle = extractWordStyle(element);
+      return wordStyle !== null && isRstDirectiveStyle(wordStyle);
+    },
+    parse: (element) => parseDirectiveElement(element, extractWordStyle(element)!),
+  },
+  {
+    name: 'heading',
+    priority: BUILT_IN_PRIORITIES.heading,
+    detect: (element) => detectHeadingLevel(element) !== null,
+    parse: (element) => parseHeadingElement(element, detectHeadingLevel(element)!),
+  },
+  {
+    name: 'table',
+    priority: BUILT_IN_PRIORITIES.table,
+    detect: (element) => element.tagName.toUpperCase() === 'TABLE',
+    parse: (element, context) => {
+      // Check if this is a layout table (used for positioning images) vs content table
+      if (isLayoutTable(element as HTMLTableElement)) {
+        // Extract images from layout table
+        const layoutImages = extractImagesFromLayoutTable(element as HTMLTableElement, context.images);
+        if (layoutImages.length > 0) {
+          return layoutImages;
+        }
+        // No images found, skip this layout table
+        return null;
+      }
+      return parseTableElement(element);
+    },
+  },
+  {
+    name: 'list',
+    priority: BUILT_IN_PRIORITIES.list,
+    detect: (element) => ['UL', 'OL'].includes(element.tagName.toUpperCase()),
+    parse: (element) => parseListElement(element),
+  },
+  {
+    name: 'definition-list',
+    priority: BUILT_IN_PRIORITIES.definitionList,
+    detect: (element) => element.tagName.toUpperCase() === 'DL',
+    parse: (element) => parseHtmlDefinitionList(element),
+  },
+  {
+    name: 'figure',
+    priority: BUILT_IN_PRIORITIES.figure,
+    detect: (element) => element.tagName.toUpperCase() === 'FIGURE',
+    parse: (element, context) => parseFigureElement(element, context.images),
+  },
+  {
+    // Images, standalone or with nearby caption
+    name: 'image',
+    priority: BUILT_IN_PRIORITIES.image,
+    detect: (element) => element.tagName.toUpperCase() === 'IMG' || element.querySelector('img') !== null,
+    parse: (element, context) => parseImageBlock(element, context.images),
+  },
+  {
+    name: 'block-quote',
+    priority: BUILT_IN_PRIORITIES.blockQuote,
+    detect: (element) =>
+      element.tagName.toUpperCase() === 'BLOCKQUOTE' || (element.className || '').toLowerCase().includes('quote'),
+    parse: (element) => parseBlockQuote(element),
+  },
+  {
+    // Caption not attached to a figure or table (might be picked up in post-processing)
+    name: 'caption',
+    priority: BUILT_IN_PRIORITIES.caption,
+    detect: (element) => hasCaptionStyle(element),
+    parse: (element) => ({
+      type: 'paragraph',
+      content: element.textContent?.trim() || '',
+      style: extractWordStyle(element) || undefined,
+      html: element.outerHTML,
+    }),
+  },
+  {
+    // Word list paragraphs (MsoListParagraph variants)
+    name: 'list-paragraph',
+    priority: BUILT_IN_PRIORITIES.listParagraph,
+    detect: (element) => isWordListParagraph(element),
+    parse: (element) => parseWordListItem(element),
+  },
+  {
+    name: 'paragraph',
+    priority: BUILT_IN_PRIORITIES.paragraph,
+    detect: () => true,
+    parse: (element) => parseParagraphElement(element),
+  },
+];
 
-  // Check for heading
-  const headingLevel = detectHeadingLevel(element);
-  if (headingLevel) {
-    return parseHeadingElement(element, headingLevel);
-  }
+/**
+ * Parse a single HTML element into document element(s)
+ *
+ * @param element - Block element
+ * @param handlers - Built-in handlers and plugins, highest priority first
+ * @param context - Parser state for the handlers
+ * @returns Parsed element(s), or null if the element produces no output
+ */
+function parseElement(element: HTMLElement, handlers: ElementHandler[], context: ParseContext): ParseResult {
+  const handler = handlers.find((candidate) => candidate.detect(element, context));
+  return handler ? handler.parse(element, context) : null;
+}
 
-  // Check for table
-  if (tagName === 'TABLE') {
-    // Check if this is a layout table (used for positioning images) vs content table
-    if (isLayoutTable(element as HTMLTableElement)) {
-      // Extract images from layout table
-      const layoutImages = extractImagesFromLayoutTable(element as HTMLTableElement, images);
-      if (layoutImages.length > 0) {
-        return layoutImages;
-      }
-      // No images found, skip this layout table
+/**
+ * Parse a paragraph whose style is in the style map
+ */
+function parseMappedElement(element: HTMLElement, mapping: StyleMapping, context: ParseContext): ParseResult {
+  switch (mapping.type) {
+    case 'directive':
+      return parseDirectiveElement(element, extractWordStyle(element) || mapping.style, mapping);
+    case 'heading':
+      return parseHeadingElement(element, mapping.level!);
+    case 'code-block':
+      return parseCodeParagraphs(element, context);
+    default:
+      // Dropped
       return null;
-    }
-    return parseTableElement(element);
-  }
-
-  // Check for list
-  if (tagName === 'UL' || tagName === 'OL') {
-    return parseListElement(element);
   }
+}
 
-  // Check for figure
-  if (tagName === 'FIGURE') {
-    return parseFigureElement(element, images);
-  }
+/**
+ * Parse a code paragraph and the code paragraphs that follow it in the
+ * same language into a single literal block
+ */
+function parseCodeParagraphs(element: HTMLElement, context: ParseContext): CodeBlockElement | null {
+  const codeStyle = getCodeParagraphStyle(element) || {};
+  const lines = [element];
+  let next = context.peek();
+  while (next) {
+    const nextStyle = getCodeParagraphStyle(next);
+    if (!nextStyle || nextStyle.language !== codeStyle.language) break;
+    lines.push(context.consume());
+    next = context.peek();
+  }
+  return parseCodeBlock(lines, codeStyle.language);
+}
 
-  // Check for images (standalone or with nearby caption)
+/**
+ * Parse a block with images into image or figure elements
+ */
+function parseImageBlock(element: HTMLElement, images: ExtractedImage[]): ParseResult {
   // First check if there's a layout table inside with images
   const nestedLayoutTable = element.querySelector('table') as HTMLTableElement | null;
   if (nestedLayoutTable && isLayoutTable(nestedLayoutTable)) {
@@ -277,34 +663,7 @@ function parseElement(
     return parseImageOrFigure(element, allImgs[0] as HTMLImageElement, images);
   }
 
-  const img = tagName === 'IMG' ? element as unknown as HTMLImageElement : null;
-  if (img) {
-    return parseImageOrFigure(element, img, images);
-  }
-
-  // Check for blockquote
-  if (tagName === 'BLOCKQUOTE' || className.toLowerCase().includes('quote')) {
-    return parseBlockQuote(element);
-  }
-
-  // Check for caption (might have already been processed with its figure)
-  if (hasCaptionStyle(element)) {
-    // Standalone caption - return as paragraph with special note
-    return {
-      type: 'paragraph',
-      content: element.textContent?.trim() || '',
-      style: wordStyle || undefined,
-      html: element.outerHTML,
-    };
-  }
-
-  // Check for Word list paragraph (MsoListParagraph variants)
-  if (isWordListParagraph(element)) {
-    return parseWordListItem(element);
-  }
-
-  // Default: paragraph
-  return parseParagraphElement(element);
+  return parseImageOrFigure(element, element as unknown as HTMLImageElement, images);
 }
 
 /**
@@ -388,7 +747,7 @@ function parseHeadingElement(element: HTMLElement, level: number): HeadingElemen
   return {
     type: 'heading',
     level: Math.min(Math.max(level, 1), 6),
-    text: getTextContent(element),
+    text: escapeLiteralText(getTextContent(element)),
     html: element.outerHTML,
     style: extractWordStyle(element) || undefined,
   };
@@ -421,8 +780,22 @@ function parseFieldListLine(content: string): FieldListItem | null {
  * Parse paragraph element
  */
 function parseParagraphElement(element: HTMLElement): ParagraphElement | FieldListElement | null {
-  const content = getFormattedContent(element);
+  return createParagraphElement(getFormattedContent(element), extractWordStyle(element) || undefined, element.outerHTML);
+}
 
+/**
+ * Create a paragraph (or field list line) from formatted content
+ *
+ * @param content - Inline RST content; "\n" marks hard line breaks
+ * @param style - Word style name
+ * @param html - Source markup
+ * @returns Paragraph or field list element, or null for an empty paragraph
+ */
+export function createParagraphElement(
+  content: string,
+  style?: string,
+  html?: string
+): ParagraphElement | FieldListElement | null {
   // Skip empty paragraphs
   if (!content.trim()) {
     return null;
@@ -434,15 +807,17 @@ function parseParagraphElement(element: HTMLElement): ParagraphElement | FieldLi
     return {
       type: 'field-list',
       fields: [fieldItem],
-      html: element.outerHTML,
+      html,
     };
   }
 
+  const lines = normalizeLineBreaks(content);
   return {
     type: 'paragraph',
-    content,
-    html: element.outerHTML,
-    style: extractWordStyle(element) || undefined,
+    content: escapeLineStarts(lines),
+    lineBreaks: lines.includes('\n') || undefined,
+    html,
+    style,
   };
 }
 
@@ -459,25 +834,39 @@ function isWordListParagraph(element: HTMLElement): boolean {
  * Word uses .5in increments: .5in = level 0, 1.0in = level 1, 1.5in = level 2, etc.
  */
 function extractIndentLevel(element: HTMLElement): number {
+  const inches = extractLeftMargin(element);
+
+  if (inches !== null) {
+    // .5in = level 0, 1.0in = level 1, etc.
+    return Math.max(0, Math.round((inches - 0.5) / 0.5));
+  }
+
+  return 0;
+}
+
+/**
+ * Extract Word's margin-left style in inches
+ * @returns Left margin in inches, or null if not set
+ */
+function extractLeftMargin(element: HTMLElement): number | null {
   const style = element.getAttribute('style') || '';
   const marginMatch = style.match(/margin-left:\s*([\d.]+)(in|pt|cm)/i);
 
-  if (marginMatch) {
-    let inches = parseFloat(marginMatch[1]);
-    const unit = marginMatch[2].toLowerCase();
+  if (!marginMatch) {
+    return null;
+  }
 
-    // Convert to inches
-    if (unit === 'pt') {
-      inches = inches / 72;
-    } else if (unit === 'cm') {
-      inches = inches / 2.54;
-    }
+  let inches = parseFloat(marginMatch[1]);
+  const unit = marginMatch[2].toLowerCase();
 
-    // .5in = level 0, 1.0in = level 1, etc.
-    return Math.max(0, Math.round((inches - 0.5) / 0.5));
+  // Convert to inches
+  if (unit === 'pt') {
+    inches = inches / 72;
+  } else if (unit === 'cm') {
+    inches = inches / 2.54;
   }
 
-  return 0;
+  return inches;
 }
 
 /**
@@ -518,7 +907,7 @@ function parseWordListItem(element: HTMLElement): ListElement {
   // The actual content follows after
   for (const node of Array.from(element.childNodes)) {
     if (node.nodeType === Node.TEXT_NODE) {
-      content += node.textContent;
+      content += escapeInlineText(normalizeWhitespace(node.textContent || ''), content);
     } else if (node.nodeType === Node.ELEMENT_NODE) {
       const el = node as HTMLElement;
       const style = el.getAttribute('style') || '';
@@ -531,6 +920,11 @@ function parseWordListItem(element: HTMLElement): ListElement {
         continue;
       }
 
+      if (el.tagName === 'BR') {
+        content += isPageBreak(el) ? ' ' : '\n';
+        continue;
+      }
+
       // Check nested spans for bullet markers
       if (el.tagName === 'SPAN') {
         const innerStyle = el.querySelector('[style*="Symbol"], [style*="Wingdings"], [style*="Courier"]');
@@ -539,14 +933,14 @@ function parseWordListItem(element: HTMLElement): ListElement {
           const textParts: string[] = [];
           for (const child of Array.from(el.childNodes)) {
             if (child.nodeType === Node.TEXT_NODE) {
-              textParts.push(child.textContent || '');
+              textParts.push(escapeInlineText(normalizeWhitespace(child.textContent || '')));
             } else if (child.nodeType === Node.ELEMENT_NODE) {
               const childEl = child as HTMLElement;
               const childStyle = childEl.getAttribute('style') || '';
               if (!childStyle.includes('Symbol') &&
                   !childStyle.includes('Wingdings') &&
                   !childStyle.includes('Courier')) {
-                textParts.push(childEl.textContent || '');
+                textParts.push(escapeInlineText(normalizeWhitespace(childEl.textContent || '')));
               }
             }
           }
@@ -564,118 +958,449 @@ function parseWordListItem(element: HTMLElement): ListElement {
   content = content
     .replace(/^[\s·•◦▪▸►§o\-\*]+/, '')           // Remove leading bullets
     .replace(/^\s*(\d+|[a-z]|[ivxlcdm]+)[.\)]\s*/i, '') // Remove leading numbers/letters/roman
-    .replace(/\s+/g, ' ')                          // Normalize whitespace
+    .replace(/[^\S\n]+/g, ' ')                     // Normalize whitespace, keeping line breaks
     .trim();
+  content = normalizeLineBreaks(content);
 
   // Return as a single-item list with indent level
   return {
     type: 'list',
     listType,
-    items: [{ content, indentLevel }],
+    items: [{ content: escapeLineStarts(content), lineBreaks: content.includes('\n') || undefined, indentLevel }],
     html: element.outerHTML,
   };
 }
 
 /**
- * Parse blockquote element
+ * Check if element carries one of the given Word style names
+ *
+ * Word exports custom style names as class names with spaces removed
+ * (e.g., "Definition Term" -> class="DefinitionTerm"), so names are
+ * compared ignoring case, spaces, hyphens and underscores.
  */
-function parseBlockQuote(element: HTMLElement): ParagraphElement {
-  return {
-    type: 'paragraph',
-    content: getFormattedContent(element),
-    isBlockQuote: true,
-    html: element.outerHTML,
-    style: extractWordStyle(element) || undefined,
-  };
+function hasWordStyle(element: HTMLElement, styleNames: string[]): boolean {
+  const wanted = styleNames.map(normalizeStyleName);
+  return getStyleCandidates(element).some((candidate) => wanted.includes(candidate));
 }
 
 /**
- * Parse list element
+ * Get the normalized style names an element may carry
  */
-function parseListElement(element: HTMLElement): ListElement {
-  const tagName = element.tagName.toUpperCase();
-  const listType = tagName === 'OL' ? 'ordered' : 'unordered';
+function getStyleCandidates(element: HTMLElement): string[] {
+  const candidates = (element.className || '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((cls) => cls.replace(/^Mso/, ''));
+  const wordStyle = extractWordStyle(element);
+  if (wordStyle) {
+    candidates.push(wordStyle);
+  }
 
-  const items: ListItem[] = [];
-  const listItems = element.querySelectorAll(':scope > li');
+  return candidates.map(normalizeStyleName);
+}
 
-  for (const li of Array.from(listItems)) {
-    const item = parseListItem(li as HTMLElement);
-    items.push(item);
+/**
+ * Get the style map entry for a paragraph or text run
+ */
+function getStyleMapping(element: HTMLElement, kind: StyleKind): StyleMapping | undefined {
+  if (!parseOptions.styleMap) {
+    return undefined;
   }
 
-  return {
-    type: 'list',
-    listType,
-    items,
-    html: element.outerHTML,
-  };
+  return findStyleMapping(getStyleCandidates(element), parseOptions.styleMap, kind);
 }
 
 /**
- * Parse a list item
+ * Check if all visible text in an element is bold
  */
-function parseListItem(li: HTMLElement): ListItem {
-  // Get content excluding nested lists
-  let content = '';
-  for (const child of Array.from(li.childNodes)) {
-    if (child.nodeType === Node.TEXT_NODE) {
-      content += child.textContent;
-    } else if (child.nodeType === Node.ELEMENT_NODE) {
-      const el = child as HTMLElement;
-      if (el.tagName !== 'UL' && el.tagName !== 'OL') {
-        content += getFormattedContent(el);
-      }
+function isEntirelyBold(element: HTMLElement): boolean {
+  const walker = element.ownerDocument.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  let hasText = false;
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    // Ignore whitespace and a trailing colon outside the bold run
+    if (/^[\s:]*$/.test(node.textContent || '')) continue;
+    hasText = true;
+
+    let bold = false;
+    for (let el = node.parentElement; el && !bold; el = el.parentElement) {
+      const style = el.getAttribute('style') || '';
+      bold = el.tagName === 'B' ||
+        el.tagName === 'STRONG' ||
+        /font-weight:\s*(bold|700)/i.test(style);
+      if (el === element) break;
+    }
+
+    if (!bold) {
+      return false;
     }
   }
 
-  const item: ListItem = {
-    content: content.trim(),
-  };
+  return hasText;
+}
 
-  // Check for nested list
-  const nestedList = li.querySelector(':scope > ul, :scope > ol');
-  if (nestedList) {
-    item.nestedList = parseListElement(nestedList as HTMLElement);
+/**
+ * Check if element is a definition list term
+ *
+ * Terms are either paragraphs in a Word "Definition Term" style or short
+ * paragraphs whose text is entirely bold ("**Term:**").
+ */
+function isDefinitionTerm(element: HTMLElement): boolean {
+  if (element.tagName.toUpperCase() !== 'P' || detectHeadingLevel(element) || isWordListParagraph(element)) {
+    return false;
   }
 
-  return item;
+  if (hasWordStyle(element, DEFINITION_TERM_STYLES)) {
+    return true;
+  }
+
+  const text = getTextContent(element);
+  return text.length > 0 && text.length <= MAX_TERM_LENGTH && isEntirelyBold(element);
 }
 
 /**
- * Check if a table is a layout table (used for positioning images) vs content table
- * Word uses layout tables with cellpadding=0 and cellspacing=0 to position images
- * Content tables have the MsoTableGrid class
+ * Check if element is a definition body following a term
+ *
+ * Bodies are paragraphs in a Word "Definition" style or indented paragraphs.
  */
-function isLayoutTable(table: HTMLTableElement): boolean {
-  const className = table.className || '';
+function isDefinitionBody(element: HTMLElement | undefined): element is HTMLElement {
+  if (!element || element.tagName.toUpperCase() !== 'P') {
+    return false;
+  }
 
-  // Content tables have MsoTableGrid class
-  if (className.includes('MsoTableGrid')) {
+  if (detectHeadingLevel(element) || isWordListParagraph(element) || element.querySelector('img')) {
     return false;
   }
 
-  // Check for layout table indicators
-  const cellPadding = table.getAttribute('cellpadding');
-  const cellSpacing = table.getAttribute('cellspacing');
-  const hasImages = table.querySelectorAll('img').length > 0;
+  if (!getTextContent(element)) {
+    return false;
+  }
 
-  // Layout tables typically have cellpadding=0 and cellspacing=0 and contain images
-  const isLayoutStyle = cellPadding === '0' || cellSpacing === '0';
+  if (hasWordStyle(element, DEFINITION_STYLES)) {
+    return true;
+  }
 
-  return hasImages && isLayoutStyle;
+  if (getCodeParagraphStyle(element)) {
+    return false;
+  }
+
+  const margin = extractLeftMargin(element);
+  return margin !== null && margin > 0 && !isDefinitionTerm(element);
 }
 
 /**
- * Extract all images from a layout table
- * Layout tables are used by Word to position multiple images
+ * Parse a definition term paragraph and its definition paragraphs
  */
-function extractImagesFromLayoutTable(
-  table: HTMLTableElement,
-  images: ExtractedImage[]
-): ImageElement[] {
-  const result: ImageElement[] = [];
-  const imgElements = table.querySelectorAll('img');
+function parseDefinitionItem(term: HTMLElement, bodies: HTMLElement[]): DefinitionListElement {
+  let termContent = getFormattedContent(term).trim();
+
+  // Bold-lead terms: drop the bold markup and the trailing colon
+  const boldMatch = termContent.match(/^\*\*(.+)\*\*(:?)$/);
+  if (boldMatch) {
+    termContent = boldMatch[1] + boldMatch[2];
+  }
+  termContent = escapeLineStarts(termContent.replace(/\s*:$/, ''));
+
+  const definition = bodies
+    .map((body) => escapeLineStarts(getFormattedContent(body).trim()))
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    type: 'definition-list',
+    items: [{ term: termContent, definition }],
+    html: term.outerHTML + bodies.map((body) => body.outerHTML).join(''),
+    style: extractWordStyle(term) || undefined,
+  };
+}
+
+/**
+ * Parse HTML definition list (<dl>)
+ */
+function parseHtmlDefinitionList(element: HTMLElement): DefinitionListElement {
+  const items: DefinitionListItem[] = [];
+
+  for (const child of Array.from(element.children)) {
+    const tag = child.tagName.toUpperCase();
+    const content = escapeLineStarts(getFormattedContent(child as HTMLElement).trim());
+
+    if (tag === 'DT') {
+      items.push({ term: content, definition: '' });
+    } else if (tag === 'DD' && items.length > 0) {
+      const last = items[items.length - 1];
+      last.definition = last.definition ? `${last.definition}\n\n${content}` : content;
+    }
+  }
+
+  return {
+    type: 'definition-list',
+    items,
+    html: element.outerHTML,
+  };
+}
+
+/**
+ * Check if element is a line of a code block
+ *
+ * Code lines are <pre> elements, paragraphs in a code paragraph style, or
+ * paragraphs set entirely in a monospace font.
+ *
+ * @returns Code style info (with the language named by the style, if any),
+ *          or null if the element is not code
+ */
+function getCodeParagraphStyle(element: HTMLElement): { language?: string } | null {
+  // Mapped styles are code only when mapped to a code block
+  const mapping = getStyleMapping(element, 'paragraph');
+  if (mapping) {
+    if (mapping.type !== 'code-block') {
+      return null;
+    }
+    return mapping.language ? { language: normalizeCodeLanguage(mapping.language) || mapping.language } : {};
+  }
+
+  const tagName = element.tagName.toUpperCase();
+  if (tagName !== 'P' && tagName !== 'PRE') {
+    return null;
+  }
+
+  if (isTocElement(element) || detectHeadingLevel(element) || isWordListParagraph(element) || element.querySelector('img')) {
+    return null;
+  }
+
+  const wordStyle = extractWordStyle(element);
+  if (wordStyle && isRstDirectiveStyle(wordStyle)) {
+    return null;
+  }
+
+  const styles = (parseOptions.codeParagraphStyles || DEFAULT_CODE_PARAGRAPH_STYLES).map(normalizeStyleName);
+  for (const candidate of getStyleCandidates(element)) {
+    for (const style of styles) {
+      if (candidate === style) {
+        return {};
+      }
+      // Language suffix: "Code Python" -> class "CodePython"
+      if (candidate.startsWith(style)) {
+        const language = normalizeCodeLanguage(candidate.slice(style.length));
+        if (language) {
+          return { language };
+        }
+      }
+    }
+  }
+
+  if (tagName === 'PRE' || isMonospaceParagraph(element)) {
+    return {};
+  }
+
+  return null;
+}
+
+/**
+ * Check if all text in a paragraph is set in a monospace font
+ *
+ * Whitespace-only paragraphs count when their whitespace is monospace, so
+ * blank lines inside a block of Consolas paragraphs are kept.
+ */
+function isMonospaceParagraph(element: HTMLElement): boolean {
+  const fontFamily = getFontFamily(element);
+  if (fontFamily && isMonospaceFont(fontFamily)) {
+    return true;
+  }
+
+  const walker = element.ownerDocument.createTreeWalker(element, NodeFilter.SHOW_TEXT);
+  let hasCode = false;
+
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = (node.textContent || '').replace(/[\r\n]/g, '');
+    if (!text) continue;
+
+    let code = false;
+    for (let el = node.parentElement; el && el !== element && !code; el = el.parentElement) {
+      code = isCodeRun(el);
+    }
+
+    if (code) {
+      hasCode = true;
+    } else if (text.replace(/\u00a0/g, ' ').trim()) {
+      return false;
+    }
+  }
+
+  return hasCode;
+}
+
+/**
+ * Parse consecutive code lines into a code block
+ *
+ * @param lines - Code paragraphs in document order
+ * @param language - Language named by the paragraph style, if any
+ */
+function parseCodeBlock(lines: HTMLElement[], language?: string): CodeBlockElement | null {
+  const code = lines
+    .map((line) => getCodeText(line))
+    .join('\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/^\n+|\n+$/g, '');
+
+  if (!code.trim()) {
+    return null;
+  }
+
+  if (!language && parseOptions.codeLanguageDetection !== false) {
+    language = detectCodeLanguage(code);
+  }
+
+  return {
+    type: 'code-block',
+    code,
+    language,
+    html: lines.map((line) => line.outerHTML).join(''),
+    style: extractWordStyle(lines[0]) || undefined,
+  };
+}
+
+/**
+ * Get the verbatim text of a code line
+ *
+ * Non-breaking spaces (used by Word for runs of spaces) become spaces,
+ * <br> becomes a newline and Word tab spans become tabs. Outside <pre>,
+ * newlines in the HTML source are Word's line wrapping and become spaces.
+ */
+function getCodeText(element: HTMLElement, preformatted: boolean = false): string {
+  preformatted = preformatted || element.tagName.toUpperCase() === 'PRE';
+  let text = '';
+
+  for (const node of Array.from(element.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      let value = node.textContent || '';
+      if (!preformatted) {
+        value = value.replace(/\r?\n/g, ' ');
+      }
+      text += value.replace(/\u00a0/g, ' ');
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      const el = node as HTMLElement;
+      const style = el.getAttribute('style') || '';
+      const tabCount = style.match(/mso-tab-count:\s*(\d+)/i);
+
+      if (el.tagName.toUpperCase() === 'BR') {
+        text += '\n';
+      } else if (tabCount) {
+        text += '\t'.repeat(parseInt(tabCount[1]));
+      } else if (!/mso-list:\s*ignore/i.test(style)) {
+        text += getCodeText(el, preformatted);
+      }
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Parse blockquote element
+ */
+function parseBlockQuote(element: HTMLElement): ParagraphElement {
+  const lines = normalizeLineBreaks(getFormattedContent(element));
+  return {
+    type: 'paragraph',
+    content: escapeLineStarts(lines),
+    isBlockQuote: true,
+    lineBreaks: lines.includes('\n') || undefined,
+    html: element.outerHTML,
+    style: extractWordStyle(element) || undefined,
+  };
+}
+
+/**
+ * Parse list element
+ */
+function parseListElement(element: HTMLElement): ListElement {
+  const tagName = element.tagName.toUpperCase();
+  const listType = tagName === 'OL' ? 'ordered' : 'unordered';
+
+  const items: ListItem[] = [];
+  const listItems = element.querySelectorAll(':scope > li');
+
+  for (const li of Array.from(listItems)) {
+    const item = parseListItem(li as HTMLElement);
+    items.push(item);
+  }
+
+  return {
+    type: 'list',
+    listType,
+    items,
+    html: element.outerHTML,
+  };
+}
+
+/**
+ * Parse a list item
+ */
+function parseListItem(li: HTMLElement): ListItem {
+  // Get content excluding nested lists
+  let content = '';
+  for (const child of Array.from(li.childNodes)) {
+    if (child.nodeType === Node.TEXT_NODE) {
+      content += escapeInlineText(normalizeWhitespace(child.textContent || ''), content);
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      const el = child as HTMLElement;
+      if (el.tagName === 'BR') {
+        content += isPageBreak(el) ? ' ' : '\n';
+      } else if (el.tagName !== 'UL' && el.tagName !== 'OL') {
+        content += getFormattedContent(el);
+      }
+    }
+  }
+
+  const lines = normalizeLineBreaks(content);
+  const item: ListItem = {
+    content: escapeLineStarts(lines),
+    lineBreaks: lines.includes('\n') || undefined,
+  };
+
+  // Check for nested list
+  const nestedList = li.querySelector(':scope > ul, :scope > ol');
+  if (nestedList) {
+    item.nestedList = parseListElement(nestedList as HTMLElement);
+  }
+
+  return item;
+}
+
+/**
+ * Check if a table is a layout table (used for positioning images) vs content table
+ * Word uses layout tables with cellpadding=0 and cellspacing=0 to position images
+ * Content tables have the MsoTableGrid class
+ */
+function isLayoutTable(table: HTMLTableElement): boolean {
+  const className = table.className || '';
+
+  // Content tables have MsoTableGrid class
+  if (className.includes('MsoTableGrid')) {
+    return false;
+  }
+
+  // Check for layout table indicators
+  const cellPadding = table.getAttribute('cellpadding');
+  const cellSpacing = table.getAttribute('cellspacing');
+  const hasImages = table.querySelectorAll('img').length > 0;
+
+  // Layout tables typically have cellpadding=0 and cellspacing=0 and contain images
+  const isLayoutStyle = cellPadding === '0' || cellSpacing === '0';
+
+  return hasImages && isLayoutStyle;
+}
+
+/**
+ * Extract all images from a layout table
+ * Layout tables are used by Word to position multiple images
+ */
+function extractImagesFromLayoutTable(
+  table: HTMLTableElement,
+  images: ExtractedImage[]
+): ImageElement[] {
+  const result: ImageElement[] = [];
+  const imgElements = table.querySelectorAll('img');
 
   for (const imgEl of Array.from(imgElements)) {
     const img = imgEl as HTMLImageElement;
@@ -702,7 +1427,13 @@ function extractImagesFromLayoutTable(
  * Parse table element
  */
 function parseTableElement(element: HTMLElement): TableElement {
-  const tableData = parseHtmlTable(element as HTMLTableElement);
+  const tableData = parseHtmlTable(element as HTMLTableElement, formatCellContent);
+
+  const nestedTables = Array.from(element.querySelectorAll('table'))
+    .filter((table) => table.parentElement?.closest('table') === element).length;
+  if (nestedTables > 0) {
+    tableData.nestedTables = nestedTables;
+  }
 
   return {
     type: 'table',
@@ -711,6 +1442,102 @@ function parseTableElement(element: HTMLElement): TableElement {
   };
 }
 
+/**
+ * Format the content of a table cell as RST cell text
+ *
+ * Paragraphs keep their inline markup and are separated by blank lines.
+ * Lists become "-" / "#." lines and hard line breaks become line blocks,
+ * so the cell body is valid RST on its own.
+ */
+function formatCellContent(cell: HTMLElement): string {
+  const blocks = getBlockElements(cell);
+  const parts: string[] = [];
+  // Consecutive Word list paragraphs of the same level form one list
+  let listLevel: number | null = null;
+
+  for (const block of blocks.length > 0 ? blocks : [cell]) {
+    const tagName = block.tagName.toUpperCase();
+
+    if (isWordListParagraph(block)) {
+      const list = parseWordListItem(block);
+      const item = list.items[0];
+      if (!item.content) {
+        continue;
+      }
+      const level = item.indentLevel || 0;
+      const lines = formatCellListItem(list.listType, item, '   '.repeat(level));
+      if (listLevel === level) {
+        parts[parts.length - 1] += '\n' + lines.join('\n');
+      } else {
+        parts.push(lines.join('\n'));
+      }
+      listLevel = level;
+      continue;
+    }
+    listLevel = null;
+
+    if (tagName === 'UL' || tagName === 'OL') {
+      parts.push(formatCellList(parseListElement(block), ''));
+    } else if (tagName === 'TABLE') {
+      // Nested tables are not converted; keep the nested table's text
+      // (reported by the table warnings)
+      const text = getTextContent(block);
+      if (text) {
+        parts.push(escapeLiteralText(text));
+      }
+    } else {
+      const lines = normalizeLineBreaks(getFormattedContent(block));
+      if (!lines.trim()) {
+        continue;
+      }
+      const content = escapeLineStarts(lines);
+      parts.push(lines.includes('\n') ? formatCellLineBlock(content).join('\n') : content);
+    }
+  }
+
+  return parts.join('\n\n');
+}
+
+/**
+ * Format a list inside a table cell
+ *
+ * Nested lists are set off by blank lines, which docutils requires
+ * inside a list item body.
+ */
+function formatCellList(list: ListElement, indent: string): string {
+  const lines: string[] = [];
+
+  for (const item of list.items) {
+    lines.push(...formatCellListItem(list.listType, item, indent));
+
+    if (item.nestedList) {
+      lines.push('', formatCellList(item.nestedList, indent + '   '), '');
+    }
+  }
+
+  return lines.join('\n').replace(/\n+$/, '');
+}
+
+/**
+ * Format a single list item inside a table cell
+ */
+function formatCellListItem(listType: ListElement['listType'], item: ListItem, indent: string): string[] {
+  const marker = listType === 'ordered' ? '#.' : '-';
+  const contentLines = item.lineBreaks ? formatCellLineBlock(item.content) : [item.content];
+  const continuation = indent + ' '.repeat(marker.length + 1);
+
+  return contentLines.map((line, index) =>
+    index === 0 ? `${indent}${marker} ${line}` : `${continuation}${line}`
+  );
+}
+
+/**
+ * Format lines separated by hard line breaks as a line block
+ */
+function formatCellLineBlock(content: string): string[] {
+  return content.split('\n').map((line) => (line ? `| ${line}` : '|'));
+}
+
 /**
  * Parse TOC element
  */
@@ -725,11 +1552,13 @@ function parseTocElement(element: HTMLElement): TocElement {
 }
 
 /**
- * Parse custom directive element
+ * Parse custom directive element (rst_* style or a style mapped to a directive)
  */
-function parseDirectiveElement(element: HTMLElement, styleName: string): DirectiveElement {
+function parseDirectiveElement(element: HTMLElement, styleName: string, mapping?: StyleMapping): DirectiveElement {
   const content = element.textContent || '';
-  const directive = parseCustomDirective(styleName, content);
+  const directive = mapping
+    ? parseDirectiveContent(mapping.directive!, content, mapping)
+    : parseCustomDirective(styleName, content);
 
   return {
     type: 'directive',
@@ -835,17 +1664,7 @@ function createFigureElement(
   figureOptions.figname = figureId;
 
   if (captionElement) {
-    const captionText = captionElement.textContent?.trim() || '';
-    const parsed = parseCaption(captionText);
-
-    if (parsed) {
-      figureOptions.caption = parsed.text;
-      figureOptions.figureNumber = parsed.number;
-      // Use parsed number for name if available
-      figureOptions.figname = `fig-${parsed.number.replace(/\./g, '-')}`;
-    } else {
-      figureOptions.caption = captionText;
-    }
+    applyFigureCaption(figureOptions, captionElement.textContent?.trim() || '');
   }
 
   // Check for figure width
@@ -863,6 +1682,26 @@ function createFigureElement(
   };
 }
 
+/**
+ * Set the caption, number and name of a figure from its caption text
+ *
+ * @param figureOptions - Figure options to update
+ * @param captionText - Caption text (e.g., "Figure 3: Overview")
+ */
+export function applyFigureCaption(figureOptions: FigureOptions, captionText: string): void {
+  const parsed = parseCaption(captionText);
+
+  if (parsed) {
+    figureOptions.caption = parsed.text;
+    figureOptions.figureNumber = parsed.number;
+    // Use parsed number for name if available
+    const name = getCaptionTargetName({ ...parsed, type: 'Figure' });
+    figureOptions.figname = name ? claimCaptionName(name, `Figure ${parsed.number}`) : figureOptions.figname;
+  } else {
+    figureOptions.caption = captionText;
+  }
+}
+
 /**
  * Parse image options from img element
  */
@@ -922,22 +1761,22 @@ function extractImageData(img: HTMLImageElement): ExtractedImage | undefined {
 
   // Handle base64 data URLs
   if (src.startsWith('data:image/')) {
-    const match = src.match(/^data:image\/(\w+);base64,(.+)$/);
+    // Metafiles have unregistered types (image/x-emf, image/x-wmf)
+    const match = src.match(/^data:image\/(?:x-)?(\w+);base64,(.+)$/);
     if (match) {
       const format = match[1] === 'jpeg' ? 'jpg' : match[1];
       const base64Data = match[2];
 
-      imageCounter++;
-      const filename = `images/image_${String(imageCounter).padStart(3, '0')}.${format}`;
+      const { id, filename } = createImageName(format);
 
       return {
-        id: `img-${imageCounter}`,
+        id,
         filename,
         base64Data,
         format,
         altText: img.getAttribute('alt') || undefined,
-        width: img.naturalWidth || undefined,
-        height: img.naturalHeight || undefined,
+        width: img.naturalWidth || getImagePixelSize(img, 'width'),
+        height: img.naturalHeight || getImagePixelSize(img, 'height'),
       };
     }
   }
@@ -949,16 +1788,17 @@ function extractImageData(img: HTMLImageElement): ExtractedImage | undefined {
 
   // Handle blob URLs or other formats
   if (src) {
-    imageCounter++;
     const extension = getExtensionFromSrc(src);
-    const filename = `images/image_${String(imageCounter).padStart(3, '0')}.${extension}`;
+    const { id, filename } = createImageName(extension);
 
     return {
-      id: `img-${imageCounter}`,
+      id,
       filename,
       base64Data: '', // Will be fetched async for blob URLs
       format: extension,
       altText: img.getAttribute('alt') || undefined,
+      width: getImagePixelSize(img, 'width'),
+      height: getImagePixelSize(img, 'height'),
       srcUrl: src, // Store for async fetching
     };
   }
@@ -966,6 +1806,33 @@ function extractImageData(img: HTMLImageElement): ExtractedImage | undefined {
   return undefined;
 }
 
+/**
+ * Get the displayed size of an image in pixels from its attribute or style
+ */
+function getImagePixelSize(img: HTMLImageElement, dimension: 'width' | 'height'): number | undefined {
+  const attribute = img.getAttribute(dimension);
+  if (attribute && /^\d+(\.\d+)?(px)?$/.test(attribute.trim())) {
+    return Math.round(parseFloat(attribute)) || undefined;
+  }
+
+  const style = (img.getAttribute('style') || '').match(new RegExp(`(?:^|;)\\s*${dimension}\\s*:\\s*([\\d.]+)px`, 'i'));
+  return style ? Math.round(parseFloat(style[1])) || undefined : undefined;
+}
+
+/**
+ * Create the id and filename for the next image of the document
+ *
+ * @param format - File extension (e.g., "png")
+ * @returns Image id (e.g., "img-3") and filename (e.g., "images/image_003.png")
+ */
+export function createImageName(format: string): { id: string; filename: string } {
+  imageCounter++;
+  return {
+    id: `img-${imageCounter}`,
+    filename: `images/image_${String(imageCounter).padStart(3, '0')}.${format}`,
+  };
+}
+
 /**
  * Get file extension from src
  */
@@ -1046,6 +1913,27 @@ function normalizeWhitespace(text: string): string {
   return text.replace(/\s+/g, ' ');
 }
 
+/**
+ * Check if a <br> is a page break (<br clear=all style='page-break-before:always'>)
+ */
+function isPageBreak(br: HTMLElement): boolean {
+  return /page-break/i.test(br.getAttribute('style') || '');
+}
+
+/**
+ * Trim the lines of content with hard line breaks
+ *
+ * Drops blank lines at the start and end (e.g., a trailing <br>) and the
+ * spaces around each break.
+ */
+export function normalizeLineBreaks(content: string): string {
+  return content
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
 /**
  * Get text content with basic formatting preserved
  */
@@ -1058,27 +1946,69 @@ function getTextContent(element: HTMLElement): string {
  */
 function getFormattedContent(element: HTMLElement): string {
   let result = '';
+  // Text of adjacent inline code runs, emitted as a single literal
+  let literal = '';
+  let afterLiteral = false;
+
+  const flushLiteral = (): void => {
+    if (literal) {
+      result += formatInlineLiteral(literal, result);
+      afterLiteral = !/\s$/.test(literal);
+      literal = '';
+    }
+  };
 
   for (const node of Array.from(element.childNodes)) {
+    // Character styles mapped to a role, or dropped
+    const mapping = node.nodeType === Node.ELEMENT_NODE ? getCharacterStyleMapping(node as HTMLElement) : undefined;
+    if (mapping) {
+      flushLiteral();
+      const text = mapping.type === 'role' ? formatInlineRole(mapping.role!, node.textContent || '', result) : '';
+      result += text;
+      afterLiteral = /`$/.test(text);
+      continue;
+    }
+
+    if (node.nodeType === Node.ELEMENT_NODE && isInlineCode(node as HTMLElement)) {
+      literal += node.textContent || '';
+      continue;
+    }
+
+    // Keep whitespace between two code runs inside the literal
+    if (literal && node.nodeType === Node.TEXT_NODE && !node.textContent?.trim()) {
+      const next = node.nextSibling;
+      if (next && next.nodeType === Node.ELEMENT_NODE && isInlineCode(next as HTMLElement)) {
+        literal += node.textContent || '';
+        continue;
+      }
+    }
+
+    flushLiteral();
+
     if (node.nodeType === Node.TEXT_NODE) {
       // Normalize whitespace in text nodes (collapse newlines/spaces)
-      result += normalizeWhitespace(node.textContent || '');
+      const following = normalizeWhitespace(node.nextSibling?.textContent || '');
+      const text = escapeInlineText(normalizeWhitespace(node.textContent || ''), result, following);
+
+      // A literal directly followed by a word character needs an escaped space
+      if (afterLiteral && /^\w/.test(text)) {
+        result += '\\ ';
+      }
+      afterLiteral = false;
+      result += text;
     } else if (node.nodeType === Node.ELEMENT_NODE) {
       const el = node as HTMLElement;
       const tag = el.tagName.toUpperCase();
+      afterLiteral = false;
 
       switch (tag) {
         case 'STRONG':
         case 'B':
-          result += `**${getFormattedContent(el)}**`;
+          result += formatEmphasis(getFormattedContent(el), '**');
           break;
         case 'EM':
         case 'I':
-          result += `*${getFormattedContent(el)}*`;
-          break;
-        case 'CODE':
-        case 'TT':
-          result += `\`\`${getFormattedContent(el)}\`\``;
+          result += formatEmphasis(getFormattedContent(el), '*');
           break;
         case 'SUB':
           result += `:sub:\`${getFormattedContent(el)}\``;
@@ -1087,12 +2017,16 @@ function getFormattedContent(element: HTMLElement): string {
           result += `:sup:\`${getFormattedContent(el)}\``;
           break;
         case 'A':
+          const noteName = getNoteReferenceName(el);
+          if (noteName) {
+            result += formatNoteReference(noteName, result);
+            break;
+          }
           const href = el.getAttribute('href');
           const text = getFormattedContent(el);
           if (href) {
             if (href.startsWith('#')) {
-              // Internal link
-              result += `:ref:\`${text} <${href.substring(1)}>\``;
+              result += formatBookmarkReference(href.substring(1), text, el.getAttribute('data-field') === 'PAGEREF');
             } else {
               // External link
               result += `\`${text} <${href}>\`_`;
@@ -1102,7 +2036,7 @@ function getFormattedContent(element: HTMLElement): string {
           }
           break;
         case 'BR':
-          result += '\n';
+          result += isPageBreak(el) ? ' ' : '\n';
           break;
         case 'SPAN':
           // Check for special formatting
@@ -1111,12 +2045,12 @@ function getFormattedContent(element: HTMLElement): string {
           const content = getFormattedContent(el);
 
           if (style.includes('font-weight') && (style.includes('bold') || style.includes('700'))) {
-            result += `**${content}**`;
+            result += formatEmphasis(content, '**');
           } else if (style.includes('font-style') && style.includes('italic')) {
-            result += `*${content}*`;
+            result += formatEmphasis(content, '*');
           } else if (style.includes('text-decoration') && style.includes('underline')) {
             // RST doesn't have underline, use emphasis
-            result += `*${content}*`;
+            result += formatEmphasis(content, '*');
           } else if (className.includes('strike') || style.includes('line-through')) {
             // Strikethrough - no standard RST, could use custom role
             result += content;
@@ -1130,9 +2064,672 @@ function getFormattedContent(element: HTMLElement): string {
     }
   }
 
+  flushLiteral();
+
+  return result;
+}
+
+/**
+ * Wrap formatted content in emphasis or strong markup
+ *
+ * RST inline markup does not nest, so inline literals and roles inside
+ * the content are left outside the markup and the text around them is
+ * wrapped piece by piece: **the** ``make`` **tool**.
+ */
+function formatEmphasis(content: string, marker: string): string {
+  // Literals and roles, with the escaped space that may precede them
+  const parts = content.split(/((?:\\ )?``.+?``|(?:\\ )?:[\w-]+:`(?:\\.|[^`\\])*`)/);
+  if (parts.length === 1) {
+    return `${marker}${content}${marker}`;
+  }
+
+  let result = '';
+  for (let i = 0; i < parts.length; i++) {
+    if (i % 2 === 1) {
+      // Markup directly after wrapped text needs an escaped space
+      const needsSeparator = /\S$/.test(result) && !parts[i].startsWith('\\ ');
+      result += needsSeparator ? `\\ ${parts[i]}` : parts[i];
+      continue;
+    }
+
+    const [, leading, text, trailing] = parts[i].match(/^((?:\\ )?\s*)([\s\S]*?)(\s*)$/)!;
+    if (!text) {
+      result += parts[i];
+      continue;
+    }
+
+    const separator = i > 0 && !leading ? '\\ ' : '';
+    result += `${separator}${leading}${marker}${text}${marker}${trailing}`;
+  }
+
+  return result;
+}
+
+/**
+ * Get the style map entry for a text run (span or font element)
+ */
+function getCharacterStyleMapping(el: HTMLElement): StyleMapping | undefined {
+  const tag = el.tagName.toUpperCase();
+  if (tag !== 'SPAN' && tag !== 'FONT') {
+    return undefined;
+  }
+
+  return getStyleMapping(el, 'character');
+}
+
+/**
+ * Check if an inline element should be rendered as an inline literal
+ *
+ * Word's getHtml() never emits <code>; inline code shows up as spans in a
+ * monospace font or in a code character style.
+ */
+function isInlineCode(el: HTMLElement): boolean {
+  const tag = el.tagName.toUpperCase();
+  if (['CODE', 'TT', 'KBD', 'SAMP'].includes(tag)) {
+    return true;
+  }
+
+  return !!el.textContent?.trim() && isCodeRun(el);
+}
+
+/**
+ * Check if a span or font element is in a code character style or a
+ * monospace font
+ */
+function isCodeRun(el: HTMLElement): boolean {
+  const tag = el.tagName.toUpperCase();
+  if (['CODE', 'TT', 'KBD', 'SAMP'].includes(tag)) {
+    return true;
+  }
+
+  if (tag !== 'SPAN' && tag !== 'FONT') {
+    return false;
+  }
+
+  // List bullets ("o" in Courier New) are not code
+  const style = el.getAttribute('style') || '';
+  if (/mso-list:\s*ignore/i.test(style)) {
+    return false;
+  }
+
+  const codeStyles = parseOptions.codeCharacterStyles || DEFAULT_CODE_CHARACTER_STYLES;
+  if (hasWordStyle(el, codeStyles)) {
+    return true;
+  }
+
+  const fontFamily = getFontFamily(el);
+  return !!fontFamily && isMonospaceFont(fontFamily);
+}
+
+/**
+ * Get the font family declared on an element
+ */
+function getFontFamily(el: HTMLElement): string | null {
+  const style = el.getAttribute('style') || '';
+  // Match font-family but not mso-bidi-font-family and friends
+  const match = style.match(/(?:^|;)\s*font-family:\s*([^;]+)/i);
+  if (match) {
+    return match[1];
+  }
+
+  return el.tagName.toUpperCase() === 'FONT' ? el.getAttribute('face') : null;
+}
+
+/**
+ * Check if the primary font of a font-family list is monospace
+ */
+function isMonospaceFont(fontFamily: string): boolean {
+  const primary = fontFamily.split(',')[0].replace(/["']/g, '').trim().toLowerCase();
+  const fonts = parseOptions.monospaceFonts || DEFAULT_MONOSPACE_FONTS;
+  return fonts.some((font) => font.toLowerCase() === primary);
+}
+
+/**
+ * Format text as an inline literal
+ *
+ * Surrounding whitespace is moved outside the backquotes, and an escaped
+ * space is added when the literal directly follows a word character.
+ */
+function formatInlineLiteral(text: string, preceding: string): string {
+  const normalized = normalizeWhitespace(text);
+  const code = normalized.trim();
+  if (!code) {
+    return normalized;
+  }
+
+  const leading = normalized.startsWith(' ') ? ' ' : '';
+  const trailing = normalized.endsWith(' ') ? ' ' : '';
+  const separator = !leading && /\w$/.test(preceding) ? '\\ ' : '';
+
+  return `${leading}${separator}\`\`${code}\`\`${trailing}`;
+}
+
+/**
+ * Format text as interpreted text with a role (e.g., :kbd:`Ctrl+C`)
+ *
+ * Like inline literals, surrounding whitespace is moved outside the role.
+ */
+function formatInlineRole(role: string, text: string, preceding: string): string {
+  const normalized = normalizeWhitespace(text);
+  const content = normalized.trim();
+  if (!content) {
+    return normalized;
+  }
+
+  const leading = normalized.startsWith(' ') ? ' ' : '';
+  const trailing = normalized.endsWith(' ') ? ' ' : '';
+  const separator = !leading && /\w$/.test(preceding) ? '\\ ' : '';
+  const escaped = content.replace(/[\\`]/g, '\\$&');
+
+  return `${leading}${separator}:${role}:\`${escaped}\`${trailing}`;
+}
+
+/**
+ * Format a link to a Word bookmark
+ *
+ * Links to figure and table captions become :numref: (or :ref:)
+ * cross-references; other links become :ref: to the bookmark's label,
+ * checked against the document's bookmarks after parsing.
+ *
+ * @param target - Bookmark name
+ * @param text - Link text (may contain inline formatting)
+ * @param isPageRef - Whether the link is a page reference (its text is a page number)
+ * @returns RST reference
+ */
+export function formatBookmarkReference(target: string, text: string, isPageRef: boolean = false): string {
+  const captionTarget = captionTargets.get(target);
+  if (captionTarget) {
+    // Cross-reference to a figure or table caption
+    return formatCaptionReference(captionTarget, isPageRef ? '' : text);
+  }
+
+  // Internal link to a bookmark (label resolved after parsing)
+  const label = getBookmarkLabel(target);
+  internalLinks.push({ target, text });
+  return text ? `:ref:\`${text} <${label}>\`` : `:ref:\`${label}\``;
+}
+
+/**
+ * Get the footnote name for a Word footnote/endnote reference anchor
+ *
+ * @returns Footnote name (e.g., "fn-1", "en-2") or null if not a reference
+ */
+function getNoteReferenceName(anchor: HTMLElement): string | null {
+  const match = (anchor.getAttribute('href') || '').match(NOTE_REFERENCE_PATTERN);
+  return match ? getNoteName(match[1], match[2]) : null;
+}
+
+/**
+ * Build footnote name from Word note kind ("ftn"/"edn") and number
+ */
+export function getNoteName(kind: string, number: string): string {
+  return `${kind.toLowerCase() === 'edn' ? 'en' : 'fn'}-${number}`;
+}
+
+/**
+ * Format an auto-numbered footnote reference and record it
+ *
+ * Word places the reference directly after the preceding word, so an
+ * escaped space is used to satisfy RST's whitespace rule without
+ * changing the rendered text.
+ */
+export function formatNoteReference(name: string, preceding: string): string {
+  if (!noteReferences.includes(name)) {
+    noteReferences.push(name);
+  }
+
+  const separator = /\s$/.test(preceding) ? '' : '\\ ';
+  return `${separator}[#${name}]_`;
+}
+
+/**
+ * Extract footnote/endnote bodies and remove them from the document
+ *
+ * Word emits notes at the end of the body inside
+ * <div style="mso-element:footnote-list">, one <div id="ftnN"> per note.
+ *
+ * @returns Map of footnote name to formatted content
+ */
+function extractNoteBodies(body: HTMLElement): Map<string, string> {
+  const bodies = new Map<string, string>();
+
+  const containers = Array.from(body.querySelectorAll('div')).filter((div) =>
+    NOTE_BODY_PATTERN.test(div.id)
+  );
+
+  for (const container of containers) {
+    const match = container.id.match(NOTE_BODY_PATTERN);
+    if (!match) continue;
+
+    // Drop the back-reference anchor ([1]) at the start of the note
+    container
+      .querySelectorAll('a[href^="#_ftnref"], a[href^="#_ednref"]')
+      .forEach((backRef) => backRef.remove());
+
+    const paragraphs = container.querySelectorAll('p');
+    const blocks = paragraphs.length > 0 ? Array.from(paragraphs) : [container];
+    const content = blocks
+      .map((block) => escapeLineStarts(normalizeWhitespace(getFormattedContent(block as HTMLElement)).trim()))
+      .filter(Boolean)
+      .join('\n\n');
+
+    bodies.set(getNoteName(match[1], match[2]), content);
+  }
+
+  // Remove note lists (including their separator rules) from the body
+  for (const container of containers) {
+    const list = container.closest('div[style*="footnote-list"], div[style*="endnote-list"]');
+    (list || container).remove();
+  }
+
+  return bodies;
+}
+
+/**
+ * Build footnote elements in reference order
+ *
+ * Notes without a body in the HTML fall back to the text recovered from
+ * the OOXML package (word/footnotes.xml, word/endnotes.xml).
+ */
+function buildFootnoteElements(bodies: Map<string, string>): FootnoteElement[] {
+  const names = [...noteReferences];
+  for (const name of bodies.keys()) {
+    if (!names.includes(name)) {
+      names.push(name);
+    }
+  }
+
+  return names.map((name) => {
+    const noteType = name.startsWith('en-') ? 'endnote' : 'footnote';
+    let content = bodies.get(name);
+
+    if (content === undefined) {
+      const index = parseInt(name.slice(3)) - 1;
+      const notes = noteType === 'endnote'
+        ? parseOptions.ooxmlNotes?.endnotes
+        : parseOptions.ooxmlNotes?.footnotes;
+      content = escapeLiteralText(notes?.[index] || '');
+    }
+
+    return { type: 'footnote', name, content, noteType };
+  });
+}
+
+/**
+ * Place footnote blocks at the end of the document or of each section
+ *
+ * In section mode, footnotes are emitted before the next heading that
+ * follows their first reference.
+ */
+function placeFootnotes(
+  elements: AnyDocumentElement[],
+  footnotes: FootnoteElement[],
+  placement: 'document' | 'section'
+): AnyDocumentElement[] {
+  if (footnotes.length === 0) {
+    return elements;
+  }
+
+  if (placement === 'document') {
+    return [...elements, ...footnotes];
+  }
+
+  const byName = new Map(footnotes.map((note) => [note.name, note]));
+  const placed = new Set<string>();
+  const result: AnyDocumentElement[] = [];
+  let pending: FootnoteElement[] = [];
+
+  for (const element of elements) {
+    if (element.type === 'heading' && pending.length > 0) {
+      result.push(...pending);
+      pending = [];
+    }
+
+    result.push(element);
+
+    for (const text of getElementTexts(element)) {
+      for (const match of text.matchAll(/\[#([\w-]+)\]_/g)) {
+        const note = byName.get(match[1]);
+        if (note && !placed.has(note.name)) {
+          placed.add(note.name);
+          pending.push(note);
+        }
+      }
+    }
+  }
+
+  result.push(...pending);
+  result.push(...footnotes.filter((note) => !placed.has(note.name)));
+
   return result;
 }
 
+/**
+ * Wrap the results of Word REF and PAGEREF fields in links
+ *
+ * Cross-references inserted with "Insert Cross-reference" are fields whose
+ * instruction ("REF _Ref123 \\h") only survives in Word's conditional
+ * comments:
+ *
+ *   <!--[if supportFields]>...field-begin...REF _Ref123 \\h ...field-separator...<![endif]-->
+ *   Figure 3
+ *   <!--[if supportFields]>...field-end...<![endif]-->
+ *
+ * The result text between separator and end becomes <a href="#_Ref123">.
+ */
+function convertReferenceFields(body: HTMLElement): void {
+  const doc = body.ownerDocument;
+  const walker = doc.createTreeWalker(body, NodeFilter.SHOW_COMMENT);
+  const comments: Comment[] = [];
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    comments.push(node as Comment);
+  }
+
+  const fields: { instruction: string; separator: Comment | null }[] = [];
+  const markerPattern = /mso-element:\s*field-(begin|separator|end)/gi;
+
+  for (const comment of comments) {
+    const data = comment.data;
+    const markers = Array.from(data.matchAll(markerPattern));
+
+    for (let m = 0; m < markers.length; m++) {
+      const marker = markers[m];
+      const kind = marker[1].toLowerCase();
+
+      if (kind === 'begin') {
+        // Instruction text runs up to the next marker in the same comment
+        const end = m + 1 < markers.length ? markers[m + 1].index : data.length;
+        const instruction = data
+          .slice((marker.index || 0) + marker[0].length, end)
+          .replace(/^[^>]*>/, '') // rest of the tag holding this marker
+          .replace(/<[^>]*$/, '') // start of the tag holding the next one
+          .replace(/<[^>]*>/g, '')
+          .replace(/&nbsp;/g, ' ');
+        fields.push({ instruction, separator: null });
+      } else if (kind === 'separator' && fields.length > 0) {
+        fields[fields.length - 1].separator = comment;
+      } else if (kind === 'end') {
+        const field = fields.pop();
+        const match = field?.instruction.match(/^\s*(REF|PAGEREF)\s+(\S+)/i);
+        if (field?.separator && match) {
+          wrapFieldResult(field.separator, comment, match[2], match[1].toUpperCase());
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Wrap the nodes between a field separator and field end in a link
+ */
+function wrapFieldResult(separator: Comment, end: Comment, bookmark: string, fieldType: string): void {
+  const doc = separator.ownerDocument;
+  const range = doc.createRange();
+  range.setStartAfter(separator);
+  range.setEndBefore(end);
+
+  const result = range.extractContents();
+
+  // REF \h already produced a hyperlink; keep only its content
+  result.querySelectorAll('a[href]').forEach((link) => link.replaceWith(...Array.from(link.childNodes)));
+
+  const anchor = doc.createElement('a');
+  anchor.setAttribute('href', `#${bookmark}`);
+  anchor.setAttribute('data-field', fieldType);
+  anchor.appendChild(result);
+  range.insertNode(anchor);
+}
+
+/**
+ * Map the bookmarks on figure and table captions to the names the figure
+ * or table will get
+ */
+function collectCaptionTargets(blockElements: HTMLElement[]): void {
+  for (const block of blockElements) {
+    const captions = hasCaptionStyle(block)
+      ? [block]
+      : Array.from(block.querySelectorAll('figcaption')) as HTMLElement[];
+
+    for (const caption of captions) {
+      addCaptionTarget(caption.textContent?.trim() || '', getBookmarkNames(caption));
+    }
+  }
+}
+
+/**
+ * Register the bookmarks on a figure or table caption
+ *
+ * Links to these bookmarks become cross-references to the figure or table.
+ *
+ * @param captionText - Caption text (e.g., "Figure 3: Overview")
+ * @param bookmarks - Bookmark names on the caption
+ */
+export function addCaptionTarget(captionText: string, bookmarks: string[]): void {
+  const parsed = parseCaption(captionText);
+  const baseName = parsed ? getCaptionTargetName(parsed) : null;
+  if (!parsed || !baseName) return;
+
+  // Repeated caption numbers get the same suffixes as their figures or tables
+  const name = uniqueLabel(baseName, usedCaptionNames);
+  captionNames.set(baseName, [...(captionNames.get(baseName) || []), name]);
+
+  for (const bookmark of bookmarks) {
+    captionTargets.set(bookmark, { name, number: parsed.number });
+  }
+}
+
+/**
+ * Get the label for a Word bookmark name
+ */
+function getBookmarkLabel(name: string): string {
+  return prefixLabel(normalizeLabel(name), parseOptions.labelPrefix);
+}
+
+/**
+ * Get the :name: generated for a figure or table with this caption
+ *
+ * @returns Name (e.g., "fig-3", "table-2-1") or null for other caption types
+ */
+function getCaptionTargetName(parsed: ParsedCaption): string | null {
+  if (!parsed.number) {
+    return null;
+  }
+
+  const number = parsed.number.replace(/\./g, '-');
+  switch (parsed.type) {
+    case 'Figure':
+      return prefixLabel(`fig-${number}`, parseOptions.labelPrefix);
+    case 'Table':
+      return prefixLabel(`table-${number}`, parseOptions.labelPrefix);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Get the unique :name: of the next figure or table with a caption name
+ *
+ * Captions registered with addCaptionTarget() get the name reserved for
+ * them in document order, so cross-references point at the right one.
+ *
+ * @param name - Name from the caption (e.g., "fig-3")
+ * @param description - Caption for the rename warning (e.g., "Figure 3")
+ * @returns Unique name (e.g., "fig-3-2" for the second Figure 3)
+ */
+function claimCaptionName(name: string, description: string): string {
+  const unique = captionNames.get(name)?.shift() || uniqueLabel(name, usedCaptionNames);
+  if (unique !== name) {
+    captionNameWarnings.push(`${description} appears more than once; it is named ${unique}`);
+  }
+  return unique;
+}
+
+/**
+ * Format a cross-reference to a figure or table
+ *
+ * With :numref:, link text containing the caption number keeps its wording
+ * ("see Figure 3" -> :numref:`see Figure %s <fig-3>`); otherwise Sphinx
+ * supplies the text. With :ref:, the link text is used as is.
+ *
+ * @param target - Referenced figure or table
+ * @param text - Link text (empty for page references)
+ */
+function formatCaptionReference(target: CaptionTarget, text: string): string {
+  captionReferences.push(target);
+  const trimmed = text.trim();
+
+  if (parseOptions.crossReferenceStyle === 'ref') {
+    return trimmed ? `:ref:\`${trimmed} <${target.name}>\`` : `:ref:\`${target.name}\``;
+  }
+
+  if (trimmed.includes(target.number)) {
+    return `:numref:\`${trimmed.replace(target.number, '%s')} <${target.name}>\``;
+  }
+  return `:numref:\`${target.name}\``;
+}
+
+/**
+ * Get the names of the Word bookmarks inside a block element
+ *
+ * Word marks bookmarks with <a name="..."> and with mso-bookmark on the
+ * spans the bookmark covers. Footnote anchors are not bookmarks.
+ */
+function getBookmarkNames(element: HTMLElement): string[] {
+  const names: string[] = [];
+  const add = (name: string | null | undefined) => {
+    const trimmed = name?.trim();
+    if (trimmed && !names.includes(trimmed) && !FOOTNOTE_ANCHOR_PATTERN.test(trimmed)) {
+      names.push(trimmed);
+    }
+  };
+
+  const anchors = [element, ...Array.from(element.querySelectorAll('a[name]'))];
+  for (const anchor of anchors) {
+    if (anchor.tagName.toUpperCase() === 'A') {
+      add(anchor.getAttribute('name'));
+    }
+  }
+
+  const bookmarked = [element, ...Array.from(element.querySelectorAll('[style*="mso-bookmark"]'))];
+  for (const el of bookmarked) {
+    const match = (el.getAttribute('style') || '').match(/mso-bookmark:\s*['"]?([^;'"]+)/i);
+    if (match) {
+      add(match[1]);
+    }
+  }
+
+  return names;
+}
+
+/**
+ * Resolve internal links against the document's bookmarks
+ *
+ * Bookmark names collected on elements are replaced by normalized labels.
+ * Links to a missing bookmark fall back to a heading with the same text,
+ * which gets the link's label; any other missing target is reported.
+ * Hidden bookmarks (_Toc, _Ref, _Hlk, ...) that nothing links to are
+ * dropped, as Word creates them in large numbers.
+ *
+ * @returns Warnings for dangling references
+ */
+function resolveInternalLinks(elements: AnyDocumentElement[]): string[] {
+  const warnings: string[] = [];
+  const bookmarks = new Set(elements.flatMap((element) => element.labels || []));
+  const targets = new Set(internalLinks.map((link) => link.target));
+
+  for (const link of internalLinks) {
+    if (bookmarks.has(link.target)) continue;
+
+    const linkText = normalizeLabel(link.text);
+    const heading = elements.find(
+      (element) => element.type === 'heading' && linkText && normalizeLabel(element.text) === linkText
+    );
+
+    if (heading) {
+      heading.labels = [...(heading.labels || []), link.target];
+    } else {
+      warnings.push(`Dangling reference: no bookmark or heading found for link "${link.text || link.target}" (#${link.target})`);
+    }
+    bookmarks.add(link.target);
+  }
+
+  // Figure/table cross-references need a figure or table with that name
+  const names = new Set<string>();
+  for (const element of elements) {
+    if (element.type === 'figure') {
+      names.add(element.options.figname || element.options.name || '');
+    } else if (element.type === 'table' && element.data.options.name) {
+      names.add(element.data.options.name);
+    }
+  }
+  for (const reference of captionReferences) {
+    if (!names.has(reference.name)) {
+      warnings.push(`Dangling reference: caption ${reference.number} is not attached to a figure or table (${reference.name})`);
+      names.add(reference.name);
+    }
+  }
+
+  // Convert bookmark names to labels, skipping duplicates
+  const used = new Set<string>();
+  for (const element of elements) {
+    if (!element.labels) continue;
+
+    const labels: string[] = [];
+    for (const name of element.labels) {
+      const label = getBookmarkLabel(name);
+      if (!normalizeLabel(name) || used.has(label) || (name.startsWith('_') && !targets.has(name))) continue;
+      used.add(label);
+      labels.push(label);
+    }
+
+    if (labels.length > 0) {
+      element.labels = labels;
+    } else {
+      delete element.labels;
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Get the text fields of an element that may contain inline markup
+ */
+function getElementTexts(element: AnyDocumentElement): string[] {
+  switch (element.type) {
+    case 'heading':
+      return [element.text];
+    case 'paragraph':
+      return [element.content];
+    case 'list':
+      return getListItemTexts(element);
+    case 'field-list':
+      return element.fields.map((field) => field.value);
+    case 'definition-list':
+      return element.items.flatMap((item) => [item.term, item.definition]);
+    case 'table':
+      return element.data.rows.flatMap((row) => row.cells.map((cell) => cell.content));
+    case 'figure':
+      return [element.options.caption || '', element.options.legend || ''];
+    case 'directive':
+      return [element.directive.content];
+    case 'footnote':
+      return [element.content];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get item texts of a list, including nested lists
+ */
+function getListItemTexts(list: ListElement): string[] {
+  return list.items.flatMap((item) => [
+    item.content,
+    ...(item.nestedList ? getListItemTexts(item.nestedList) : []),
+  ]);
+}
+
 /**
  * Helper to add an item to a list at the correct nesting level
  *
@@ -1218,6 +2815,75 @@ function addItemToList(
   currentList.items.push(newItem);
 }
 
+/**
+ * Move the labels of an element that is merged into or absorbed by another
+ */
+function moveLabels(from: AnyDocumentElement, to: AnyDocumentElement): void {
+  if (from.labels) {
+    to.labels = [...(to.labels || []), ...from.labels];
+    delete from.labels;
+  }
+}
+
+/**
+ * Check if a paragraph element has a caption style
+ */
+function isCaptionStyle(element: ParagraphElement): boolean {
+  return (element.style || '').toLowerCase().includes('caption');
+}
+
+/**
+ * Check if an element is a table caption paragraph
+ *
+ * Caption-styled paragraphs count unless they caption something else.
+ * Unstyled paragraphs need a "Table N" prefix; below a table they also
+ * need a separator ("Table 2: ..."), so that body text such as
+ * "Table 2 shows ..." is not taken as a caption.
+ *
+ * @param element - Element before or after the table
+ * @param below - Whether the element follows the table
+ */
+function isTableCaption(element: AnyDocumentElement, below: boolean): boolean {
+  if (element.type !== 'paragraph' || (element as ParagraphElement).isBlockQuote) {
+    return false;
+  }
+
+  const para = element as ParagraphElement;
+  const content = para.content.trim();
+  const parsed = parseCaption(content);
+
+  if (isCaptionStyle(para)) {
+    return !parsed || parsed.type === 'Table' || parsed.type === 'Item';
+  }
+
+  if (!parsed || parsed.type !== 'Table' || !/^table /i.test(content)) {
+    return false;
+  }
+  return !below || /^\S+\s+\d+(?:\.\d+)*\s*[:.–—-]/.test(content);
+}
+
+/**
+ * Set a table's caption, number and name from caption text
+ *
+ * @param table - Table element
+ * @param text - Caption text (RST inline markup)
+ * @param acceptAny - Use text that does not parse as a table caption as is
+ */
+function applyTableCaption(table: TableElement, text: string, acceptAny: boolean): void {
+  const parsed = parseCaption(text);
+  const options = table.data.options;
+
+  if (parsed && parsed.type === 'Table') {
+    options.caption = parsed.text;
+    options.tableNumber = parsed.number;
+    const name = getCaptionTargetName(parsed);
+    options.name = name ? claimCaptionName(name, `Table ${parsed.number}`) : undefined;
+  } else if (acceptAny) {
+    // Caption style (or alt text) that couldn't be parsed - use full text
+    options.caption = text;
+  }
+}
+
 /**
  * Post-process elements to handle special cases
  */
@@ -1235,8 +2901,11 @@ function postProcessElements(elements: AnyDocumentElement[]): AnyDocumentElement
       const isCaptionStyle = styleLC.includes('caption') || styleLC.includes('figcaption');
       if (isCaptionStyle) {
         const prev = result[result.length - 1];
-        if (prev && prev.type === 'figure') {
+        // Table captions are never attached to figures (see findNearbyCaption)
+        const isTableCaption = para.content.trim().toLowerCase().startsWith('table');
+        if (prev && prev.type === 'figure' && !isTableCaption) {
           // Skip this caption, it was already attached
+          moveLabels(para, prev);
           continue;
         }
       }
@@ -1251,6 +2920,19 @@ function postProcessElements(elements: AnyDocumentElement[]): AnyDocumentElement
         // Merge into existing field list
         const lastFieldList = last as FieldListElement;
         lastFieldList.fields.push(...fieldList.fields);
+        moveLabels(fieldList, lastFieldList);
+        continue;
+      }
+    }
+
+    // Merge consecutive definition list items
+    if (current.type === 'definition-list') {
+      const definitionList = current as DefinitionListElement;
+      const last = result[result.length - 1];
+
+      if (last && last.type === 'definition-list') {
+        (last as DefinitionListElement).items.push(...definitionList.items);
+        moveLabels(definitionList, last);
         continue;
       }
     }
@@ -1265,6 +2947,7 @@ function postProcessElements(elements: AnyDocumentElement[]): AnyDocumentElement
         if (lastDirective.style === directive.style) {
           // Merge content
           lastDirective.directive.content += '\n\n' + directive.directive.content;
+          moveLabels(directive, lastDirective);
           continue;
         }
       }
@@ -1281,6 +2964,7 @@ function postProcessElements(elements: AnyDocumentElement[]): AnyDocumentElement
         // Add to existing list structure
         const lastList = last as ListElement;
         addItemToList(lastList, newItem, newIndent, list.listType);
+        moveLabels(list, lastList);
         continue;
       } else {
         // Start a new top-level list
@@ -1291,37 +2975,46 @@ function postProcessElements(elements: AnyDocumentElement[]): AnyDocumentElement
       }
     }
 
-    // Associate caption paragraphs with following tables
+    // Associate caption paragraphs (above or below) and alt text with tables
     if (current.type === 'table') {
       const table = current as TableElement;
       const prev = result[result.length - 1];
+      const next = elements[i + 1];
+      const above = prev && isTableCaption(prev, false) ? prev as ParagraphElement : null;
+      const below = next && isTableCaption(next, true) ? next as ParagraphElement : null;
 
-      if (prev && prev.type === 'paragraph') {
-        const para = prev as ParagraphElement;
-        const styleLC = (para.style || '').toLowerCase();
-        const contentLC = para.content.toLowerCase();
-
-        // Check if previous paragraph is a table caption
-        if (styleLC.includes('caption') || contentLC.startsWith('table ')) {
-          // Parse the caption
-          const captionText = para.content.trim();
-          const parsed = parseCaption(captionText);
-
-          if (parsed && parsed.type === 'Table') {
-            table.data.options.caption = parsed.text;
-            table.data.options.tableNumber = parsed.number;
-            table.data.options.name = `table-${parsed.number.replace(/\./g, '-')}`;
-          } else if (styleLC.includes('caption')) {
-            // MsoCaption style but couldn't parse - use full text
-            table.data.options.caption = captionText;
-          }
+      const { altTitle, altDescription } = table.data.options;
+
+      // Like figures, a caption below the table comes first. A caption
+      // between two tables belongs to the next one when this table already
+      // has a caption above it or in its alt text.
+      const belowIsAmbiguous = elements[i + 2]?.type === 'table';
+      const hasOtherCaption = !!(above || altTitle || altDescription);
+      const caption = below && !(belowIsAmbiguous && hasOtherCaption) ? below : above;
 
-          // Remove the caption paragraph from results (it's now part of the table)
-          if (table.data.options.caption) {
+      if (caption) {
+        applyTableCaption(table, caption.content.trim(), isCaptionStyle(caption));
+
+        // Remove the caption paragraph (it's now part of the table)
+        if (table.data.options.caption) {
+          if (caption === above) {
             result.pop();
+          } else {
+            i++;
           }
+          moveLabels(caption, table);
         }
       }
+
+      // Fall back to the Word alt text title, then description
+      if (!table.data.options.caption && (altTitle || altDescription)) {
+        applyTableCaption(table, escapeInlineText((altTitle || altDescription)!), true);
+      }
+
+      if (table.data.options.caption && !table.data.options.name) {
+        const name = generateTableRefName(table.data.options.caption, table.data.options.tableNumber);
+        table.data.options.name = uniqueLabel(prefixLabel(name, parseOptions.labelPrefix), usedCaptionNames);
+      }
     }
 
     result.push(current);
@@ -0,0 +1,137 @@
+/**
+ * RST Word Add-in - Image Naming
+ * Gives extracted images their final file names and shares files between
+ * identical images
+ *
+ * The parser numbers images as it meets them, so inserting one picture
+ * renames every later file. Names based on content or captions stay the
+ * same from one conversion to the next, which keeps diffs of a docs
+ * repository small. Images with identical data (a logo used on every
+ * page) are written once and every directive points at that file.
+ */
+
+import { AnyDocumentElement, ExtractedImage, ImageNamingStrategy } from './types';
+import { normalizeLabel, uniqueLabel } from '../utils/labels';
+import { hashContent } from '../utils/hash';
+
+/**
+ * Longest slug taken from a caption or alt text
+ */
+const MAX_SLUG_LENGTH = 50;
+
+/**
+ * Result of naming the images of a document
+ */
+export interface NamedImages {
+  /** Images to write, one per distinct file */
+  images: ExtractedImage[];
+  /** Images whose name could not follow the strategy */
+  warnings: string[];
+}
+
+/**
+ * Name the images of a document and share files between identical images
+ *
+ * Filenames are changed in place, so the image and figure elements, which
+ * hold the same image objects, follow. Images without data yet (blob URLs
+ * still to be fetched) cannot be compared or hashed and keep a sequential
+ * name.
+ *
+ * @param elements - Parsed document elements
+ * @param images - Images in document order
+ * @param strategy - How files are named
+ * @returns Distinct images and warnings
+ */
+export function nameImages(
+  elements: AnyDocumentElement[],
+  images: ExtractedImage[],
+  strategy: ImageNamingStrategy = 'sequential'
+): NamedImages {
+  const captions = getImageCaptions(elements);
+  const warnings: string[] = [];
+
+  const unique: ExtractedImage[] = [];
+  const duplicates = new Map<ExtractedImage, ExtractedImage>();
+  const byData = new Map<string, ExtractedImage>();
+
+  for (const image of images) {
+    const original = image.base64Data ? byData.get(image.base64Data) : undefined;
+    if (original) {
+      duplicates.set(image, original);
+    } else {
+      if (image.base64Data) {
+        byData.set(image.base64Data, image);
+      }
+      unique.push(image);
+    }
+  }
+
+  const usedNames = new Set<string>();
+  unique.forEach((image, index) => {
+    const sequential = `image_${String(index + 1).padStart(3, '0')}`;
+    let name = sequential;
+
+    if (strategy === 'content-hash') {
+      if (image.base64Data) {
+        name = hashContent(image.base64Data);
+      } else {
+        warnings.push(`Image ${sequential}.${image.format} has no data to hash, so it keeps a numbered name`);
+      }
+    } else if (strategy === 'caption') {
+      const slug = createSlug(captions.get(image) || image.altText || '');
+      if (slug) {
+        name = uniqueLabel(slug, usedNames);
+      }
+    }
+
+    usedNames.add(name);
+    image.filename = `${getDirectory(image.filename)}${name}.${image.format}`;
+  });
+
+  duplicates.forEach((original, image) => {
+    image.filename = original.filename;
+  });
+
+  return { images: unique, warnings };
+}
+
+/**
+ * Get the caption (or alt text) of each image from the elements showing it
+ */
+function getImageCaptions(elements: AnyDocumentElement[]): Map<ExtractedImage, string> {
+  const captions = new Map<ExtractedImage, string>();
+
+  for (const element of elements) {
+    if ((element.type === 'figure' || element.type === 'image') && element.imageData) {
+      const text = (element.type === 'figure' ? element.options.caption : undefined) || element.options.alt;
+      if (text && !captions.has(element.imageData)) {
+        captions.set(element.imageData, text);
+      }
+    }
+  }
+
+  return captions;
+}
+
+/**
+ * Make a file name slug from caption text, cut at a word boundary
+ */
+function createSlug(text: string): string {
+  // Captions are RST inline markup
+  const plain = text.replace(/`([^`<]*?)\s*(?:<[^>]*>)?`_{0,2}/g, '$1').replace(/\\(.)/g, '$1');
+  const slug = normalizeLabel(plain);
+  if (slug.length <= MAX_SLUG_LENGTH) {
+    return slug;
+  }
+
+  const cut = slug.slice(0, MAX_SLUG_LENGTH + 1);
+  const boundary = cut.lastIndexOf('-');
+  return boundary > 0 ? cut.slice(0, boundary) : cut.slice(0, MAX_SLUG_LENGTH);
+}
+
+/**
+ * Get the directory part of a file path (with the trailing slash)
+ */
+function getDirectory(path: string): string {
+  return path.slice(0, path.lastIndexOf('/') + 1);
+}
@@ -14,6 +14,7 @@ export {
   previewConversion,
   ConversionOptions,
   ConversionResult,
+  OutputFile,
 } from './word-to-rst';
 
 // HTML Parser
@@ -22,12 +23,48 @@ export {
   resetImageCounter,
   ParsedDocument,
   DocumentMetadata,
+  ParserOptions,
+  DEFAULT_MONOSPACE_FONTS,
+  DEFAULT_CODE_CHARACTER_STYLES,
+  DEFAULT_CODE_PARAGRAPH_STYLES,
 } from './html-parser';
 
+// OOXML Parser
+export { parseOoxmlDocument } from './ooxml-parser';
+
+// Image naming
+export {
+  nameImages,
+  NamedImages,
+} from './image-naming';
+
+// Metafile conversion
+export {
+  convertMetafiles,
+  ConvertedMetafiles,
+} from './metafiles';
+
+// Heading hierarchy
+export {
+  checkHeadingHierarchy,
+  normalizeHeadingLevels,
+  HeadingIssue,
+  HeadingHierarchyMode,
+} from './headings';
+
+// Document splitting
+export {
+  splitDocument,
+  DocumentSection,
+  SplitDocument,
+} from './split';
+
 // RST Formatter
 export {
   formatElement,
   formatDocument,
+  formatDocumentParts,
+  prepareDocument,
   escapeRstText,
   createLabel,
   createRef,
@@ -41,8 +78,37 @@ export {
   formatField,
   formatDefinition,
   FormatterOptions,
+  HeadingStyle,
+  PYTHON_HEADING_STYLES,
 } from './rst-formatter';
 
+// MyST Formatter
+export {
+  formatMystElement,
+  formatMystDocument,
+  formatMystDocumentParts,
+  formatMystCodeBlock,
+  resolveMystTableFormat,
+  convertRstDirective,
+  convertBlockMarkup,
+  convertInlineMarkup,
+  createMystLabel,
+  MystTableFormat,
+} from './myst-formatter';
+
+// Element plugins
+export {
+  registerElementPlugin,
+  unregisterElementPlugin,
+  getElementPlugins,
+  BUILT_IN_PRIORITIES,
+  DEFAULT_PLUGIN_PRIORITY,
+  ElementPlugin,
+  ElementHandler,
+  ParseContext,
+  ParseResult,
+} from './plugins';
+
 // Types
 export * from './types';
 
@@ -0,0 +1,89 @@
+/**
+ * RST Word Add-in - Metafile Conversion
+ * Replaces EMF and WMF images with SVG before they are named and written
+ *
+ * Sphinx builders and browsers cannot show Windows metafiles, so a
+ * document with Visio drawings or old clip art would otherwise reference
+ * files nobody can open. The images are converted in place, so the
+ * image and figure directives pick up the new extension when the files
+ * are named.
+ */
+
+import { ExtractedImage } from './types';
+import { detectMetafile, renderMetafileSvg, RenderedMetafile } from '../utils/metafile-svg';
+import { base64ToBytes, textToBase64 } from '../utils/base64';
+
+/**
+ * Result of converting the metafiles of a document
+ */
+export interface ConvertedMetafiles {
+  /** Images that now hold SVG data */
+  images: ExtractedImage[];
+  /** Records that were left out and metafiles that could not be read */
+  warnings: string[];
+}
+
+/**
+ * Convert EMF and WMF images to SVG
+ *
+ * Metafiles are found by their signature, so pictures whose part name
+ * does not say what they are are converted too.
+ *
+ * @param images - Images in document order
+ * @returns Converted images and warnings
+ */
+export function convertMetafiles(images: ExtractedImage[]): ConvertedMetafiles {
+  const converted: ExtractedImage[] = [];
+  const warnings: string[] = [];
+
+  for (const image of images) {
+    if (!isMetafile(image)) {
+      continue;
+    }
+
+    const label = image.originalName || image.filename;
+    let rendered: RenderedMetafile | null;
+    try {
+      rendered = renderMetafileSvg(image.base64Data);
+    } catch {
+      // Corrupt data the reader did not anticipate
+      rendered = null;
+    }
+    if (!rendered) {
+      warnings.push(`Image ${label} could not be read as a metafile, so it stays ${image.format.toUpperCase()}`);
+      continue;
+    }
+
+    image.base64Data = textToBase64(rendered.svg);
+    image.format = 'svg';
+    if (!image.width || !image.height) {
+      image.width = rendered.width;
+      image.height = rendered.height;
+    }
+    converted.push(image);
+
+    if (rendered.unsupported.length > 0) {
+      warnings.push(`Image ${label}: ${rendered.type.toUpperCase()} records not drawn: ${rendered.unsupported.join(', ')}`);
+    }
+  }
+
+  return { images: converted, warnings };
+}
+
+/**
+ * Check whether an image holds EMF or WMF data
+ */
+function isMetafile(image: ExtractedImage): boolean {
+  if (!image.base64Data) {
+    return false;
+  }
+
+  const format = image.format.toLowerCase();
+  if (format === 'emf' || format === 'wmf') {
+    return true;
+  }
+
+  // Only the header is needed to recognize the data
+  const bytes = base64ToBytes(image.base64Data.slice(0, 128));
+  return bytes !== null && detectMetafile(bytes) !== null;
+}
@@ -0,0 +1,735 @@
+/**
+ * RST Word Add-in - MyST Formatter
+ * Converts document elements into MyST Markdown
+ *
+ * The parsed elements carry their inline content as RST markup, so the
+ * formatter translates the inline constructs the parser emits (emphasis,
+ * literals, roles, links, footnote references and backslash escapes) to
+ * MyST. Directives become fenced directives (```{name}) with the same
+ * arguments and options as in RST.
+ *
+ * Field lists and definition lists need the MyST "fieldlist" and "deflist"
+ * extensions.
+ *
+ * @see https://myst-parser.readthedocs.io/en/latest/syntax/roles-and-directives.html
+ */
+
+import {
+  AnyDocumentElement,
+  HeadingElement,
+  ParagraphElement,
+  ListElement,
+  FieldListElement,
+  DefinitionListElement,
+  CodeBlockElement,
+  ImageElement,
+  FigureElement,
+  TableElement,
+  TableData,
+  TableRow,
+  TableFormat,
+  TocElement,
+  DirectiveElement,
+  FootnoteElement,
+  PluginElement,
+} from './types';
+
+import {
+  generateImageDirective,
+  generateFigureDirective,
+  generateListTable,
+  generateContentsDirective,
+} from './directives';
+
+import { FormatterOptions, DEFAULT_FORMATTER_OPTIONS, prepareDocument } from './rst-formatter';
+import { findElementPlugin } from './plugins';
+import { escapeMystInline, escapeMystLineStarts } from '../utils/myst-escape';
+import { normalizeLabel } from '../utils/labels';
+
+/**
+ * Deepest Markdown heading level
+ */
+const MAX_HEADING_LEVEL = 6;
+
+/**
+ * Table format used in MyST output
+ * - pipe: GFM pipe table (single-line cells, one header row)
+ * - list-table: list-table directive
+ */
+export type MystTableFormat = 'pipe' | 'list-table';
+
+/**
+ * Directive parsed back from generated RST
+ */
+interface ParsedDirective {
+  name: string;
+  argument?: string;
+  options: [string, string][];
+  body: string;
+}
+
+/**
+ * Inline markup matched at a position of RST text
+ */
+interface InlineMarkup {
+  /** Length of the RST markup */
+  length: number;
+  /** MyST equivalent */
+  output: string;
+}
+
+/**
+ * Format a single document element to MyST
+ *
+ * @param element - Document element to format
+ * @param options - Formatter options
+ * @returns MyST formatted string
+ */
+export function formatMystElement(
+  element: AnyDocumentElement,
+  options: Partial<FormatterOptions> = {}
+): string {
+  const opts = { ...DEFAULT_FORMATTER_OPTIONS, ...options };
+  const formatted = formatElementContent(element, opts);
+
+  // Targets go on the lines directly before the element they name
+  if (formatted && element.labels && element.labels.length > 0) {
+    return [...element.labels.map(createMystLabel), formatted].join('\n');
+  }
+
+  return formatted;
+}
+
+/**
+ * Format the element itself, without its labels
+ */
+function formatElementContent(element: AnyDocumentElement, opts: FormatterOptions): string {
+  switch (element.type) {
+    case 'heading':
+      return formatHeading(element as HeadingElement, opts);
+    case 'paragraph':
+      return formatParagraph(element as ParagraphElement);
+    case 'list':
+      return formatList(element as ListElement);
+    case 'field-list':
+      return formatFieldList(element as FieldListElement);
+    case 'definition-list':
+      return formatDefinitionList(element as DefinitionListElement);
+    case 'code-block':
+      return formatMystCodeBlock((element as CodeBlockElement).code, (element as CodeBlockElement).language);
+    case 'image':
+      return formatImage(element as ImageElement);
+    case 'figure':
+      return formatFigure(element as FigureElement);
+    case 'table':
+      return formatTable(element as TableElement, opts);
+    case 'toc':
+      return convertRstDirective(generateContentsDirective((element as TocElement).options));
+    case 'directive':
+      return formatDirective(element as DirectiveElement);
+    case 'footnote':
+      return formatFootnote(element as FootnoteElement);
+    case 'plugin':
+      return formatPluginElement(element as PluginElement, opts);
+    default:
+      return '';
+  }
+}
+
+/**
+ * Format multiple elements to a MyST document
+ *
+ * @param elements - Document elements to format
+ * @param options - Formatter options
+ * @returns Complete MyST document string
+ */
+export function formatMystDocument(
+  elements: AnyDocumentElement[],
+  options: Partial<FormatterOptions> = {}
+): string {
+  return formatMystDocumentParts([elements], options)[0];
+}
+
+/**
+ * Format a document that is split into several MyST files
+ *
+ * @param parts - Elements of each file
+ * @param options - Formatter options
+ * @returns MyST content of each file
+ */
+export function formatMystDocumentParts(
+  parts: AnyDocumentElement[][],
+  options: Partial<FormatterOptions> = {}
+): string[] {
+  const { elements, options: opts } = prepareDocument(parts.flat(), options);
+  let offset = 0;
+
+  return parts.map((part) => {
+    const formatted = elements
+      .slice(offset, offset + part.length)
+      .map((element) => formatMystElement(element, opts).replace(/^(\s*\n)+/, '').trimEnd())
+      .filter((block) => block);
+    offset += part.length;
+
+    return formatted.join('\n\n');
+  });
+}
+
+/**
+ * Format heading element as an ATX heading
+ *
+ * Markdown has six heading levels; deeper headings stay at level 6.
+ */
+function formatHeading(element: HeadingElement, options: FormatterOptions): string {
+  const level = Math.min(Math.max(element.level + (options.headingLevelShift || 0), 1), MAX_HEADING_LEVEL);
+  return `${'#'.repeat(level)} ${convertInlineMarkup(element.text)}`;
+}
+
+/**
+ * Format paragraph element
+ */
+function formatParagraph(element: ParagraphElement): string {
+  const content = element.lineBreaks
+    ? formatHardBreaks(element.content)
+    : escapeMystLineStarts(convertInlineMarkup(element.content));
+
+  if (element.isBlockQuote) {
+    return content
+      .split('\n')
+      .map((line) => (line ? `> ${line}` : '>'))
+      .join('\n');
+  }
+
+  return content;
+}
+
+/**
+ * Format lines separated by hard line breaks
+ *
+ * Every line but the last ends with a backslash, CommonMark's hard break.
+ *
+ * @param text - Content with lines separated by \n
+ * @returns MyST lines
+ */
+function formatHardBreaks(text: string): string {
+  const lines = text.split('\n').map((line) => escapeMystLineStarts(convertInlineMarkup(line.trim())));
+  return lines.map((line, index) => (index < lines.length - 1 ? `${line}\\` : line)).join('\n');
+}
+
+/**
+ * Format list element
+ *
+ * Nested lists are indented to the content of their parent item.
+ */
+function formatList(element: ListElement, indent: string = ''): string {
+  const marker = element.listType === 'ordered' ? '1.' : '-';
+  const continuation = indent + ' '.repeat(marker.length + 1);
+  const lines: string[] = [];
+
+  for (const item of element.items) {
+    const content = item.lineBreaks
+      ? formatHardBreaks(item.content)
+      : escapeMystLineStarts(convertInlineMarkup(item.content));
+    const [first, ...rest] = content.split('\n');
+
+    lines.push(`${indent}${marker} ${first}`.trimEnd());
+    lines.push(...rest.map((line) => (line ? continuation + line : '')));
+
+    if (item.nestedList) {
+      lines.push(formatList(item.nestedList, continuation));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format field list element (MyST "fieldlist" extension)
+ */
+function formatFieldList(element: FieldListElement): string {
+  return element.fields
+    .map((field) => `:${field.name}: ${convertInlineMarkup(field.value)}`.trimEnd())
+    .join('\n');
+}
+
+/**
+ * Format definition list element (MyST "deflist" extension)
+ */
+function formatDefinitionList(element: DefinitionListElement): string {
+  return element.items
+    .map((item) => {
+      const [first, ...rest] = convertBlockMarkup(item.definition).split('\n');
+      return [
+        escapeMystLineStarts(convertInlineMarkup(item.term)),
+        `: ${first}`.trimEnd(),
+        ...rest.map((line) => (line ? `  ${line}` : '')),
+      ].join('\n');
+    })
+    .join('\n\n');
+}
+
+/**
+ * Format image element using the image directive
+ */
+function formatImage(element: ImageElement): string {
+  const imageOptions = { ...element.options };
+
+  // Adjust image path if needed
+  if (element.imageData && !imageOptions.uri.startsWith('http')) {
+    imageOptions.uri = element.imageData.filename;
+  }
+
+  return convertRstDirective(generateImageDirective(imageOptions));
+}
+
+/**
+ * Format figure element using the figure directive
+ *
+ * The caption and legend are converted to MyST like any other content.
+ */
+function formatFigure(element: FigureElement): string {
+  const figureOptions = { ...element.options };
+
+  // Adjust image path if needed
+  if (element.imageData && !figureOptions.uri.startsWith('http')) {
+    figureOptions.uri = element.imageData.filename;
+  }
+
+  return convertRstDirective(generateFigureDirective(figureOptions));
+}
+
+/**
+ * Format table element as a pipe table or a list-table directive
+ *
+ * Captions and table options put a pipe table into a table directive.
+ */
+function formatTable(element: TableElement, options: FormatterOptions): string {
+  const { data } = element;
+  if (data.rows.length === 0) {
+    return '';
+  }
+
+  // The list-table carries the caption and options in both cases
+  const listTable = parseRstDirective(generateListTable(data))!;
+  const caption = listTable.argument ? convertInlineMarkup(listTable.argument) : undefined;
+
+  if (resolveMystTableFormat(data, options.tableFormat).format === 'list-table') {
+    return formatFencedDirective('list-table', caption, listTable.options, convertBlockMarkup(listTable.body));
+  }
+
+  const tableOptions = listTable.options.filter(([name]) => name !== 'header-rows');
+  const table = generatePipeTable(data.rows);
+
+  return caption || tableOptions.length > 0
+    ? formatFencedDirective('table', caption, tableOptions, table)
+    : table;
+}
+
+/**
+ * Choose the format a table is written in for MyST
+ *
+ * Pipe tables are used when every cell is a single line, there is exactly
+ * one header row and the table does not ask for a list-table. Everything
+ * else becomes a list-table, which cannot merge cells either.
+ *
+ * @param data - Table data including rows and options
+ * @param format - Document-wide table format (only 'list-table' matters)
+ * @returns Format to use and, when the table loses merged cells, why
+ */
+export function resolveMystTableFormat(
+  data: TableData,
+  format: TableFormat = 'grid'
+): { format: MystTableFormat; problem?: string } {
+  const { rows, options } = data;
+
+  if (rows.some((row) => row.cells.some((cell) => (cell.colspan || 1) > 1 || (cell.rowspan || 1) > 1))) {
+    return {
+      format: 'list-table',
+      problem: 'merged cells are not supported in MyST tables; written as a list-table without merged cells',
+    };
+  }
+
+  const requested = options.format || format;
+  const multiLine = rows.some((row) => row.cells.some((cell) => cell.content.includes('\n')));
+
+  return requested === 'list-table' || multiLine || countHeaderRows(rows, options.hasHeader) !== 1
+    ? { format: 'list-table' }
+    : { format: 'pipe' };
+}
+
+/**
+ * Count the leading header rows of a table
+ */
+function countHeaderRows(rows: TableRow[], hasHeader?: boolean): number {
+  let count = 0;
+  while (count < rows.length && rows[count].isHeader) {
+    count++;
+  }
+
+  return count === 0 && hasHeader ? 1 : count;
+}
+
+/**
+ * Generate a GFM pipe table
+ *
+ * Columns are padded to a common width so the source stays readable.
+ *
+ * @param rows - Table rows without merged or multi-line cells
+ * @returns Pipe table string
+ */
+function generatePipeTable(rows: TableRow[]): string {
+  const numColumns = Math.max(...rows.map((row) => row.cells.length));
+  const contents = rows.map((row) =>
+    Array.from({ length: numColumns }, (_, column) =>
+      convertInlineMarkup(row.cells[column]?.content || '').replace(/\|/g, '\\|')
+    )
+  );
+  const widths = Array.from({ length: numColumns }, (_, column) =>
+    Math.max(3, ...contents.map((row) => row[column].length))
+  );
+
+  const formatRow = (cells: string[]) =>
+    `| ${cells.map((cell, column) => cell.padEnd(widths[column])).join(' | ')} |`;
+
+  return [
+    formatRow(contents[0]),
+    formatRow(widths.map((width) => '-'.repeat(width))),
+    ...contents.slice(1).map(formatRow),
+  ].join('\n');
+}
+
+/**
+ * Format custom directive element
+ *
+ * The argument, options and body are written as the author typed them,
+ * so rst_* styles work unchanged in MyST.
+ */
+function formatDirective(element: DirectiveElement): string {
+  const { name, argument, options, content } = element.directive;
+  return formatFencedDirective(name, argument, [...options], content);
+}
+
+/**
+ * Format footnote element as a footnote definition
+ *
+ * Continuation lines are indented by four spaces.
+ */
+function formatFootnote(element: FootnoteElement): string {
+  const label = `[^${element.name}]:`;
+  if (!element.content) {
+    return label;
+  }
+
+  const [first, ...rest] = convertBlockMarkup(element.content).split('\n');
+  return [`${label} ${first}`, ...rest.map((line) => (line ? `    ${line}` : ''))].join('\n');
+}
+
+/**
+ * Format an element produced by a plugin
+ *
+ * Plugins without a MyST formatter have their RST output wrapped in an
+ * eval-rst directive.
+ */
+function formatPluginElement(element: PluginElement, options: FormatterOptions): string {
+  const plugin = findElementPlugin(element, options.plugins);
+  if (plugin?.formatMyst) {
+    return plugin.formatMyst(element, options);
+  }
+
+  const rst = plugin?.format ? plugin.format(element, options) : '';
+  return rst ? formatFencedDirective('eval-rst', undefined, [], rst) : '';
+}
+
+/**
+ * Format a fenced MyST directive
+ *
+ * The fence is longer than any backtick run in the body, so nested code
+ * blocks and directives stay inside.
+ *
+ * @param name - Directive name
+ * @param argument - Directive argument
+ * @param options - Option names and values (empty value for flags)
+ * @param body - Directive content
+ * @returns Fenced directive
+ */
+function formatFencedDirective(
+  name: string,
+  argument: string | undefined,
+  options: [string, string][],
+  body: string
+): string {
+  const fence = getFence(body);
+  const lines = [argument ? `${fence}{${name}} ${argument}` : `${fence}{${name}}`];
+
+  for (const [option, value] of options) {
+    lines.push(value ? `:${option}: ${value}` : `:${option}:`);
+  }
+
+  if (body) {
+    // A blank line keeps the body from being read as options
+    if (options.length > 0 || /^(?::|---)/.test(body)) {
+      lines.push('');
+    }
+    lines.push(body);
+  }
+
+  lines.push(fence);
+  return lines.join('\n');
+}
+
+/**
+ * Convert an RST directive from the directive generators to MyST
+ *
+ * The argument and options are kept as they are; the body is converted to
+ * MyST unless it is verbatim content (e.g., toctree entries).
+ *
+ * @param rst - Directive generated as RST
+ * @param convertBody - Convert the body from RST markup
+ * @returns Fenced MyST directive, or the input if it is not a directive
+ */
+export function convertRstDirective(rst: string, convertBody: boolean = true): string {
+  const directive = parseRstDirective(rst);
+  if (!directive) {
+    return rst;
+  }
+
+  const body = convertBody ? convertBlockMarkup(directive.body) : directive.body;
+  return formatFencedDirective(directive.name, directive.argument, directive.options, body);
+}
+
+/**
+ * Parse an RST directive into its parts
+ *
+ * Only the layout written by the directive generators is understood:
+ * a header line, option lines, then the body indented by three spaces.
+ */
+function parseRstDirective(rst: string): ParsedDirective | null {
+  const lines = rst.split('\n');
+  const header = lines[0].match(/^\.\. ([\w:.-]+)::(?: (.*))?$/);
+  if (!header) {
+    return null;
+  }
+
+  const options: [string, string][] = [];
+  let index = 1;
+  for (; index < lines.length; index++) {
+    const option = lines[index].match(/^ +:([^:]+):(?: (.*))?$/);
+    if (!option) {
+      break;
+    }
+    options.push([option[1], option[2] || '']);
+  }
+
+  const body = lines
+    .slice(index)
+    .map((line) => line.replace(/^ {1,3}/, ''))
+    .join('\n')
+    .replace(/^(\s*\n)+/, '')
+    .trimEnd();
+
+  return { name: header[1], argument: header[2], options, body };
+}
+
+/**
+ * Format a fenced code block
+ *
+ * @param code - Code text
+ * @param language - Pygments language name
+ * @returns Fenced code block
+ */
+export function formatMystCodeBlock(code: string, language?: string): string {
+  const fence = getFence(code);
+  return [`${fence}${language || ''}`, code, fence].join('\n');
+}
+
+/**
+ * Get a backtick fence longer than any backtick run in the content
+ */
+function getFence(content: string): string {
+  const longest = Math.max(2, ...(content.match(/`+/g) || []).map((run) => run.length));
+  return '`'.repeat(longest + 1);
+}
+
+/**
+ * Create a MyST target for a label
+ */
+export function createMystLabel(name: string): string {
+  return `(${normalizeLabel(name)})=`;
+}
+
+/**
+ * Convert block content from RST markup to MyST
+ *
+ * Handles the block constructs that appear inside table cells,
+ * definitions and footnotes: paragraphs, bullet and "#." lists (including
+ * list-table rows) and line blocks.
+ *
+ * @param text - RST content
+ * @returns MyST content
+ */
+export function convertBlockMarkup(text: string): string {
+  const lines = text.split('\n').map(convertBlockLine);
+
+  return lines
+    .map((line, index) => (line.lineBlock && lines[index + 1]?.lineBlock ? `${line.text}\\` : line.text))
+    .join('\n');
+}
+
+/**
+ * Convert one line of RST block content
+ */
+function convertBlockLine(line: string): { text: string; lineBlock: boolean } {
+  const [, indent, markers, rest] = line.match(/^(\s*)((?:(?:[-*+]|#\.|\d+\.)(?:\s+|$))*)(.*)$/)!;
+  const lineBlock = rest.match(/^\|(?:\s+(.*))?$/);
+  const content = lineBlock ? lineBlock[1] || '' : rest;
+  const converted = escapeMystLineStarts(convertInlineMarkup(content));
+
+  return {
+    text: `${indent}${markers.replace(/#\./g, '1.')}${converted}`.trimEnd(),
+    lineBlock: !!lineBlock,
+  };
+}
+
+/**
+ * Convert inline RST markup to MyST
+ *
+ * Emphasis, inline literals, roles, hyperlinks and footnote references
+ * are translated; backslash escapes are resolved and the literal text is
+ * escaped for Markdown instead.
+ *
+ * @param rst - Text with RST inline markup
+ * @returns Text with MyST inline markup
+ */
+export function convertInlineMarkup(rst: string): string {
+  let result = '';
+  let literal = '';
+  let index = 0;
+
+  const flush = (following: string) => {
+    result += escapeMystInline(literal, result, following);
+    literal = '';
+  };
+
+  while (index < rst.length) {
+    const char = rst[index];
+
+    // Escaped characters are literal; an escaped space is removed
+    if (char === '\\') {
+      const next = rst.charAt(index + 1);
+      if (next && !/\s/.test(next)) {
+        literal += next;
+      }
+      index += 2;
+      continue;
+    }
+
+    const markup = matchInlineMarkup(rst, index);
+    if (markup) {
+      flush(markup.output);
+      result += markup.output;
+      index += markup.length;
+      continue;
+    }
+
+    literal += char;
+    index++;
+  }
+
+  flush('');
+  return result;
+}
+
+/**
+ * Match RST inline markup at a position
+ */
+function matchInlineMarkup(text: string, index: number): InlineMarkup | null {
+  const rest = text.slice(index);
+
+  // Inline literal: ``code``
+  const literal = rest.match(/^``((?:[^`]|`(?!`))+)``/);
+  if (literal) {
+    return { length: literal[0].length, output: formatCodeSpan(literal[1]) };
+  }
+
+  // Role: :name:`content`
+  const role = rest.match(/^:([\w.+-]+(?::[\w.+-]+)?):`((?:\\.|[^`\\])+)`/);
+  if (role) {
+    return { length: role[0].length, output: `{${role[1]}}${formatCodeSpan(role[2])}` };
+  }
+
+  // Hyperlink: `text <url>`_
+  const link = rest.match(/^`((?:\\.|[^`\\])*?)\s*<([^<>`\s][^<>`]*)>`__?/);
+  if (link) {
+    const url = /[\s()]/.test(link[2]) ? `<${link[2]}>` : link[2];
+    const label = link[1] ? convertInlineMarkup(link[1]) : escapeMystInline(link[2]);
+    return { length: link[0].length, output: `[${label}](${url})` };
+  }
+
+  // Footnote reference: [#name]_
+  const footnote = rest.match(/^\[#?([\w-]+)\]_/);
+  if (footnote) {
+    return { length: footnote[0].length, output: `[^${footnote[1]}]` };
+  }
+
+  // Strong and emphasis, following the RST start-string rules
+  for (const delimiter of ['**', '*']) {
+    if (!rest.startsWith(delimiter) || !canStartMarkup(text.charAt(index - 1))) {
+      continue;
+    }
+    if (delimiter === '*' && rest.startsWith('**')) {
+      break;
+    }
+
+    const start = index + delimiter.length;
+    const end = findClosingDelimiter(text, start, delimiter);
+    if (end > start) {
+      const inner = convertInlineMarkup(text.slice(start, end));
+      return { length: end + delimiter.length - index, output: `${delimiter}${inner}${delimiter}` };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check if a character may precede an RST inline markup start-string
+ */
+function canStartMarkup(char: string): boolean {
+  return !char || /[\s\-:/'"<([{]/.test(char) || (char.charCodeAt(0) > 0x7f && /\p{P}/u.test(char));
+}
+
+/**
+ * Find the end-string of strong or emphasis markup
+ *
+ * @returns Index of the end-string, or -1 if there is none
+ */
+function findClosingDelimiter(text: string, start: number, delimiter: string): number {
+  if (!text.charAt(start) || /\s/.test(text.charAt(start))) {
+    return -1;
+  }
+
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+
+    const isRun = text.startsWith(delimiter, i) && text.charAt(i + delimiter.length) !== '*';
+    const isSingle = delimiter.length > 1 || text.charAt(i - 1) !== '*';
+    if (isRun && isSingle && !/\s/.test(text[i - 1])) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Format text as a Markdown code span
+ */
+function formatCodeSpan(code: string): string {
+  const longest = Math.max(0, ...(code.match(/`+/g) || []).map((run) => run.length));
+  const fence = '`'.repeat(longest + 1);
+  const padding = code.startsWith('`') || code.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${code}${padding}${fence}`;
+}
@@ -0,0 +1,1641 @@
+/**
+ * RST Word Add-in - OOXML Parser
+ * Parses the OOXML package from body.getOoxml() into structured document elements
+ *
+ * This is the alternative front end to the HTML parser. Structure comes
+ * from word/document.xml, styles.xml and numbering.xml instead of Word's
+ * getHtml() output, which differs between Word Online and desktop and
+ * loses style names, numbering definitions and field codes. The result
+ * has the same shape as parseWordHtml(), so every formatter works on it.
+ *
+ * @see https://learn.microsoft.com/en-us/office/open-xml/word/structure-of-a-wordprocessingml-document
+ */
+
+import {
+  AnyDocumentElement,
+  HeadingElement,
+  ListElement,
+  DefinitionListElement,
+  CodeBlockElement,
+  ImageElement,
+  FigureElement,
+  TableElement,
+  TableRow,
+  TableCell,
+  TableData,
+  TableOptions,
+  TocElement,
+  DirectiveElement,
+  ExtractedImage,
+  ImageOptions,
+  FigureOptions,
+  ContentsOptions,
+  StyleMapping,
+} from './types';
+
+import {
+  ParsedDocument,
+  DocumentMetadata,
+  ParserOptions,
+  DEFAULT_MONOSPACE_FONTS,
+  DEFAULT_CODE_CHARACTER_STYLES,
+  DEFAULT_CODE_PARAGRAPH_STYLES,
+  DEFINITION_TERM_STYLES,
+  DEFINITION_STYLES,
+  beginDocument,
+  finishDocument,
+  addCaptionTarget,
+  applyFigureCaption,
+  createImageName,
+  createParagraphElement,
+  formatBookmarkReference,
+  formatNoteReference,
+  getNoteName,
+  normalizeLineBreaks,
+} from './html-parser';
+
+import {
+  isRstDirectiveStyle,
+  parseCustomDirective,
+  parseDirectiveContent,
+  parseWordTocFieldCode,
+  parseTableAltText,
+  getTableStyleFormat,
+} from './directives';
+
+import { ParseResult } from './plugins';
+import {
+  parseOoxmlPackage,
+  getOoxmlPart,
+  getOoxmlRelationships,
+  getOoxmlThemeColors,
+  getPictureElements,
+  readOoxmlPicture,
+  OoxmlRelationship,
+} from '../utils/ooxml';
+import { childElement, childElements, findAncestor, hasAncestor, getVal, isOn } from '../utils/xml';
+import { parseCaption } from '../utils/caption-parser';
+import { normalizeCodeLanguage, detectCodeLanguage } from '../utils/code-language';
+import { escapeInlineText, escapeLineStarts, escapeLiteralText } from '../utils/rst-escape';
+import { normalizeStyleName, findStyleMapping, StyleKind } from '../utils/style-map';
+
+/**
+ * Word style from styles.xml
+ */
+interface WordStyle {
+  /** Style ID referenced from the document (e.g., "Heading1") */
+  id: string;
+  /** Style name shown in Word (e.g., "heading 1") */
+  name: string;
+  /** Style type: paragraph, character, table or numbering */
+  type: string;
+  /** ID of the style this one is based on */
+  basedOn?: string;
+  /** The w:style element */
+  element: Element;
+}
+
+/**
+ * Parts of the package the parser reads from
+ */
+interface DocumentParts {
+  /** Parsed flat OPC package */
+  pkg: Document;
+  /** Styles by ID */
+  styles: Map<string, WordStyle>;
+  /** Number format (e.g., "bullet", "decimal") by numbering ID and level */
+  numbering: Map<string, Map<number, string>>;
+  /** Relationships of document.xml by ID */
+  relationships: Map<string, OoxmlRelationship>;
+  /** Theme colors by scheme name, for rendering shapes */
+  themeColors: Record<string, string>;
+  /** Footnote and endnote elements by kind ("ftn"/"edn") and ID */
+  notes: Map<string, Element>;
+  /** Footnote names by note kind and ID, in reference order */
+  noteNames: Map<string, string>;
+}
+
+/**
+ * Block-level state passed while parsing paragraphs
+ */
+interface BlockContext {
+  /** Images of the document */
+  images: ExtractedImage[];
+  /** Get the block after the current one (and those it consumed) */
+  peek(): Element | undefined;
+  /** Make the next block part of the current one */
+  consume(): Element;
+}
+
+/**
+ * Formatting of a text run
+ */
+interface RunFormat {
+  bold: boolean;
+  italic: boolean;
+  code: boolean;
+  script?: 'sub' | 'sup';
+  role?: string;
+}
+
+/**
+ * Piece of inline content: literal text with its formatting, or RST markup
+ */
+type InlineSegment = (RunFormat & { text: string }) | { markup: string };
+
+/**
+ * Complex field (w:fldChar begin/separate/end) being read
+ */
+interface OpenField {
+  /** Field instruction (e.g., "REF _Ref123 \\h") */
+  instruction: string;
+  /** Whether the result part (after the separator) has started */
+  inResult: boolean;
+  /** Content of the field result */
+  result: InlineSegment[];
+}
+
+/**
+ * Paragraph style IDs that are headings regardless of outline level
+ */
+const HEADING_STYLE_PATTERN = /^heading\s*(\d)$/i;
+
+/**
+ * Paragraph styles of Word's table of contents entries
+ */
+const TOC_STYLE_PATTERN = /^toc\s*\d$/i;
+
+/**
+ * Paragraph styles rendered as block quotes
+ */
+const QUOTE_STYLE_PATTERN = /quote/i;
+
+/**
+ * Bookmarks Word maintains for its own use
+ */
+const IGNORED_BOOKMARKS = ['_GoBack'];
+
+/**
+ * Package of the document currently being parsed
+ */
+let parts: DocumentParts;
+
+/**
+ * Options for the document currently being parsed
+ */
+let parseOptions: ParserOptions = {};
+
+/**
+ * Warnings from rendering shape drawings of the current document
+ */
+let drawingWarnings: string[] = [];
+
+/**
+ * Parse the OOXML package of a Word document into structured document elements
+ *
+ * Element plugins work on HTML and are not applied; the style map, code
+ * styles and cross-reference options are.
+ *
+ * @param ooxml - OOXML string from body.getOoxml()
+ * @param options - Parser options
+ * @returns Parsed document with elements and images
+ */
+export function parseOoxmlDocument(ooxml: string, options: ParserOptions = {}): ParsedDocument {
+  beginDocument(options);
+  parseOptions = options;
+  drawingWarnings = [];
+
+  const pkg = parseOoxmlPackage(ooxml);
+  const documentPart = pkg ? getOoxmlPart(pkg, '/word/document.xml') : null;
+  const body = documentPart ? childElement(documentPart, 'w:body') : null;
+  if (!pkg || !body) {
+    return {
+      elements: [],
+      images: [],
+      metadata: {},
+      warnings: ['The OOXML package has no document body'],
+    };
+  }
+
+  parts = loadDocumentParts(pkg);
+
+  const blocks = getBlockElements(body);
+  collectCaptionTargets(blocks);
+
+  const elements: AnyDocumentElement[] = [];
+  const images: ExtractedImage[] = [];
+
+  // Bookmarks waiting for the next element that produces output
+  let pendingBookmarks: string[] = [];
+
+  for (let i = 0; i < blocks.length; i++) {
+    const first = i;
+    const context: BlockContext = {
+      images,
+      peek: () => blocks[i + 1],
+      consume: () => blocks[++i],
+    };
+    const parsed = parseBlock(blocks[i], context);
+
+    for (let j = first; j <= i; j++) {
+      pendingBookmarks.push(...getBookmarkNames(blocks[j]));
+    }
+
+    const produced = !parsed ? [] : Array.isArray(parsed) ? parsed : [parsed];
+    if (produced.length > 0) {
+      // Bookmarks on empty paragraphs carry over to the next element
+      if (pendingBookmarks.length > 0) {
+        produced[0].labels = [...(produced[0].labels || []), ...pendingBookmarks];
+        pendingBookmarks = [];
+      }
+      elements.push(...produced);
+    }
+  }
+
+  const finished = finishDocument(elements, formatNoteBodies());
+
+  return {
+    ...finished,
+    images,
+    metadata: extractMetadata(pkg),
+    warnings: [...finished.warnings, ...drawingWarnings],
+  };
+}
+
+/**
+ * Read styles, numbering, relationships and notes from the package
+ */
+function loadDocumentParts(pkg: Document): DocumentParts {
+  const loaded: DocumentParts = {
+    pkg,
+    styles: new Map(),
+    numbering: new Map(),
+    relationships: getOoxmlRelationships(pkg),
+    themeColors: getOoxmlThemeColors(pkg),
+    notes: new Map(),
+    noteNames: new Map(),
+  };
+
+  const stylesPart = getOoxmlPart(pkg, '/word/styles.xml');
+  for (const style of stylesPart ? childElements(stylesPart, 'w:style') : []) {
+    const id = style.getAttribute('w:styleId') || '';
+    loaded.styles.set(id, {
+      id,
+      name: getVal(style, 'w:name') || id,
+      type: style.getAttribute('w:type') || 'paragraph',
+      basedOn: getVal(style, 'w:basedOn') || undefined,
+      element: style,
+    });
+  }
+
+  const numberingPart = getOoxmlPart(pkg, '/word/numbering.xml');
+  if (numberingPart) {
+    const abstractFormats = new Map<string, Map<number, string>>();
+    for (const abstractNum of childElements(numberingPart, 'w:abstractNum')) {
+      abstractFormats.set(abstractNum.getAttribute('w:abstractNumId') || '', getLevelFormats(abstractNum));
+    }
+
+    for (const num of childElements(numberingPart, 'w:num')) {
+      const formats = new Map(abstractFormats.get(getVal(num, 'w:abstractNumId') || '') || []);
+      for (const override of childElements(num, 'w:lvlOverride')) {
+        getLevelFormats(override).forEach((format, level) => formats.set(level, format));
+      }
+      loaded.numbering.set(num.getAttribute('w:numId') || '', formats);
+    }
+  }
+
+  for (const [kind, partName, tag] of [
+    ['ftn', '/word/footnotes.xml', 'w:footnote'],
+    ['edn', '/word/endnotes.xml', 'w:endnote'],
+  ]) {
+    const notesPart = getOoxmlPart(pkg, partName);
+    for (const note of notesPart ? childElements(notesPart, tag) : []) {
+      loaded.notes.set(`${kind}:${note.getAttribute('w:id')}`, note);
+    }
+  }
+
+  return loaded;
+}
+
+/**
+ * Get the number format of each level of a w:abstractNum or w:lvlOverride
+ */
+function getLevelFormats(element: Element): Map<number, string> {
+  const formats = new Map<number, string>();
+  for (const level of childElements(element, 'w:lvl')) {
+    const format = getVal(level, 'w:numFmt');
+    if (format) {
+      formats.set(parseInt(level.getAttribute('w:ilvl') || '0'), format);
+    }
+  }
+  return formats;
+}
+
+/**
+ * Extract title, author and language from the package
+ */
+function extractMetadata(pkg: Document): DocumentMetadata {
+  const metadata: DocumentMetadata = {};
+
+  const core = getOoxmlPart(pkg, '/docProps/core.xml');
+  if (core) {
+    const title = core.getElementsByTagName('dc:title')[0]?.textContent?.trim();
+    const author = core.getElementsByTagName('dc:creator')[0]?.textContent?.trim();
+    if (title) metadata.title = title;
+    if (author) metadata.author = author;
+  }
+
+  const defaults = getOoxmlPart(pkg, '/word/styles.xml')?.getElementsByTagName('w:docDefaults')[0];
+  const language = defaults?.getElementsByTagName('w:lang')[0]?.getAttribute('w:val');
+  if (language) {
+    metadata.language = language;
+  }
+
+  return metadata;
+}
+
+/**
+ * Get the block elements (paragraphs, tables, tables of contents) of a container
+ */
+function getBlockElements(container: Element): Element[] {
+  const blocks: Element[] = [];
+
+  for (const child of Array.from(container.children)) {
+    switch (child.tagName) {
+      case 'w:p':
+      case 'w:tbl':
+        blocks.push(child);
+        break;
+      case 'w:sdt':
+        // Content controls: a table of contents is one block, others are transparent
+        if (isTocContentControl(child)) {
+          blocks.push(child);
+        } else {
+          const content = childElement(child, 'w:sdtContent');
+          if (content) blocks.push(...getBlockElements(content));
+        }
+        break;
+      case 'w:customXml':
+        blocks.push(...getBlockElements(child));
+        break;
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Parse a block element into document element(s)
+ */
+function parseBlock(block: Element, context: BlockContext): ParseResult {
+  if (block.tagName === 'w:tbl') {
+    return parseTable(block, context);
+  }
+  if (block.tagName === 'w:sdt') {
+    return parseTocContentControl(block);
+  }
+  return parseParagraph(block, context);
+}
+
+/**
+ * Parse a paragraph
+ *
+ * Detection follows the order of the HTML parser's built-in handlers.
+ */
+function parseParagraph(p: Element, context: BlockContext): ParseResult {
+  const style = getParagraphStyle(p);
+  const styleName = style?.name;
+
+  // Styles in the style map come before the built-in detection
+  const mapping = getStyleMapping(style, 'paragraph');
+  if (mapping) {
+    switch (mapping.type) {
+      case 'directive':
+        return parseDirectiveParagraph(p, styleName || mapping.style, mapping);
+      case 'heading':
+        return createHeading(p, mapping.level!);
+      case 'code-block':
+        return parseCodeParagraphs(p, context);
+      default:
+        return null;
+    }
+  }
+
+  if (getCodeParagraphStyle(p)) {
+    return parseCodeParagraphs(p, context);
+  }
+
+  if (isDefinitionTerm(p) && isDefinitionBody(context.peek())) {
+    const bodies: Element[] = [];
+    while (isDefinitionBody(context.peek())) {
+      bodies.push(context.consume());
+    }
+    return parseDefinitionItem(p, bodies);
+  }
+
+  if (isTocParagraph(p)) {
+    return parseTocParagraphs(p, context);
+  }
+
+  if (styleName && isRstDirectiveStyle(styleName)) {
+    return parseDirectiveParagraph(p, styleName);
+  }
+
+  const headingLevel = getHeadingLevel(p);
+  if (headingLevel) {
+    return createHeading(p, headingLevel);
+  }
+
+  const content = formatInlineContent(p);
+
+  if (getPictureElements(p).length > 0) {
+    // Floating shapes and pictures are anchored to paragraphs of text, which is kept
+    const parsed = parseImageParagraph(p, context);
+    const paragraph = content.trim() ? createParagraphElement(content, styleName) : null;
+    if (!parsed || !paragraph) {
+      return parsed || paragraph;
+    }
+    return [...(Array.isArray(parsed) ? parsed : [parsed]), paragraph];
+  }
+
+  if (styleName && QUOTE_STYLE_PATTERN.test(styleName)) {
+    const lines = normalizeLineBreaks(content);
+    return lines.trim()
+      ? {
+          type: 'paragraph',
+          content: escapeLineStarts(lines),
+          isBlockQuote: true,
+          lineBreaks: lines.includes('\n') || undefined,
+          style: styleName,
+        }
+      : null;
+  }
+
+  if (isCaptionParagraph(p)) {
+    return {
+      type: 'paragraph',
+      content: getPlainText(p).trim(),
+      style: styleName,
+    };
+  }
+
+  const numbering = getNumbering(p);
+  if (numbering) {
+    return createListItem(content, numbering.listType, numbering.level);
+  }
+
+  return createParagraphElement(content, styleName);
+}
+
+// ---------------------------------------------------------------------------
+// Styles and numbering
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the paragraph style of a paragraph (the default style if none is set)
+ */
+function getParagraphStyle(p: Element): WordStyle | undefined {
+  const id = getVal(childElement(p, 'w:pPr'), 'w:pStyle');
+  if (id) {
+    return parts.styles.get(id);
+  }
+
+  return Array.from(parts.styles.values()).find(
+    (style) => style.type === 'paragraph' && isOn(style.element, 'w:default')
+  );
+}
+
+/**
+ * Get a style and the styles it is based on, nearest first
+ */
+function getStyleChain(style: WordStyle | undefined): WordStyle[] {
+  const chain: WordStyle[] = [];
+  while (style && !chain.includes(style)) {
+    chain.push(style);
+    style = style.basedOn ? parts.styles.get(style.basedOn) : undefined;
+  }
+  return chain;
+}
+
+/**
+ * Get the style map entry for a paragraph or character style
+ */
+function getStyleMapping(style: WordStyle | undefined, kind: StyleKind): StyleMapping | undefined {
+  if (!style || !parseOptions.styleMap) {
+    return undefined;
+  }
+  return findStyleMapping([style.name, style.id], parseOptions.styleMap, kind);
+}
+
+/**
+ * Check if a style's name or ID is one of the given style names
+ */
+function isStyleNamed(style: WordStyle | undefined, names: string[]): boolean {
+  if (!style) {
+    return false;
+  }
+
+  const wanted = names.map(normalizeStyleName);
+  return [style.name, style.id].some((name) => wanted.includes(normalizeStyleName(name)));
+}
+
+/**
+ * Get the heading level from the paragraph style name or the outline level
+ */
+function getHeadingLevel(p: Element): number | null {
+  const style = getParagraphStyle(p);
+  const nameMatch = style?.name.match(HEADING_STYLE_PATTERN);
+  if (nameMatch) {
+    return parseInt(nameMatch[1]);
+  }
+
+  // Outline level 0-8 on the paragraph or its style; 9 is body text
+  const outline = getVal(childElement(p, 'w:pPr'), 'w:outlineLvl') ??
+    getStyleChain(style).map((s) => getVal(childElement(s.element, 'w:pPr'), 'w:outlineLvl')).find((v) => v !== null);
+  const level = outline !== null && outline !== undefined ? parseInt(outline) + 1 : NaN;
+
+  return level >= 1 && level <= 6 ? level : null;
+}
+
+/**
+ * Get the list type and level of a numbered or bulleted paragraph
+ */
+function getNumbering(p: Element): { listType: ListElement['listType']; level: number } | null {
+  let numPr = childElement(childElement(p, 'w:pPr'), 'w:numPr');
+  if (!numPr) {
+    // List styles such as "List Bullet" carry the numbering in the style
+    numPr = getStyleChain(getParagraphStyle(p))
+      .map((style) => childElement(childElement(style.element, 'w:pPr'), 'w:numPr'))
+      .find((element) => element !== null) || null;
+  }
+
+  const numId = getVal(numPr, 'w:numId');
+  if (!numId || numId === '0') {
+    return null;
+  }
+
+  const level = parseInt(getVal(numPr, 'w:ilvl') || '0');
+  const format = parts.numbering.get(numId)?.get(level) || 'bullet';
+  if (format === 'none') {
+    return null;
+  }
+
+  return { listType: format === 'bullet' ? 'unordered' : 'ordered', level };
+}
+
+/**
+ * Get the font of a run: its own, its character style's, or its paragraph style's
+ */
+function getRunFont(run: Element, paragraphStyle: WordStyle | undefined): string | null {
+  const rPr = childElement(run, 'w:rPr');
+  const own = getFontName(rPr);
+  if (own) {
+    return own;
+  }
+
+  const characterStyle = getRunStyle(run);
+  for (const style of [...getStyleChain(characterStyle), ...getStyleChain(paragraphStyle)]) {
+    const font = getFontName(childElement(style.element, 'w:rPr'));
+    if (font) {
+      return font;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the font named in a w:rPr
+ */
+function getFontName(rPr: Element | null): string | null {
+  const fonts = childElement(rPr, 'w:rFonts');
+  return fonts?.getAttribute('w:ascii') || fonts?.getAttribute('w:hAnsi') || null;
+}
+
+/**
+ * Get the character style of a run
+ */
+function getRunStyle(run: Element): WordStyle | undefined {
+  const id = getVal(childElement(run, 'w:rPr'), 'w:rStyle');
+  return id ? parts.styles.get(id) : undefined;
+}
+
+/**
+ * Check if a font is one of the monospace fonts
+ */
+function isMonospaceFont(font: string | null): boolean {
+  const fonts = parseOptions.monospaceFonts || DEFAULT_MONOSPACE_FONTS;
+  return !!font && fonts.some((name) => name.toLowerCase() === font.toLowerCase());
+}
+
+// ---------------------------------------------------------------------------
+// Inline content
+// ---------------------------------------------------------------------------
+
+/**
+ * Format the runs of a paragraph (or other run container) as inline RST
+ */
+function formatInlineContent(container: Element): string {
+  return renderSegments(collectSegments(container));
+}
+
+/**
+ * Collect the inline content of a paragraph, resolving hyperlinks and fields
+ */
+function collectSegments(container: Element): InlineSegment[] {
+  const segments: InlineSegment[] = [];
+  const fields: OpenField[] = [];
+  const paragraphStyle = container.tagName === 'w:p' ? getParagraphStyle(container) : undefined;
+
+  // Segments go into the result of the innermost field, if any
+  const output = (): InlineSegment[] => {
+    const open = fields.filter((field) => field.inResult);
+    return open.length > 0 ? open[open.length - 1].result : segments;
+  };
+
+  const visit = (parent: Element): void => {
+    for (const node of Array.from(parent.children)) {
+      switch (node.tagName) {
+        case 'w:r':
+          collectRun(node, paragraphStyle, fields, output);
+          break;
+        case 'w:hyperlink': {
+          const text = renderSegments(collectSegments(node)).trim();
+          output().push({ markup: formatHyperlink(node, text) });
+          break;
+        }
+        case 'w:fldSimple': {
+          const result = collectSegments(node);
+          output().push(...formatField(node.getAttribute('w:instr') || '', result));
+          break;
+        }
+        case 'w:ins':
+        case 'w:moveTo':
+        case 'w:dir':
+        case 'w:bdo':
+        case 'w:smartTag':
+        case 'w:customXml':
+        case 'w:sdt':
+        case 'w:sdtContent':
+          visit(node);
+          break;
+      }
+    }
+  };
+
+  visit(container);
+  return segments;
+}
+
+/**
+ * Collect the content of a run
+ */
+function collectRun(
+  run: Element,
+  paragraphStyle: WordStyle | undefined,
+  fields: OpenField[],
+  output: () => InlineSegment[]
+): void {
+  const rPr = childElement(run, 'w:rPr');
+  if (isOn(rPr, 'w:vanish')) {
+    return;
+  }
+
+  const characterStyle = getRunStyle(run);
+  const mapping = getStyleMapping(characterStyle, 'character');
+  if (mapping?.type === 'drop') {
+    return;
+  }
+
+  const format = getRunFormat(run, paragraphStyle, mapping);
+
+  for (const node of Array.from(run.children)) {
+    const field = fields[fields.length - 1];
+
+    switch (node.tagName) {
+      case 'w:fldChar': {
+        const type = node.getAttribute('w:fldCharType');
+        if (type === 'begin') {
+          fields.push({ instruction: '', inResult: false, result: [] });
+        } else if (type === 'separate' && field) {
+          field.inResult = true;
+        } else if (type === 'end' && field) {
+          fields.pop();
+          output().push(...formatField(field.instruction, field.result));
+        }
+        break;
+      }
+      case 'w:instrText':
+        if (field && !field.inResult) {
+          field.instruction += node.textContent || '';
+        }
+        break;
+      case 'w:t':
+        if (!field || field.inResult) {
+          output().push({ ...format, text: node.textContent || '' });
+        }
+        break;
+      case 'w:tab':
+        output().push({ ...format, text: ' ' });
+        break;
+      case 'w:br':
+      case 'w:cr':
+        // Page breaks are not line breaks
+        output().push({ ...format, text: node.getAttribute('w:type') === 'page' ? ' ' : '\n' });
+        break;
+      case 'w:noBreakHyphen':
+        output().push({ ...format, text: '-' });
+        break;
+      case 'w:footnoteReference':
+      case 'w:endnoteReference': {
+        const kind = node.tagName === 'w:footnoteReference' ? 'ftn' : 'edn';
+        output().push({ markup: `\u0000note:${getNoteNameFor(kind, node.getAttribute('w:id') || '')}` });
+        break;
+      }
+    }
+  }
+}
+
+/**
+ * Get the formatting of a run from its properties and character style
+ */
+function getRunFormat(run: Element, paragraphStyle: WordStyle | undefined, mapping?: StyleMapping): RunFormat {
+  const rPr = childElement(run, 'w:rPr');
+  const characterStyle = getRunStyle(run);
+  const styleProps = getStyleChain(characterStyle).map((style) => childElement(style.element, 'w:rPr'));
+
+  const toggle = (tag: string): boolean => {
+    if (childElement(rPr, tag)) {
+      return isOn(rPr, tag);
+    }
+    const inherited = styleProps.find((props) => childElement(props, tag));
+    return inherited ? isOn(inherited, tag) : false;
+  };
+
+  const vertAlign = getVal(rPr, 'w:vertAlign') ||
+    styleProps.map((props) => getVal(props, 'w:vertAlign')).find((value) => value) || null;
+  const codeStyles = parseOptions.codeCharacterStyles || DEFAULT_CODE_CHARACTER_STYLES;
+
+  return {
+    bold: toggle('w:b'),
+    italic: toggle('w:i'),
+    code: !mapping && (isStyleNamed(characterStyle, codeStyles) || isMonospaceFont(getRunFont(run, paragraphStyle))),
+    script: vertAlign === 'subscript' ? 'sub' : vertAlign === 'superscript' ? 'sup' : undefined,
+    role: mapping?.type === 'role' ? mapping.role : undefined,
+  };
+}
+
+/**
+ * Render inline segments as RST
+ *
+ * Adjacent runs with the same formatting are joined first, as Word splits
+ * runs for editing history and spelling marks.
+ */
+function renderSegments(segments: InlineSegment[]): string {
+  const merged: InlineSegment[] = [];
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && 'text' in last && 'text' in segment && sameFormat(last, segment)) {
+      last.text += segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  let result = '';
+  let afterMarkup = false;
+
+  for (let i = 0; i < merged.length; i++) {
+    const segment = merged[i];
+    const next = merged[i + 1];
+    const following = next && 'text' in next ? next.text : '';
+
+    if ('markup' in segment) {
+      // Footnote references are resolved here so the separator sees the preceding text
+      const note = segment.markup.match(/^\u0000note:(.+)$/);
+      result += note ? formatNoteReference(note[1], result) : segment.markup;
+      afterMarkup = !!segment.markup;
+      continue;
+    }
+
+    const { text } = segment;
+    if (segment.code || segment.role || segment.script) {
+      const role = segment.code ? null : segment.role || segment.script!;
+      result += wrapInline(text, result, (content) =>
+        role ? `:${role}:\`${content.replace(/[\\`]/g, '\\$&')}\`` : `\`\`${content}\`\``
+      );
+      afterMarkup = /\S$/.test(text);
+    } else if (segment.bold || segment.italic) {
+      const marker = segment.bold && segment.italic ? '***' : segment.bold ? '**' : '*';
+      result += wrapInline(text, result, (content) => `${marker}${escapeInlineText(content)}${marker}`);
+      afterMarkup = /\S$/.test(text);
+    } else {
+      const escaped = escapeInlineText(text, result, following);
+      result += afterMarkup && /^\w/.test(escaped) ? `\\ ${escaped}` : escaped;
+      afterMarkup = false;
+    }
+  }
+
+  return result.replace(/[^\S\n]+/g, ' ');
+}
+
+/**
+ * Check if two text segments have the same formatting
+ */
+function sameFormat(a: RunFormat, b: RunFormat): boolean {
+  return a.bold === b.bold && a.italic === b.italic && a.code === b.code &&
+    a.script === b.script && a.role === b.role;
+}
+
+/**
+ * Wrap text in inline markup
+ *
+ * Surrounding whitespace is moved outside the markup, and an escaped
+ * space is added when the markup directly follows a word character.
+ */
+function wrapInline(text: string, preceding: string, wrap: (content: string) => string): string {
+  const content = text.trim();
+  if (!content) {
+    return text;
+  }
+
+  const leading = /^\s/.test(text) ? ' ' : '';
+  const trailing = /\s$/.test(text) ? ' ' : '';
+  const separator = !leading && /\w$/.test(preceding) ? '\\ ' : '';
+
+  return `${leading}${separator}${wrap(content)}${trailing}`;
+}
+
+/**
+ * Format a w:hyperlink as an external link or a reference to a bookmark
+ */
+function formatHyperlink(hyperlink: Element, text: string): string {
+  const anchor = hyperlink.getAttribute('w:anchor');
+  if (anchor) {
+    return formatBookmarkReference(anchor, text);
+  }
+
+  const rel = parts.relationships.get(hyperlink.getAttribute('r:id') || '');
+  if (!rel?.target) {
+    return text;
+  }
+  return text ? `\`${text} <${rel.target}>\`_` : `<${rel.target}>`;
+}
+
+/**
+ * Format a field from its instruction and result
+ *
+ * REF and PAGEREF fields become cross-references and HYPERLINK fields
+ * links; other fields (SEQ, DATE, ...) keep their result text.
+ */
+function formatField(instruction: string, result: InlineSegment[]): InlineSegment[] {
+  const [type, ...args] = instruction.trim().match(/"[^"]*"|\S+/g) || [];
+  const fieldType = (type || '').toUpperCase();
+  const unquote = (value: string | undefined) => (value || '').replace(/^"|"$/g, '');
+
+  if (fieldType === 'REF' || fieldType === 'PAGEREF') {
+    const text = renderSegments(result).trim();
+    return [{ markup: formatBookmarkReference(unquote(args[0]), text, fieldType === 'PAGEREF') }];
+  }
+
+  if (fieldType === 'HYPERLINK') {
+    const text = renderSegments(result).trim();
+    const anchorIndex = args.findIndex((arg) => arg === '\\l');
+    if (anchorIndex >= 0) {
+      return [{ markup: formatBookmarkReference(unquote(args[anchorIndex + 1]), text) }];
+    }
+    const url = unquote(args.find((arg) => !arg.startsWith('\\')));
+    return [{ markup: url ? (text ? `\`${text} <${url}>\`_` : `<${url}>`) : text }];
+  }
+
+  return result;
+}
+
+/**
+ * Get the footnote name for a footnote/endnote ID, numbering notes in reference order
+ */
+function getNoteNameFor(kind: string, id: string): string {
+  const key = `${kind}:${id}`;
+  let name = parts.noteNames.get(key);
+  if (!name) {
+    const count = Array.from(parts.noteNames.keys()).filter((k) => k.startsWith(`${kind}:`)).length;
+    name = getNoteName(kind, String(count + 1));
+    parts.noteNames.set(key, name);
+  }
+  return name;
+}
+
+/**
+ * Format the bodies of the referenced footnotes and endnotes
+ */
+function formatNoteBodies(): Map<string, string> {
+  const bodies = new Map<string, string>();
+
+  // Notes can reference other notes, so the list may grow while formatting
+  for (let done = 0; done < parts.noteNames.size; done++) {
+    const [key, name] = Array.from(parts.noteNames.entries())[done];
+    const note = parts.notes.get(key);
+    if (!note) continue;
+
+    const content = childElements(note, 'w:p')
+      .map((p) => escapeLineStarts(formatInlineContent(p).replace(/\s+/g, ' ').trim()))
+      .filter(Boolean)
+      .join('\n\n');
+    bodies.set(name, content);
+  }
+
+  return bodies;
+}
+
+/**
+ * Elements holding runs that are not part of the surrounding text
+ * (text boxes of drawings and deleted or moved-away text)
+ */
+const NON_TEXT_RUN_CONTAINERS = ['w:drawing', 'w:pict', 'mc:AlternateContent', 'w:del', 'w:moveFrom'];
+
+/**
+ * Get the runs of an element's own text, as collectSegments() visits them
+ */
+function getTextRuns(element: Element): Element[] {
+  return Array.from(element.getElementsByTagName('w:r')).filter(
+    (run) => !NON_TEXT_RUN_CONTAINERS.some((tagName) => hasAncestor(run, tagName, element))
+  );
+}
+
+/**
+ * Get the plain text of a paragraph (visible runs only)
+ */
+function getPlainText(element: Element): string {
+  let text = '';
+
+  for (const run of getTextRuns(element)) {
+    if (isOn(childElement(run, 'w:rPr'), 'w:vanish')) {
+      continue;
+    }
+    for (const node of Array.from(run.children)) {
+      if (node.tagName === 'w:t') text += node.textContent || '';
+      else if (node.tagName === 'w:tab') text += ' ';
+      else if (node.tagName === 'w:br' || node.tagName === 'w:cr') text += '\n';
+    }
+  }
+
+  return text;
+}
+
+// ---------------------------------------------------------------------------
+// Block elements
+// ---------------------------------------------------------------------------
+
+/**
+ * Create a heading from a paragraph
+ */
+function createHeading(p: Element, level: number): HeadingElement | null {
+  const text = getPlainText(p).replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return null;
+  }
+
+  return {
+    type: 'heading',
+    level: Math.min(Math.max(level, 1), 6),
+    text: escapeLiteralText(text),
+    style: getParagraphStyle(p)?.name,
+  };
+}
+
+/**
+ * Create a single-item list; consecutive items are joined after parsing
+ */
+function createListItem(content: string, listType: ListElement['listType'], level: number): ListElement | null {
+  const lines = normalizeLineBreaks(content.replace(/[^\S\n]+/g, ' '));
+  if (!lines) {
+    return null;
+  }
+
+  return {
+    type: 'list',
+    listType,
+    items: [{ content: escapeLineStarts(lines), lineBreaks: lines.includes('\n') || undefined, indentLevel: level }],
+  };
+}
+
+/**
+ * Parse a directive paragraph (rst_* style or a style mapped to a directive)
+ */
+function parseDirectiveParagraph(p: Element, styleName: string, mapping?: StyleMapping): DirectiveElement {
+  const content = getPlainText(p);
+  const directive = mapping
+    ? parseDirectiveContent(mapping.directive!, content, mapping)
+    : parseCustomDirective(styleName, content);
+
+  return { type: 'directive', directive, style: styleName };
+}
+
+/**
+ * Get the code style of a paragraph
+ *
+ * @returns Code style info (with the language named by the style, if any),
+ *          or null if the paragraph is not code
+ */
+function getCodeParagraphStyle(p: Element): { language?: string } | null {
+  const style = getParagraphStyle(p);
+
+  // Mapped styles are code only when mapped to a code block
+  const mapping = getStyleMapping(style, 'paragraph');
+  if (mapping) {
+    if (mapping.type !== 'code-block') {
+      return null;
+    }
+    return mapping.language ? { language: normalizeCodeLanguage(mapping.language) || mapping.language } : {};
+  }
+
+  if (getHeadingLevel(p) || getNumbering(p) || getPictureElements(p).length > 0) {
+    return null;
+  }
+  if (style && isRstDirectiveStyle(style.name)) {
+    return null;
+  }
+
+  const styles = (parseOptions.codeParagraphStyles || DEFAULT_CODE_PARAGRAPH_STYLES).map(normalizeStyleName);
+  for (const candidate of style ? [style.name, style.id].map(normalizeStyleName) : []) {
+    for (const codeStyle of styles) {
+      if (candidate === codeStyle) {
+        return {};
+      }
+      // Language suffix: "Code Python"
+      if (candidate.startsWith(codeStyle)) {
+        const language = normalizeCodeLanguage(candidate.slice(codeStyle.length));
+        if (language) {
+          return { language };
+        }
+      }
+    }
+  }
+
+  return isMonospaceParagraph(p) ? {} : null;
+}
+
+/**
+ * Check if all text of a paragraph is set in a monospace font
+ */
+function isMonospaceParagraph(p: Element): boolean {
+  const style = getParagraphStyle(p);
+  const runs = getTextRuns(p).filter((run) =>
+    Array.from(run.children).some((node) => node.tagName === 'w:t')
+  );
+
+  if (runs.length === 0) {
+    // Empty paragraphs count when the paragraph mark is monospace
+    return isMonospaceFont(getFontName(childElement(childElement(p, 'w:pPr'), 'w:rPr')));
+  }
+
+  return runs.every((run) => isMonospaceFont(getRunFont(run, style)));
+}
+
+/**
+ * Parse a code paragraph and the code paragraphs that follow it in the
+ * same language into a single literal block
+ */
+function parseCodeParagraphs(p: Element, context: BlockContext): CodeBlockElement | null {
+  const codeStyle = getCodeParagraphStyle(p) || {};
+  const lines = [p];
+  let next = context.peek();
+  while (next && next.tagName === 'w:p') {
+    const nextStyle = getCodeParagraphStyle(next);
+    if (!nextStyle || nextStyle.language !== codeStyle.language) break;
+    lines.push(context.consume());
+    next = context.peek();
+  }
+
+  const code = lines
+    .map((line) => getCodeText(line))
+    .join('\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/^\n+|\n+$/g, '');
+
+  if (!code.trim()) {
+    return null;
+  }
+
+  let language = codeStyle.language;
+  if (!language && parseOptions.codeLanguageDetection !== false) {
+    language = detectCodeLanguage(code);
+  }
+
+  return {
+    type: 'code-block',
+    code,
+    language,
+    style: getParagraphStyle(p)?.name,
+  };
+}
+
+/**
+ * Get the verbatim text of a code paragraph (tabs kept)
+ */
+function getCodeText(p: Element): string {
+  let text = '';
+
+  for (const run of getTextRuns(p)) {
+    if (isOn(childElement(run, 'w:rPr'), 'w:vanish')) continue;
+    for (const node of Array.from(run.children)) {
+      if (node.tagName === 'w:t') text += (node.textContent || '').replace(/\u00a0/g, ' ');
+      else if (node.tagName === 'w:tab') text += '\t';
+      else if (node.tagName === 'w:br' || node.tagName === 'w:cr') text += '\n';
+    }
+  }
+
+  return text;
+}
+
+/**
+ * Check if a paragraph is a definition term
+ */
+function isDefinitionTerm(p: Element): boolean {
+  if (getHeadingLevel(p) || getNumbering(p)) {
+    return false;
+  }
+
+  if (isStyleNamed(getParagraphStyle(p), DEFINITION_TERM_STYLES)) {
+    return true;
+  }
+
+  // Bold lead paragraphs followed by indented ones
+  const text = getPlainText(p).trim();
+  const runs = Array.from(p.getElementsByTagName('w:r')).filter((run) =>
+    /[^\s:]/.test(Array.from(run.children).filter((n) => n.tagName === 'w:t').map((n) => n.textContent).join(''))
+  );
+  return text.length > 0 && text.length <= 100 && runs.length > 0 &&
+    runs.every((run) => getRunFormat(run, getParagraphStyle(p)).bold);
+}
+
+/**
+ * Check if a block is a definition following a term
+ */
+function isDefinitionBody(block: Element | undefined): block is Element {
+  if (!block || block.tagName !== 'w:p' || getHeadingLevel(block) || getNumbering(block)) {
+    return false;
+  }
+  if (!getPlainText(block).trim() || getPictureElements(block).length > 0) {
+    return false;
+  }
+
+  if (isStyleNamed(getParagraphStyle(block), DEFINITION_STYLES)) {
+    return true;
+  }
+  if (getCodeParagraphStyle(block)) {
+    return false;
+  }
+
+  const indent = childElement(childElement(block, 'w:pPr'), 'w:ind');
+  const left = parseInt(indent?.getAttribute('w:left') || indent?.getAttribute('w:start') || '0');
+  return left > 0 && !isDefinitionTerm(block);
+}
+
+/**
+ * Parse a definition term and its definition paragraphs
+ */
+function parseDefinitionItem(term: Element, bodies: Element[]): DefinitionListElement {
+  let termContent = formatInlineContent(term).trim();
+
+  // Bold-lead terms: drop the bold markup and the trailing colon
+  const boldMatch = termContent.match(/^\*\*(.+)\*\*(:?)$/);
+  if (boldMatch) {
+    termContent = boldMatch[1] + boldMatch[2];
+  }
+  termContent = escapeLineStarts(termContent.replace(/\s*:$/, ''));
+
+  const definition = bodies
+    .map((body) => escapeLineStarts(formatInlineContent(body).trim()))
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    type: 'definition-list',
+    items: [{ term: termContent, definition }],
+    style: getParagraphStyle(term)?.name,
+  };
+}
+
+/**
+ * Check if a paragraph uses a caption style
+ */
+function isCaptionParagraph(p: Element): boolean {
+  const style = getParagraphStyle(p);
+  return !!style && /caption/i.test(style.name);
+}
+
+/**
+ * Map the bookmarks on figure and table captions to the names the figure
+ * or table will get
+ */
+function collectCaptionTargets(blocks: Element[]): void {
+  for (const block of blocks) {
+    if (block.tagName === 'w:p' && isCaptionParagraph(block)) {
+      addCaptionTarget(getPlainText(block).trim(), getBookmarkNames(block));
+    }
+  }
+}
+
+/**
+ * Get the names of the bookmarks that start inside a block
+ */
+function getBookmarkNames(block: Element): string[] {
+  const names: string[] = [];
+  const bookmarks = block.getElementsByTagName('w:bookmarkStart');
+
+  for (let i = 0; i < bookmarks.length; i++) {
+    const name = bookmarks[i].getAttribute('w:name')?.trim();
+    if (name && !names.includes(name) && !IGNORED_BOOKMARKS.includes(name)) {
+      names.push(name);
+    }
+  }
+
+  return names;
+}
+
+// ---------------------------------------------------------------------------
+// Tables of contents
+// ---------------------------------------------------------------------------
+
+/**
+ * Check if a content control holds a table of contents
+ */
+function isTocContentControl(sdt: Element): boolean {
+  const gallery = sdt.getElementsByTagName('w:docPartGallery')[0];
+  return /table of contents/i.test(gallery?.getAttribute('w:val') || '');
+}
+
+/**
+ * Check if a paragraph is a table of contents entry (or holds the TOC field)
+ */
+function isTocParagraph(p: Element): boolean {
+  const style = getParagraphStyle(p);
+  if (style && TOC_STYLE_PATTERN.test(style.name)) {
+    return true;
+  }
+  return /^\s*TOC\b/.test(getFieldInstructions(p).join(' '));
+}
+
+/**
+ * Get the field instructions in a block
+ */
+function getFieldInstructions(block: Element): string[] {
+  const instructions: string[] = [];
+
+  const simple = block.getElementsByTagName('w:fldSimple');
+  for (let i = 0; i < simple.length; i++) {
+    instructions.push(simple[i].getAttribute('w:instr') || '');
+  }
+
+  const text = Array.from(block.getElementsByTagName('w:instrText')).map((node) => node.textContent || '').join('');
+  if (text.trim()) {
+    instructions.push(text.trim());
+  }
+
+  return instructions;
+}
+
+/**
+ * Get contents options from the TOC field of a block
+ */
+function getTocOptions(blocks: Element[]): ContentsOptions {
+  const instruction = blocks
+    .flatMap((block) => getFieldInstructions(block))
+    .find((text) => /^\s*TOC\b/.test(text));
+
+  return instruction ? parseWordTocFieldCode(instruction) : {};
+}
+
+/**
+ * Parse a table of contents content control
+ */
+function parseTocContentControl(sdt: Element): TocElement {
+  const options = getTocOptions([sdt]);
+
+  // The "TOC Heading" paragraph holds the title
+  const content = childElement(sdt, 'w:sdtContent');
+  const titleParagraph = content
+    ? childElements(content, 'w:p').find((p) => /toc\s*heading/i.test(getParagraphStyle(p)?.name || ''))
+    : undefined;
+  const title = titleParagraph ? getPlainText(titleParagraph).trim() : '';
+  if (title && title.toLowerCase() !== 'contents') {
+    options.title = title;
+  }
+
+  return { type: 'toc', options };
+}
+
+/**
+ * Parse a table of contents made of TOC-style paragraphs outside a content control
+ */
+function parseTocParagraphs(p: Element, context: BlockContext): TocElement {
+  const blocks = [p];
+  let next = context.peek();
+  while (next && next.tagName === 'w:p' && isTocParagraph(next)) {
+    blocks.push(context.consume());
+    next = context.peek();
+  }
+
+  return { type: 'toc', options: getTocOptions(blocks) };
+}
+
+// ---------------------------------------------------------------------------
+// Images
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a paragraph holding pictures into image or figure elements
+ */
+function parseImageParagraph(p: Element, context: BlockContext): ParseResult {
+  const drawings = getPictureElements(p);
+
+  if (drawings.length > 1) {
+    return drawings.map((drawing) => createImageElement(drawing, context.images));
+  }
+
+  const image = createImageElement(drawings[0], context.images);
+
+  // A caption paragraph below (other than a table caption) or centering makes a figure
+  const next = context.peek();
+  const captionText = next && next.tagName === 'w:p' && isCaptionParagraph(next) ? getPlainText(next).trim() : '';
+  const isTableCaption = parseCaption(captionText)?.type === 'Table';
+  const centered = getVal(childElement(p, 'w:pPr'), 'w:jc') === 'center';
+
+  if ((captionText && !isTableCaption) || centered) {
+    const figureOptions: FigureOptions = { ...image.options };
+    figureOptions.figname = image.imageData?.id;
+    if (captionText && !isTableCaption) {
+      applyFigureCaption(figureOptions, captionText);
+    }
+
+    const figure: FigureElement = { type: 'figure', options: figureOptions, imageData: image.imageData };
+    return figure;
+  }
+
+  return image;
+}
+
+/**
+ * Create an image element for a drawing and extract its picture
+ */
+function createImageElement(drawing: Element, images: ExtractedImage[]): ImageElement {
+  const imageData = extractImageData(drawing);
+  if (imageData) {
+    images.push(imageData);
+  }
+
+  const options: ImageOptions = { uri: imageData?.filename || '' };
+
+  if (imageData?.altText) {
+    options.alt = imageData.altText;
+  }
+  if (imageData?.width) {
+    options.width = `${imageData.width}px`;
+  }
+  if (imageData?.height) {
+    options.height = `${imageData.height}px`;
+  }
+
+  // Linked picture (Insert > Link on the picture)
+  const link = drawing.getElementsByTagName('a:hlinkClick')[0];
+  const target = link ? parts.relationships.get(link.getAttribute('r:id') || '') : undefined;
+  if (target?.external) {
+    options.target = target.target;
+  }
+
+  return { type: 'image', options, imageData };
+}
+
+/**
+ * Extract the picture of a drawing from its media part, or render its shapes
+ */
+function extractImageData(drawing: Element): ExtractedImage | undefined {
+  const picture = readOoxmlPicture(drawing, parts);
+  if (!picture) {
+    return undefined;
+  }
+  drawingWarnings.push(...(picture.warnings || []));
+
+  const { id, filename } = createImageName(picture.format);
+
+  return {
+    id,
+    filename,
+    base64Data: picture.base64Data,
+    format: picture.format,
+    originalName: picture.partName || undefined,
+    width: picture.width,
+    height: picture.height,
+    altText: picture.altText,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Tables
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a table
+ *
+ * Tables with pictures and no text are layout tables; their pictures
+ * become image elements.
+ */
+function parseTable(tbl: Element, context: BlockContext): TableElement | ImageElement[] | null {
+  if (!getPlainText(tbl).trim()) {
+    const drawings = getPictureElements(tbl);
+    return drawings.length > 0 ? drawings.map((drawing) => createImageElement(drawing, context.images)) : null;
+  }
+
+  const rows: TableRow[] = [];
+  // Cells with a vertical merge in progress, by grid column
+  const merging = new Map<number, TableCell>();
+
+  for (const tr of childElements(tbl, 'w:tr')) {
+    const trPr = childElement(tr, 'w:trPr');
+    const row: TableRow = { cells: [] };
+    if (childElement(trPr, 'w:tblHeader') && isOn(trPr, 'w:tblHeader')) {
+      row.isHeader = true;
+    }
+
+    let column = parseInt(getVal(trPr, 'w:gridBefore') || '0');
+    for (const tc of childElements(tr, 'w:tc')) {
+      const tcPr = childElement(tc, 'w:tcPr');
+      const colspan = parseInt(getVal(tcPr, 'w:gridSpan') || '1');
+      const vMerge = childElement(tcPr, 'w:vMerge');
+
+      // Continuation of a vertically merged cell
+      if (vMerge && vMerge.getAttribute('w:val') !== 'restart') {
+        const origin = merging.get(column);
+        if (origin) {
+          origin.rowspan = (origin.rowspan || 1) + 1;
+        }
+        column += colspan;
+        continue;
+      }
+
+      const cell: TableCell = { content: formatCellContent(tc) };
+      if (colspan > 1) {
+        cell.colspan = colspan;
+      }
+
+      const width = childElement(tcPr, 'w:tcW');
+      if (width?.getAttribute('w:type') === 'dxa') {
+        // Twentieths of a point
+        cell.width = parseInt(width.getAttribute('w:w') || '0') / 20 || undefined;
+      }
+
+      const align = getVal(childElement(childElements(tc, 'w:p')[0] || null, 'w:pPr'), 'w:jc');
+      if (align === 'center' || align === 'right') {
+        cell.align = align;
+      }
+
+      if (vMerge) {
+        merging.set(column, cell);
+      } else {
+        merging.delete(column);
+      }
+
+      row.cells.push(cell);
+      column += colspan;
+    }
+
+    rows.push(row);
+  }
+
+  // Header rows: repeated rows at the top, or a first row that is all bold
+  let headerCount = 0;
+  while (headerCount < rows.length && rows[headerCount].isHeader) {
+    headerCount++;
+  }
+  if (headerCount === 0 && rows.length > 1 && isBoldRow(childElements(tbl, 'w:tr')[0])) {
+    rows[0].isHeader = true;
+    headerCount = 1;
+  }
+  rows.slice(headerCount).forEach((row) => delete row.isHeader);
+
+  const data: TableData = { rows, options: getTableOptions(tbl, headerCount > 0) };
+  const nestedTables = Array.from(tbl.getElementsByTagName('w:tbl'))
+    .filter((nested) => !hasAncestor(nested, 'w:tbl', tbl)).length;
+  if (nestedTables > 0) {
+    data.nestedTables = nestedTables;
+  }
+
+  return { type: 'table', data };
+}
+
+/**
+ * Get the table options from the table properties
+ */
+function getTableOptions(tbl: Element, hasHeader: boolean): TableOptions {
+  const tblPr = childElement(tbl, 'w:tblPr');
+  const options: TableOptions = {};
+
+  if (hasHeader) {
+    options.hasHeader = true;
+  }
+
+  // Relative column widths from the table grid
+  const grid = childElements(childElement(tbl, 'w:tblGrid'), 'w:gridCol')
+    .map((col) => parseInt(col.getAttribute('w:w') || '0'));
+  if (grid.length > 0 && grid.every((width) => width > 0)) {
+    const total = grid.reduce((sum, width) => sum + width, 0);
+    options.widths = grid.map((width) => Math.max(1, Math.round((width / total) * 100)));
+  }
+
+  const align = getVal(tblPr, 'w:jc');
+  if (align === 'center' || align === 'right' || align === 'left') {
+    options.align = align;
+  }
+
+  // Alt text (Table Properties > Alt Text)
+  const title = parseTableAltText(getVal(tblPr, 'w:tblCaption'));
+  const description = parseTableAltText(getVal(tblPr, 'w:tblDescription'));
+  if (title.text) {
+    options.altTitle = title.text;
+  }
+  if (description.text) {
+    options.altDescription = description.text;
+  }
+
+  // Per-table format: table style first, then alt text
+  const styleId = getVal(tblPr, 'w:tblStyle');
+  const styleName = styleId ? parts.styles.get(styleId)?.name || styleId : '';
+  const format = getTableStyleFormat(styleName) || title.format || description.format;
+  if (format) {
+    options.format = format;
+  }
+
+  return options;
+}
+
+/**
+ * Check if all text in a table row is bold
+ */
+function isBoldRow(tr: Element | undefined): boolean {
+  if (!tr) {
+    return false;
+  }
+
+  const runs = getTextRuns(tr).filter((run) =>
+    Array.from(run.children).some((node) => node.tagName === 'w:t' && node.textContent?.trim())
+  );
+  return runs.length > 0 && runs.every((run) => {
+    const p = findAncestor(run, 'w:p', tr);
+    return getRunFormat(run, p ? getParagraphStyle(p) : undefined).bold;
+  });
+}
+
+/**
+ * Format the content of a table cell
+ *
+ * Paragraphs are separated by blank lines, list paragraphs become list
+ * items and lines with hard breaks become line blocks.
+ */
+function formatCellContent(tc: Element): string {
+  const paragraphs: string[] = [];
+  // Consecutive list paragraphs of the same level form one list
+  let listLevel: number | null = null;
+
+  for (const block of getBlockElements(tc)) {
+    if (block.tagName === 'w:tbl') {
+      // Nested tables are not converted; keep the nested table's text
+      // (reported by the table warnings)
+      const text = getPlainText(block).replace(/\s+/g, ' ').trim();
+      if (text) {
+        paragraphs.push(escapeLiteralText(text));
+      }
+      listLevel = null;
+      continue;
+    }
+
+    const lines = normalizeLineBreaks(formatInlineContent(block));
+    if (!lines.trim()) {
+      continue;
+    }
+    const content = escapeLineStarts(lines);
+    const contentLines = lines.includes('\n') ? content.split('\n').map((line) => (line ? `| ${line}` : '|')) : [content];
+
+    const numbering = getNumbering(block);
+    if (numbering) {
+      const marker = numbering.listType === 'ordered' ? '#.' : '-';
+      const indent = '   '.repeat(numbering.level);
+      const item = contentLines
+        .map((line, index) => (index === 0 ? `${indent}${marker} ${line}` : `${indent}${' '.repeat(marker.length + 1)}${line}`))
+        .join('\n');
+
+      if (listLevel === numbering.level) {
+        paragraphs[paragraphs.length - 1] += '\n' + item;
+      } else {
+        paragraphs.push(item);
+      }
+      listLevel = numbering.level;
+      continue;
+    }
+
+    listLevel = null;
+    paragraphs.push(contentLines.join('\n'));
+  }
+
+  return paragraphs.join('\n\n');
+}
@@ -0,0 +1,196 @@
+/**
+ * RST Word Add-in - Element Plugins
+ * Registry of custom element handlers for the parser and formatters
+ *
+ * A plugin recognizes a block element of Word's HTML (e.g., a table laid
+ * out as a "Requirement Box"), parses it into document elements and
+ * formats the elements it produced. Plugins run before or after the
+ * built-in handlers according to their priority, so team-specific
+ * constructs need no changes to the core parser.
+ *
+ * @example
+ * ```typescript
+ * registerElementPlugin<{ id?: string }>({
+ *   name: 'requirement-box',
+ *   priority: BUILT_IN_PRIORITIES.table + 1,
+ *   detect: (element) => element.classList.contains('RequirementBox'),
+ *   parse: (element) => ({
+ *     type: 'plugin',
+ *     plugin: 'requirement-box',
+ *     data: { id: element.querySelector('td')?.textContent?.trim() },
+ *   }),
+ *   format: (element) => `.. req:: ${element.data.id}`,
+ * });
+ * ```
+ */
+
+import { AnyDocumentElement, ExtractedImage, PluginElement } from './types';
+import type { FormatterOptions } from './rst-formatter';
+
+/**
+ * Priorities of the built-in handlers
+ *
+ * Handlers are tried from the highest priority down; the first whose
+ * detector accepts an element parses it.
+ */
+export const BUILT_IN_PRIORITIES = {
+  /** Styles in the styleMap option */
+  styleMap: 1050,
+  /** Runs of code-style paragraphs */
+  codeBlock: 1000,
+  /** Definition term paragraphs with their definitions */
+  definitionTerm: 950,
+  /** Word table of contents */
+  toc: 900,
+  /** rst_* custom directive styles */
+  directive: 800,
+  /** Headings */
+  heading: 700,
+  /** Tables (layout tables become images) */
+  table: 600,
+  /** HTML lists */
+  list: 500,
+  /** HTML definition lists */
+  definitionList: 450,
+  /** HTML figures */
+  figure: 400,
+  /** Paragraphs with images */
+  image: 300,
+  /** Block quotes */
+  blockQuote: 200,
+  /** Caption paragraphs not attached to a figure or table */
+  caption: 150,
+  /** Word list paragraphs */
+  listParagraph: 100,
+  /** Everything else */
+  paragraph: 0,
+} as const;
+
+/**
+ * Priority of plugins that do not set one (ahead of every built-in handler)
+ */
+export const DEFAULT_PLUGIN_PRIORITY = 1100;
+
+/**
+ * Parser state passed to handlers
+ */
+export interface ParseContext {
+  /** Images of the document; handlers add the images they extract */
+  images: ExtractedImage[];
+  /** Get the block element after the current one (and those it consumed) */
+  peek(): HTMLElement | undefined;
+  /** Make the next block element part of the current one */
+  consume(): HTMLElement;
+  /** Format the inline content of an element as RST (emphasis, links, literals) */
+  formatInline(element: HTMLElement): string;
+}
+
+/**
+ * Result of parsing a block element
+ */
+export type ParseResult = AnyDocumentElement | AnyDocumentElement[] | null;
+
+/**
+ * Block element handler
+ */
+export interface ElementHandler {
+  /** Handler name */
+  name: string;
+  /** Order against other handlers (higher first) */
+  priority?: number;
+  /** Check if the handler takes a block element */
+  detect(element: HTMLElement, context: ParseContext): boolean;
+  /** Parse the block element (null drops it) */
+  parse(element: HTMLElement, context: ParseContext): ParseResult;
+}
+
+/**
+ * Element plugin
+ *
+ * The parser may return built-in elements or plugin elements; plugin
+ * elements whose `plugin` is this plugin's name are formatted by it.
+ */
+export interface ElementPlugin<TData = unknown> extends ElementHandler {
+  /** Format a plugin element as RST */
+  format?(element: PluginElement<TData>, options: FormatterOptions): string;
+  /** Format a plugin element as MyST (default: the RST inside an eval-rst directive) */
+  formatMyst?(element: PluginElement<TData>, options: FormatterOptions): string;
+}
+
+/**
+ * Registered plugins, in registration order
+ */
+const registeredPlugins: ElementPlugin[] = [];
+
+/**
+ * Register a plugin for every conversion
+ *
+ * A plugin with the same name replaces the earlier registration.
+ *
+ * @param plugin - Plugin to register; TData types the data of the
+ *   elements it formats
+ */
+export function registerElementPlugin<TData = unknown>(plugin: ElementPlugin<TData>): void {
+  unregisterElementPlugin(plugin.name);
+  registeredPlugins.push(plugin);
+}
+
+/**
+ * Remove a registered plugin
+ *
+ * @param name - Plugin name
+ * @returns True if a plugin was removed
+ */
+export function unregisterElementPlugin(name: string): boolean {
+  const index = registeredPlugins.findIndex((plugin) => plugin.name === name);
+  if (index < 0) {
+    return false;
+  }
+
+  registeredPlugins.splice(index, 1);
+  return true;
+}
+
+/**
+ * Get the plugins for a conversion
+ *
+ * @param plugins - Plugins passed in the conversion options; they replace
+ *   registered plugins with the same name
+ * @returns Registered plugins followed by the passed ones
+ */
+export function getElementPlugins(plugins: ElementPlugin[] = []): ElementPlugin[] {
+  const names = new Set(plugins.map((plugin) => plugin.name));
+  return [...registeredPlugins.filter((plugin) => !names.has(plugin.name)), ...plugins];
+}
+
+/**
+ * Order handlers by priority
+ *
+ * Plugins come before built-in handlers of the same priority.
+ *
+ * @param plugins - Plugin handlers
+ * @param builtIn - Built-in handlers
+ * @returns Handlers in the order they are tried
+ */
+export function sortElementHandlers(plugins: ElementHandler[], builtIn: ElementHandler[]): ElementHandler[] {
+  const handlers = [...plugins, ...builtIn];
+  const priority = (handler: ElementHandler) =>
+    handler.priority ?? (plugins.includes(handler) ? DEFAULT_PLUGIN_PRIORITY : 0);
+
+  // Array.prototype.sort is stable, so ties keep plugins first
+  return handlers.sort((a, b) => priority(b) - priority(a));
+}
+
+/**
+ * Find the plugin that formats an element
+ *
+ * @param element - Plugin element
+ * @param plugins - Plugins of the conversion
+ * @returns Plugin or undefined if none has the element's name
+ */
+export function findElementPlugin(
+  element: PluginElement,
+  plugins: ElementPlugin[] = []
+): ElementPlugin | undefined {
+  return getElementPlugins(plugins).find((plugin) => plugin.name === element.plugin);
+}
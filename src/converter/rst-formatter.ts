@@ -16,11 +16,16 @@ import {
   ParagraphElement,
   ListElement,
   FieldListElement,
+  DefinitionListElement,
+  CodeBlockElement,
   ImageElement,
   FigureElement,
   TableElement,
   TocElement,
   DirectiveElement,
+  FootnoteElement,
+  PluginElement,
+  TableFormat,
 } from './types';
 
 import {
@@ -31,34 +36,80 @@ import {
   generateCustomDirective,
 } from './directives';
 
+import { ElementPlugin, findElementPlugin } from './plugins';
+import { escapeLiteralText } from '../utils/rst-escape';
+import { normalizeLabel, prefixLabel, uniqueLabel } from '../utils/labels';
+
 /**
  * RST heading characters in order of precedence
  * Different characters create different heading levels
  */
 const HEADING_CHARS = ['=', '-', '~', '^', '"', "'"];
 
+/**
+ * Adornment for one heading level
+ */
+export interface HeadingStyle {
+  /** Underline (and overline) character */
+  char: string;
+  /** Also draw an overline */
+  overline?: boolean;
+}
+
+/**
+ * Python documentation convention: # parts, * chapters, then = - ^ "
+ * @see https://devguide.python.org/documentation/markup/#sections
+ */
+export const PYTHON_HEADING_STYLES: HeadingStyle[] = [
+  { char: '#', overline: true },
+  { char: '*', overline: true },
+  { char: '=' },
+  { char: '-' },
+  { char: '^' },
+  { char: '"' },
+];
+
 /**
  * Formatter options
  */
 export interface FormatterOptions {
   /** Number of columns for line wrapping (0 = no wrap) */
   lineWidth: number;
-  /** Use overline for title (level 1) */
+  /** Use overline for title (level 1); only used with the default heading styles */
   titleOverline: boolean;
+  /** Adornment per heading level (index 0 = level 1); deeper levels reuse the last entry */
+  headingStyles?: HeadingStyle[];
+  /** Number of levels to move every heading down (negative moves up) */
+  headingLevelShift: number;
+  /** Level the document's top heading should get; overrides headingLevelShift (0 = off) */
+  headingStartLevel: number;
   /** Indent size for directive content */
   indentSize: number;
   /** Image directory path prefix */
   imageDir: string;
+  /** Emit a label before every heading (its bookmark label, or a slug of its text) */
+  headingLabels: boolean;
+  /** Prefix for generated heading labels, e.g. the document name */
+  labelPrefix: string;
+  /** Table output style; tables can override it in Word */
+  tableFormat: TableFormat;
+  /** Element plugins, in addition to those registered with registerElementPlugin() */
+  plugins?: ElementPlugin[];
 }
 
 /**
  * Default formatter options
  */
-const DEFAULT_OPTIONS: FormatterOptions = {
+export const DEFAULT_FORMATTER_OPTIONS: FormatterOptions = {
   lineWidth: 0, // No wrapping by default
   titleOverline: true,
   indentSize: 3,
   imageDir: 'images/',
+  headingLabels: false,
+  labelPrefix: '',
+  headingLevelShift: 0,
+  headingStartLevel: 0,
+  tableFormat: 'grid',
 };
 
 /**
@@ -72,8 +123,21 @@ export function formatElement(
   element: AnyDocumentElement,
   options: Partial<FormatterOptions> = {}
 ): string {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const opts = { ...DEFAULT_FORMATTER_OPTIONS, ...options };
+  const formatted = formatElementContent(element, opts);
+
+  // Reference labels go directly before the element they name
+  if (formatted && element.labels && element.labels.length > 0) {
+    return [...element.labels.map(createLabel), '', formatted].join('\n');
+  }
+
+  return formatted;
+}
 
+/**
+ * Format the element itself, without its labels
+ */
+function formatElementContent(element: AnyDocumentElement, opts: FormatterOptions): string {
   switch (element.type) {
     case 'heading':
       return formatHeading(element as HeadingElement, opts);
@@ -83,6 +147,10 @@ export function formatElement(
       return formatList(element as ListElement, opts);
     case 'field-list':
       return formatFieldList(element as FieldListElement);
+    case 'definition-list':
+      return formatDefinitionList(element as DefinitionListElement, opts);
+    case 'code-block':
+      return formatCodeBlock((element as CodeBlockElement).code, (element as CodeBlockElement).language);
     case 'image':
       return formatImage(element as ImageElement, opts);
     case 'figure':
@@ -93,6 +161,10 @@ export function formatElement(
       return formatToc(element as TocElement, opts);
     case 'directive':
       return formatDirective(element as DirectiveElement, opts);
+    case 'footnote':
+      return formatFootnote(element as FootnoteElement, opts);
+    case 'plugin':
+      return formatPluginElement(element as PluginElement, opts);
     default:
       return '';
   }
@@ -109,20 +181,92 @@ export function formatDocument(
   elements: AnyDocumentElement[],
   options: Partial<FormatterOptions> = {}
 ): string {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
-  const parts: string[] = [];
+  return formatDocumentParts([elements], options)[0];
+}
+
+/**
+ * Format a document that is split into several files
+ *
+ * Heading level shifts and generated labels are computed over all parts,
+ * so every file uses the same heading levels and labels stay unique.
+ *
+ * @param parts - Elements of each file
+ * @param options - Formatter options
+ * @returns RST content of each file
+ */
+export function formatDocumentParts(
+  parts: AnyDocumentElement[][],
+  options: Partial<FormatterOptions> = {}
+): string[] {
+  const { elements: labeled, options: opts } = prepareDocument(parts.flat(), options);
+  let offset = 0;
 
-  for (let i = 0; i < elements.length; i++) {
-    const element = elements[i];
-    const formatted = formatElement(element, opts);
+  return parts.map((part) => {
+    const formatted: string[] = [];
 
-    if (formatted) {
-      parts.push(formatted);
+    for (const element of labeled.slice(offset, offset + part.length)) {
+      const rst = formatElement(element, opts);
+      if (rst) {
+        formatted.push(rst);
+      }
+    }
+    offset += part.length;
+
+    // Join with appropriate spacing
+    return joinWithSpacing(formatted);
+  });
+}
+
+/**
+ * Resolve document-wide formatter settings
+ *
+ * Computes the heading level shift for headingStartLevel and adds the
+ * generated heading labels. Every output format uses this, so headings
+ * get the same levels and labels in RST and MyST.
+ *
+ * @param elements - All elements of the document
+ * @param options - Formatter options
+ * @returns Elements with heading labels and the complete options
+ */
+export function prepareDocument(
+  elements: AnyDocumentElement[],
+  options: Partial<FormatterOptions> = {}
+): { elements: AnyDocumentElement[]; options: FormatterOptions } {
+  const opts = { ...DEFAULT_FORMATTER_OPTIONS, ...options };
+
+  // Start level is relative to the document's top heading
+  if (opts.headingStartLevel > 0) {
+    const levels = elements.filter((el): el is HeadingElement => el.type === 'heading').map((el) => el.level);
+    if (levels.length > 0) {
+      opts.headingLevelShift = opts.headingStartLevel - Math.min(...levels);
     }
   }
 
-  // Join with appropriate spacing
-  return joinWithSpacing(parts);
+  return {
+    elements: opts.headingLabels ? addHeadingLabels(elements, opts.labelPrefix) : elements,
+    options: opts,
+  };
+}
+
+/**
+ * Give every heading without a label one made from its text
+ *
+ * Headings that already carry a label (from a Word bookmark) keep it.
+ * Slugs are de-duplicated across the document ("setup", "setup-2").
+ *
+ * @returns Elements with labelled copies of the headings
+ */
+function addHeadingLabels(elements: AnyDocumentElement[], prefix: string): AnyDocumentElement[] {
+  const used = new Set(elements.flatMap((element) => element.labels || []));
+
+  return elements.map((element) => {
+    if (element.type !== 'heading' || (element.labels && element.labels.length > 0)) {
+      return element;
+    }
+
+    const slug = normalizeLabel(element.text) || 'section';
+    return { ...element, labels: [uniqueLabel(prefixLabel(slug, prefix), used)] };
+  });
 }
 
 /**
@@ -136,7 +280,8 @@ function joinWithSpacing(parts: string[]): string {
   const result: string[] = [];
 
   for (let i = 0; i < parts.length; i++) {
-    const part = parts[i].trim();
+    // Keep the first line's indentation (block quotes)
+    const part = parts[i].replace(/^(\s*\n)+/, '').trimEnd();
     if (!part) continue;
 
     if (i > 0) {
@@ -155,21 +300,22 @@ function joinWithSpacing(parts: string[]): string {
  *
  * RST heading levels are indicated by underlines (and optional overlines):
  * - Level 1 (title): = with overline
- * - Level 2: = underline only
- * - Level 3: - underline only
- * - Level 4: ~ underline only
+ * - Level 2: - underline only
+ * - Level 3: ~ underline only
  * - etc.
+ *
+ * The scheme can be replaced with headingStyles, and levels moved with
+ * headingLevelShift / headingStartLevel.
  */
 function formatHeading(element: HeadingElement, options: FormatterOptions): string {
-  const { level, text } = element;
-  const charIndex = Math.min(level - 1, HEADING_CHARS.length - 1);
-  const underlineChar = HEADING_CHARS[charIndex];
-  const underline = underlineChar.repeat(getTextWidth(text));
+  const { text } = element;
+  const level = Math.max(element.level + (options.headingLevelShift || 0), 1);
+  const style = getHeadingStyle(level, options);
+  const underline = style.char.charAt(0).repeat(getTextWidth(text));
 
   const lines: string[] = [];
 
-  // Add overline for title (level 1) if enabled
-  if (level === 1 && options.titleOverline) {
+  if (style.overline) {
     lines.push(underline);
   }
 
@@ -179,14 +325,31 @@ function formatHeading(element: HeadingElement, options: FormatterOptions): stri
   return lines.join('\n');
 }
 
+/**
+ * Get the adornment for a heading level
+ *
+ * Without headingStyles, levels use HEADING_CHARS with an overline on the
+ * title when titleOverline is set.
+ */
+function getHeadingStyle(level: number, options: FormatterOptions): HeadingStyle {
+  const styles = options.headingStyles && options.headingStyles.length > 0
+    ? options.headingStyles
+    : HEADING_CHARS.map((char, index) => ({ char, overline: index === 0 && options.titleOverline }));
+
+  return styles[Math.min(level, styles.length) - 1];
+}
+
 /**
  * Format paragraph element
  */
 function formatParagraph(element: ParagraphElement, options: FormatterOptions): string {
   let content = element.content;
 
-  // Apply line wrapping if configured
-  if (options.lineWidth > 0) {
+  if (element.lineBreaks) {
+    // Hard line breaks (Shift+Enter) become a line block
+    content = formatLineBlock(content, options.lineWidth).join('\n');
+  } else if (options.lineWidth > 0) {
+    // Apply line wrapping if configured
     content = wrapText(content, options.lineWidth);
   }
 
@@ -198,6 +361,32 @@ function formatParagraph(element: ParagraphElement, options: FormatterOptions):
   return content;
 }
 
+/**
+ * Format lines separated by hard line breaks as an RST line block
+ *
+ * Each line starts with "| "; with wrapping, long lines continue on lines
+ * indented by two spaces.
+ *
+ * @param text - Content with lines separated by \n
+ * @param width - Line width for wrapping (0 = no wrap)
+ * @returns Line block lines
+ */
+function formatLineBlock(text: string, width: number): string[] {
+  const lines: string[] = [];
+
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      lines.push('|');
+      continue;
+    }
+
+    const wrapped = width > 2 ? wrapText(line.trim(), width - 2).split('\n') : [line.trim()];
+    lines.push(`| ${wrapped[0]}`, ...wrapped.slice(1).map((part) => `  ${part}`));
+  }
+
+  return lines;
+}
+
 /**
  * Format list element
  */
@@ -215,11 +404,13 @@ function formatList(element: ListElement, options: FormatterOptions, depth: numb
 
     // First line with marker
     const firstLine = `${indent}${marker} ${item.content}`;
+    const contentWidth = options.lineWidth > 0 ? options.lineWidth - indent.length - marker.length - 1 : 0;
 
-    // Apply wrapping if configured
-    if (options.lineWidth > 0) {
-      const wrappedContent = wrapText(item.content, options.lineWidth - indent.length - marker.length - 1);
-      const contentLines = wrappedContent.split('\n');
+    // Apply wrapping if configured; hard line breaks become a line block
+    if (options.lineWidth > 0 || item.lineBreaks) {
+      const contentLines = item.lineBreaks
+        ? formatLineBlock(item.content, contentWidth)
+        : wrapText(item.content, contentWidth).split('\n');
       lines.push(`${indent}${marker} ${contentLines[0]}`);
 
       // Continuation lines need extra indent (align with content after marker)
@@ -249,6 +440,24 @@ function formatFieldList(element: FieldListElement): string {
     .join('\n');
 }
 
+/**
+ * Format definition list element
+ */
+function formatDefinitionList(element: DefinitionListElement, options: FormatterOptions): string {
+  return element.items
+    .map((item) => {
+      let definition = item.definition;
+      if (options.lineWidth > 0) {
+        definition = definition
+          .split('\n\n')
+          .map((para) => wrapText(para, options.lineWidth - 3))
+          .join('\n\n');
+      }
+      return formatDefinition(item.term, definition);
+    })
+    .join('\n\n');
+}
+
 /**
  * Format image element using image directive
  */
@@ -280,8 +489,8 @@ function formatFigure(element: FigureElement, _options: FormatterOptions): strin
 /**
  * Format table element using table directive
  */
-function formatTable(element: TableElement, _options: FormatterOptions): string {
-  return generateTableDirective(element.data);
+function formatTable(element: TableElement, options: FormatterOptions): string {
+  return generateTableDirective(element.data, options.tableFormat);
 }
 
 /**
@@ -298,6 +507,44 @@ function formatDirective(element: DirectiveElement, _options: FormatterOptions):
   return generateCustomDirective(element.directive);
 }
 
+/**
+ * Format footnote element as an auto-numbered footnote
+ *
+ * Continuation lines are indented to the directive content level.
+ */
+function formatFootnote(element: FootnoteElement, options: FormatterOptions): string {
+  const label = `.. [#${element.name}]`;
+  if (!element.content) {
+    return label;
+  }
+
+  let content = element.content;
+  if (options.lineWidth > 0) {
+    content = content
+      .split('\n\n')
+      .map((para) => wrapText(para, options.lineWidth - options.indentSize))
+      .join('\n\n');
+  }
+
+  const [first, ...rest] = content.split('\n');
+  const lines = [`${label} ${first}`];
+  if (rest.length > 0) {
+    lines.push(indentText(rest.join('\n'), options.indentSize));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format an element produced by a plugin
+ *
+ * Elements without a plugin that formats them produce no output.
+ */
+function formatPluginElement(element: PluginElement, options: FormatterOptions): string {
+  const plugin = findElementPlugin(element, options.plugins);
+  return plugin?.format ? plugin.format(element, options) : '';
+}
+
 /**
  * Get display width of text (handles some Unicode)
  */
@@ -349,38 +596,19 @@ function indentText(text: string, spaces: number): string {
 
 /**
  * Escape special RST characters in text
+ *
+ * Only characters that docutils would recognize as markup in their
+ * position are escaped (see utils/rst-escape).
  */
 export function escapeRstText(text: string): string {
-  // Characters that need escaping in certain contexts
-  const specialChars = ['*', '`', '|', '_'];
-
-  let result = text;
-
-  // Escape backslashes first
-  result = result.replace(/\\/g, '\\\\');
-
-  // Escape special chars at word boundaries (simplified approach)
-  for (const char of specialChars) {
-    const regex = new RegExp(`(^|\\s)\\${char}|\\${char}($|\\s)`, 'g');
-    result = result.replace(regex, (match) => {
-      return match.replace(char, '\\' + char);
-    });
-  }
-
-  return result;
+  return escapeLiteralText(text);
 }
 
 /**
  * Create an RST reference/label
  */
 export function createLabel(name: string): string {
-  // Normalize to valid label format
-  const normalized = name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-+|-+$/g, '');
-
-  return `.. _${normalized}:`;
+  return `.. _${normalizeLabel(name)}:`;
 }
 
 /**
@@ -454,10 +682,10 @@ export function formatCodeBlock(code: string, language?: string): string {
 
   lines.push('');
 
-  // Indent code
+  // Indent code (blank lines stay empty so no trailing whitespace is emitted)
   const codeLines = code.split('\n');
   for (const line of codeLines) {
-    lines.push('   ' + line);
+    lines.push(line ? '   ' + line : '');
   }
 
   return lines.join('\n');
@@ -475,6 +703,6 @@ export function formatField(name: string, value: string): string {
  */
 export function formatDefinition(term: string, definition: string): string {
   const defLines = definition.split('\n');
-  const indented = defLines.map((line) => '   ' + line).join('\n');
+  const indented = defLines.map((line) => (line ? '   ' + line : '')).join('\n');
   return `${term}\n${indented}`;
 }
@@ -0,0 +1,75 @@
+/**
+ * RST Word Add-in - Document Splitting
+ * Splits a document into one file per section for Sphinx projects
+ *
+ * Sections start at headings of the chosen level (or above). The index
+ * file keeps the document title and everything before the first section;
+ * the caller adds a toctree that lists the section files.
+ */
+
+import { AnyDocumentElement, HeadingElement } from './types';
+import { unescapeText } from '../utils/rst-escape';
+import { normalizeLabel, uniqueLabel } from '../utils/labels';
+
+/**
+ * Section written to its own file
+ */
+export interface DocumentSection {
+  /** File name without extension (slug of the heading text) */
+  name: string;
+  /** Heading text (RST inline markup) */
+  title: string;
+  /** Elements of the section, starting with its heading */
+  elements: AnyDocumentElement[];
+}
+
+/**
+ * Document split into an index and sections
+ */
+export interface SplitDocument {
+  /** Elements of the index file */
+  index: AnyDocumentElement[];
+  /** Sections in document order */
+  sections: DocumentSection[];
+}
+
+/**
+ * Split a document at headings of the given level
+ *
+ * A first heading above the split level is the document title and stays
+ * in the index. Word tables of contents are dropped, since the toctree
+ * replaces them.
+ *
+ * @param elements - Document elements (with Word's heading levels)
+ * @param level - Heading level that starts a new file
+ * @returns Index elements and sections
+ */
+export function splitDocument(elements: AnyDocumentElement[], level: number): SplitDocument {
+  const index: AnyDocumentElement[] = [];
+  const sections: DocumentSection[] = [];
+  const usedNames = new Set(['index']);
+  let current: AnyDocumentElement[] = index;
+  let titleSeen = false;
+
+  for (const element of elements) {
+    if (element.type === 'toc') {
+      continue;
+    }
+
+    if (element.type === 'heading') {
+      const heading = element as HeadingElement;
+      const isTitle = !titleSeen && sections.length === 0 && heading.level < level;
+      titleSeen = true;
+
+      if (!isTitle && heading.level <= level) {
+        const slug = normalizeLabel(unescapeText(heading.text)) || `section-${sections.length + 1}`;
+        current = [];
+        sections.push({ name: uniqueLabel(slug, usedNames), title: heading.text, elements: current });
+      }
+    }
+
+    current.push(element);
+  }
+
+  return { index, sections };
+}
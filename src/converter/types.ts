@@ -49,6 +49,16 @@ export interface FigureOptions extends ImageOptions {
   figureNumber?: string;
 }
 
+/**
+ * RST table output style
+ * - grid: grid table (supports merged cells and multi-line content)
+ * - simple: simple table (single-line cells, no merged cells)
+ * - list-table: list-table directive
+ * - csv-table: csv-table directive (single-line cells)
+ * - auto: simplest format that represents the table
+ */
+export type TableFormat = 'grid' | 'simple' | 'list-table' | 'csv-table' | 'auto';
+
 /**
  * RST table directive options
  * @see https://docutils.sourceforge.io/docs/ref/rst/directives.html#table
@@ -70,6 +80,12 @@ export interface TableOptions {
   name?: string;
   /** Whether first row is a header */
   hasHeader?: boolean;
+  /** Output style chosen for this table in Word (overrides the document setting) */
+  format?: TableFormat;
+  /** Alt text title from Word's table properties */
+  altTitle?: string;
+  /** Alt text description from Word's table properties */
+  altDescription?: string;
 }
 
 /**
@@ -84,6 +100,8 @@ export interface TableCell {
   rowspan?: number;
   /** Cell alignment */
   align?: 'left' | 'center' | 'right';
+  /** Cell width in points, from the Word markup */
+  width?: number;
 }
 
 /**
@@ -104,6 +122,25 @@ export interface TableData {
   rows: TableRow[];
   /** Table options */
   options: TableOptions;
+  /** Tables nested in cells, whose text was kept without the table */
+  nestedTables?: number;
+}
+
+/**
+ * Sphinx toctree directive options
+ * @see https://www.sphinx-doc.org/en/master/usage/restructuredtext/directives.html#directive-toctree
+ */
+export interface ToctreeOptions {
+  /** Document names (file names without .rst) */
+  entries: string[];
+  /** Caption shown above the tree */
+  caption?: string;
+  /** Maximum heading depth shown */
+  maxdepth?: number;
+  /** Number the sections */
+  numbered?: boolean;
+  /** Only show the tree in the navigation, not in the page */
+  hidden?: boolean;
 }
 
 /**
@@ -137,6 +174,42 @@ export interface CustomDirective {
   content: string;
 }
 
+/**
+ * What a mapped Word style becomes
+ * - directive: paragraph becomes a directive (content as for rst_* styles)
+ * - role: character style run becomes an interpreted text role
+ * - heading: paragraph becomes a heading
+ * - code-block: consecutive paragraphs become a literal block
+ * - drop: paragraph or run is left out
+ */
+export type StyleMappingType = 'directive' | 'role' | 'heading' | 'code-block' | 'drop';
+
+/**
+ * Mapping of Word style names to output
+ *
+ * Style names are compared ignoring case, spaces, "-" and "_", so "Warning
+ * Box" also matches the "WarningBox" class Word emits. "*" matches any
+ * run of characters and "?" a single one ("Note*" matches "Note Text").
+ */
+export interface StyleMapping {
+  /** Word paragraph or character style name, may contain wildcards */
+  style: string;
+  /** What the style becomes */
+  type: StyleMappingType;
+  /** Directive name (type 'directive') */
+  directive?: string;
+  /** Default directive argument, used when the paragraph has no [argument] line */
+  argument?: string;
+  /** Default directive options; :name: lines in the paragraph override them */
+  options?: Record<string, string>;
+  /** Role name (type 'role'), e.g. "kbd", "term" or "need" */
+  role?: string;
+  /** Heading level 1-6 (type 'heading') */
+  level?: number;
+  /** Code block language (type 'code-block') */
+  language?: string;
+}
+
 /**
  * Parsed caption from Word
  */
@@ -165,9 +238,9 @@ export interface ExtractedImage {
   format: string;
   /** Original filename if available */
   originalName?: string;
-  /** Original width in pixels */
+  /** Width in pixels (original, or as displayed in the document) */
   width?: number;
-  /** Original height in pixels */
+  /** Height in pixels (original, or as displayed in the document) */
   height?: number;
   /** Alt text from Word */
   altText?: string;
@@ -185,6 +258,45 @@ export interface FieldListItem {
   value: string;
 }
 
+/**
+ * Definition list item
+ */
+export interface DefinitionListItem {
+  /** Term being defined (may contain inline formatting) */
+  term: string;
+  /** Definition content (paragraphs separated by blank lines) */
+  definition: string;
+}
+
+/**
+ * Output markup language
+ * - rst: reStructuredText
+ * - myst: MyST Markdown (CommonMark with Sphinx directives and roles)
+ */
+export type OutputFormat = 'rst' | 'myst';
+
+/**
+ * Representation of the Word document the converter parses
+ * - html: body.getHtml() (with the OOXML package for note text, if given)
+ * - ooxml: body.getOoxml() (styles, numbering and fields read directly)
+ */
+export type DocumentSource = 'html' | 'ooxml';
+
+/**
+ * How exported image files are named
+ * - sequential: image_001.png, image_002.png, ... in document order
+ * - content-hash: a hash of the image data (stable when other images change)
+ * - caption: a slug of the figure caption or alt text (sequential without one)
+ */
+export type ImageNamingStrategy = 'sequential' | 'content-hash' | 'caption';
+
+/**
+ * Format EMF and WMF images are converted to
+ * - svg: vector drawing (text stays text)
+ * - png: bitmap at the displayed size (needs a canvas, so async export only)
+ */
+export type MetafileFormat = 'svg' | 'png';
+
 /**
  * Document element types for conversion
  */
@@ -193,11 +305,15 @@ export type DocumentElementType =
   | 'heading'
   | 'list'
   | 'field-list'
+  | 'definition-list'
+  | 'code-block'
   | 'table'
   | 'image'
   | 'figure'
   | 'toc'
   | 'directive'
+  | 'footnote'
+  | 'plugin'
   | 'unknown';
 
 /**
@@ -209,6 +325,8 @@ export interface DocumentElement {
   html?: string;
   /** Word style name if applicable */
   style?: string;
+  /** Reference labels emitted as ".. _label:" before the element */
+  labels?: string[];
 }
 
 /**
@@ -231,6 +349,8 @@ export interface ParagraphElement extends DocumentElement {
   content: string;
   /** Whether paragraph is a block quote */
   isBlockQuote?: boolean;
+  /** Whether content lines (separated by \n) are hard line breaks */
+  lineBreaks?: boolean;
 }
 
 /**
@@ -250,6 +370,8 @@ export interface ListElement extends DocumentElement {
 export interface ListItem {
   /** Item content */
   content: string;
+  /** Whether content lines (separated by \n) are hard line breaks */
+  lineBreaks?: boolean;
   /** Nested list if any */
   nestedList?: ListElement;
   /** Indent level (0 = top level, used during parsing) */
@@ -314,6 +436,50 @@ export interface FieldListElement extends DocumentElement {
   fields: FieldListItem[];
 }
 
+/**
+ * Definition list element
+ */
+export interface DefinitionListElement extends DocumentElement {
+  type: 'definition-list';
+  /** Terms and their definitions */
+  items: DefinitionListItem[];
+}
+
+/**
+ * Code block element (literal block with optional language)
+ */
+export interface CodeBlockElement extends DocumentElement {
+  type: 'code-block';
+  /** Code text, verbatim (lines separated by \n) */
+  code: string;
+  /** Pygments language name for .. code-block:: (omitted for a plain :: block) */
+  language?: string;
+}
+
+/**
+ * Footnote element (from Word footnotes and endnotes)
+ */
+export interface FootnoteElement extends DocumentElement {
+  type: 'footnote';
+  /** Footnote label, referenced inline as [#name]_ */
+  name: string;
+  /** Footnote body content (may contain inline formatting) */
+  content: string;
+  /** Whether this came from a Word footnote or endnote */
+  noteType: 'footnote' | 'endnote';
+}
+
+/**
+ * Element produced by an element plugin
+ */
+export interface PluginElement<TData = unknown> extends DocumentElement {
+  type: 'plugin';
+  /** Name of the plugin that formats the element */
+  plugin: string;
+  /** Plugin-specific data */
+  data: TData;
+}
+
 /**
  * Utility type for all document elements
  */
@@ -322,8 +488,12 @@ export type AnyDocumentElement =
   | ParagraphElement
   | ListElement
   | FieldListElement
+  | DefinitionListElement
+  | CodeBlockElement
   | ImageElement
   | FigureElement
   | TableElement
   | TocElement
-  | DirectiveElement;
+  | DirectiveElement
+  | FootnoteElement
+  | PluginElement;
@@ -6,27 +6,79 @@
  * It coordinates the HTML parsing and RST formatting pipeline.
  */
 
-import { parseWordHtml, ParsedDocument, DocumentMetadata } from './html-parser';
-import { formatDocument, FormatterOptions } from './rst-formatter';
-import { ExtractedImage, AnyDocumentElement } from './types';
+import { parseWordHtml, ParsedDocument, DocumentMetadata, ParserOptions } from './html-parser';
+import { parseOoxmlDocument } from './ooxml-parser';
+import { formatDocument, formatDocumentParts, FormatterOptions } from './rst-formatter';
+import { formatMystDocument, formatMystDocumentParts, resolveMystTableFormat, convertRstDirective } from './myst-formatter';
+import {
+  ExtractedImage,
+  AnyDocumentElement,
+  HeadingElement,
+  TableElement,
+  TableFormat,
+  OutputFormat,
+  DocumentSource,
+  ImageNamingStrategy,
+  MetafileFormat,
+  PluginElement,
+} from './types';
+import { resolveTableFormat, generateToctreeDirective } from './directives';
+import { splitDocument } from './split';
+import { nameImages } from './image-naming';
+import { convertMetafiles } from './metafiles';
+import { ElementPlugin, findElementPlugin } from './plugins';
+import { checkHeadingHierarchy, normalizeHeadingLevels, HeadingIssue, HeadingHierarchyMode } from './headings';
+import { extractNotesFromOoxml, extractOoxmlPictures, matchOoxmlPictures } from '../utils/ooxml';
+import { escapeLiteralText } from '../utils/rst-escape';
+import { validateStyleMap } from '../utils/style-map';
 
 /**
  * Conversion options
  */
-export interface ConversionOptions extends Partial<FormatterOptions> {
+export interface ConversionOptions extends Partial<FormatterOptions>, ParserOptions {
+  /** Markup language of the output (default: 'rst') */
+  outputFormat?: OutputFormat;
   /** Include document metadata as field list */
   includeMetadata?: boolean;
   /** Add generation comment at top */
   addGeneratedComment?: boolean;
   /** Image directory path */
   imageDirectory?: string;
+  /** How image files are named; identical images always share a file (default: 'sequential') */
+  imageNaming?: ImageNamingStrategy;
+  /** Format EMF and WMF images are converted to (default: 'svg') */
+  metafileFormat?: MetafileFormat;
+  /** OOXML package from body.getOoxml() (source of footnote/endnote text and image data) */
+  ooxml?: string;
+  /** Document representation to parse (default: 'html'; 'ooxml' needs the ooxml option) */
+  source?: DocumentSource;
+  /** How skipped heading levels and extra Heading 1s are handled (default: 'normalize') */
+  headingHierarchy?: HeadingHierarchyMode;
+  /** Normalization demotes every heading after the first Heading 1 (default: false) */
+  singleTitle?: boolean;
+  /** Write each section at this heading level to its own file (0 = single document) */
+  splitLevel?: number;
+  /** :maxdepth: of the index toctree in split mode (default: 2) */
+  toctreeMaxDepth?: number;
+  /** Number the sections in the index toctree */
+  toctreeNumbered?: boolean;
+}
+
+/**
+ * File of a split document
+ */
+export interface OutputFile {
+  /** File path (e.g., "index.rst", "installation.md") */
+  path: string;
+  /** RST or MyST content */
+  content: string;
 }
 
 /**
  * Conversion result
  */
 export interface ConversionResult {
-  /** Generated RST content */
+  /** Generated content (MyST Markdown when outputFormat is 'myst') */
   rst: string;
   /** Extracted images */
   images: ExtractedImage[];
@@ -34,26 +86,45 @@ export interface ConversionResult {
   metadata: DocumentMetadata;
   /** Any warnings during conversion */
   warnings: string[];
+  /** Heading hierarchy problems (fixed in 'normalize' mode) */
+  headingIssues: HeadingIssue[];
+  /** Files of a split document, the index first (only with splitLevel) */
+  files?: OutputFile[];
   /** Parsed document elements (for debugging) */
   elements?: AnyDocumentElement[];
 }
 
+/**
+ * Title of the index file of a split document without a title
+ */
+const DEFAULT_INDEX_TITLE = 'Contents';
+
 /**
  * Default conversion options
  */
 const DEFAULT_CONVERSION_OPTIONS: ConversionOptions = {
+  outputFormat: 'rst',
+  source: 'html',
   includeMetadata: false,
   addGeneratedComment: false,
   imageDirectory: 'images/',
+  imageNaming: 'sequential',
+  metafileFormat: 'svg',
   lineWidth: 0,
   titleOverline: true,
   indentSize: 3,
+  headingHierarchy: 'normalize',
+  singleTitle: false,
+  tableFormat: 'grid',
+  splitLevel: 0,
+  toctreeMaxDepth: 2,
+  toctreeNumbered: false,
 };
 
 /**
  * Convert Word HTML to RST
  *
- * @param html - HTML content from Word's getHtml() method
+ * @param html - HTML content from Word's getHtml() method (unused with source 'ooxml')
  * @param options - Conversion options
  * @returns Conversion result with RST, images, and metadata
  *
@@ -84,56 +155,219 @@ export function convertToRst(
   const opts = { ...DEFAULT_CONVERSION_OPTIONS, ...options };
   const warnings: string[] = [];
 
-  // Parse HTML into document elements
+  const parsed = parseDocument(html, opts, warnings);
+  if (!parsed) {
+    return createEmptyResult(warnings);
+  }
+
+  const metafiles = convertMetafiles(parsed.images);
+  warnings.push(...metafiles.warnings);
+
+  // Rasterizing needs a canvas, which only the async conversion uses
+  if (metafiles.images.length > 0 && opts.metafileFormat === 'png') {
+    warnings.push('Metafiles were converted to SVG; PNG conversion needs convertToRstAsync()');
+  }
+
+  return formatParsedDocument(parsed, opts, warnings);
+}
+
+/**
+ * Parse the document and fill in image data from the OOXML package
+ *
+ * @returns Parsed document, or null if parsing failed (with a warning)
+ */
+function parseDocument(
+  html: string,
+  opts: ConversionOptions,
+  warnings: string[]
+): ParsedDocument | null {
+  // The OOXML front end needs the package; without it the HTML is parsed
+  const source = opts.source === 'ooxml' && !opts.ooxml ? 'html' : opts.source;
+  if (source !== opts.source) {
+    warnings.push('No OOXML package was given; the document was converted from HTML');
+  }
+
+  // Footnotes must be in the same file as their references
+  const footnotePlacement = opts.splitLevel ? 'section' : opts.footnotePlacement;
+
+  // Parse HTML (or OOXML) into document elements
   let parsed: ParsedDocument;
   try {
-    parsed = parseWordHtml(html);
+    parsed = source === 'ooxml'
+      ? parseOoxmlDocument(opts.ooxml!, { ...opts, footnotePlacement })
+      : parseWordHtml(html, {
+          ...opts,
+          ooxmlNotes: opts.ooxmlNotes || (opts.ooxml ? extractNotesFromOoxml(opts.ooxml) : undefined),
+          footnotePlacement,
+        });
   } catch (error) {
-    warnings.push(`HTML parsing error: ${error instanceof Error ? error.message : String(error)}`);
-    return {
-      rst: '',
-      images: [],
-      metadata: {},
-      warnings,
-    };
+    const label = source === 'ooxml' ? 'OOXML' : 'HTML';
+    warnings.push(`${label} parsing error: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
   }
 
+  warnings.push(...parsed.warnings);
+
+  // Take image data from the OOXML package, which has every picture's bytes
+  if (source === 'html' && opts.ooxml) {
+    warnings.push(...matchOoxmlPictures(parsed.images, extractOoxmlPictures(opts.ooxml)));
+  }
+
+  return parsed;
+}
+
+/**
+ * Result of a conversion that failed before formatting
+ */
+function createEmptyResult(warnings: string[]): ConversionResult {
+  return {
+    rst: '',
+    images: [],
+    metadata: {},
+    warnings,
+    headingIssues: [],
+  };
+}
+
+/**
+ * Name the images and format the parsed document
+ */
+function formatParsedDocument(
+  parsed: ParsedDocument,
+  opts: ConversionOptions,
+  warnings: string[]
+): ConversionResult {
+  // Final file names, with one file for identical images
+  const named = nameImages(parsed.elements, parsed.images, opts.imageNaming);
+  warnings.push(...named.warnings);
+
+  // Style mappings that cannot be applied are ignored
+  warnings.push(...validateStyleMap(opts.styleMap || []));
+
+  // Repair or report skipped heading levels
+  const headingIssues = checkHeadingHierarchy(parsed.elements, opts.singleTitle);
+  let elements = parsed.elements;
+  if (opts.headingHierarchy === 'normalize') {
+    elements = normalizeHeadingLevels(elements, opts.singleTitle);
+  } else if (opts.headingHierarchy === 'warn') {
+    // Each Heading 1 of a split document is the title of its own file
+    const reported = opts.splitLevel
+      ? headingIssues.filter((issue) => issue.type !== 'multiple-titles')
+      : headingIssues;
+    warnings.push(...reported.map((issue) => issue.message));
+  }
+
+  // Report tables that lose merged cells or change format
+  warnings.push(...getTableWarnings(elements, opts.tableFormat, opts.outputFormat));
+
+  // Report plugin elements that no plugin formats
+  warnings.push(...getPluginWarnings(elements, opts.plugins, opts.outputFormat));
+
   // Format elements to RST
   const formatterOptions: Partial<FormatterOptions> = {
     lineWidth: opts.lineWidth,
     titleOverline: opts.titleOverline,
     indentSize: opts.indentSize,
     imageDir: opts.imageDirectory || 'images/',
+    headingStyles: opts.headingStyles,
+    headingLevelShift: opts.headingLevelShift,
+    headingStartLevel: opts.headingStartLevel,
+    headingLabels: opts.headingLabels,
+    labelPrefix: opts.labelPrefix,
+    tableFormat: opts.tableFormat,
+    plugins: opts.plugins,
   };
 
-  let rst = formatDocument(parsed.elements, formatterOptions);
+  const myst = opts.outputFormat === 'myst';
+  let rst = myst ? formatMystDocument(elements, formatterOptions) : formatDocument(elements, formatterOptions);
 
-  // Add metadata if requested
-  if (opts.includeMetadata && hasMetadata(parsed.metadata)) {
-    const metadataRst = formatMetadata(parsed.metadata);
-    rst = metadataRst + '\n\n' + rst;
+  // One file per section, with an index holding the toctree; the split
+  // follows Word's heading levels, which normalization may have demoted
+  let files: OutputFile[] | undefined;
+  if (opts.splitLevel && opts.splitLevel > 0) {
+    files = formatSplitDocument(parsed.elements, formatterOptions, opts, parsed.metadata);
   }
 
-  // Add generation comment if requested
-  if (opts.addGeneratedComment) {
-    const comment = formatGenerationComment();
-    rst = comment + '\n\n' + rst;
+  // Add metadata and generation comment if requested
+  const metadata = opts.includeMetadata && hasMetadata(parsed.metadata)
+    ? (myst ? formatMystFrontMatter(parsed.metadata) : formatMetadata(parsed.metadata))
+    : '';
+  const comment = opts.addGeneratedComment
+    ? (myst ? formatMystGenerationComment() : formatGenerationComment())
+    : '';
+
+  // MyST front matter has to be the first thing in the file
+  const header = (myst ? [metadata, comment] : [comment, metadata]).filter((part) => part);
+  if (header.length > 0) {
+    rst = [...header, rst].join('\n\n');
   }
 
   return {
     rst,
-    images: parsed.images,
+    images: named.images,
     metadata: parsed.metadata,
     warnings,
-    elements: parsed.elements,
+    headingIssues,
+    files,
+    elements,
   };
 }
 
+/**
+ * Format a document as an index file plus one file per section
+ *
+ * Each file is normalized on its own, so every Heading 1 of a document
+ * split at Heading 1 is the title of its file.
+ */
+function formatSplitDocument(
+  elements: AnyDocumentElement[],
+  formatterOptions: Partial<FormatterOptions>,
+  opts: ConversionOptions,
+  metadata: DocumentMetadata
+): OutputFile[] {
+  const { index, sections } = splitDocument(elements, opts.splitLevel!);
+  if (opts.headingHierarchy === 'normalize') {
+    index.splice(0, index.length, ...normalizeHeadingLevels(index, opts.singleTitle));
+    for (const section of sections) {
+      section.elements = normalizeHeadingLevels(section.elements, opts.singleTitle);
+    }
+  }
+
+  // Sphinx needs a title on the index page
+  if (!index.some((element) => element.type === 'heading')) {
+    const text = escapeLiteralText(metadata.title || DEFAULT_INDEX_TITLE);
+    const title: HeadingElement = { type: 'heading', level: 1, text };
+    index.unshift(title);
+  }
+
+  const myst = opts.outputFormat === 'myst';
+  const formatParts = myst ? formatMystDocumentParts : formatDocumentParts;
+  const extension = myst ? 'md' : 'rst';
+
+  const [indexRst, ...sectionRst] = formatParts(
+    [index, ...sections.map((section) => section.elements)],
+    formatterOptions
+  );
+
+  const rstToctree = generateToctreeDirective({
+    entries: sections.map((section) => section.name),
+    maxdepth: opts.toctreeMaxDepth,
+    numbered: opts.toctreeNumbered,
+  });
+  const toctree = myst ? convertRstDirective(rstToctree, false) : rstToctree;
+
+  return [
+    { path: `index.${extension}`, content: indexRst ? `${indexRst}\n\n${toctree}` : toctree },
+    ...sections.map((section, i) => ({ path: `${section.name}.${extension}`, content: sectionRst[i] })),
+  ];
+}
+
 /**
  * Convert Word HTML to RST with async image handling
  *
  * This version handles image extraction that may require async operations,
- * including fetching blob URLs and converting them to base64.
+ * including fetching blob URLs and converting them to base64, and
+ * rasterizing metafiles when metafileFormat is 'png'.
  *
  * @param html - HTML content from Word
  * @param options - Conversion options
@@ -143,13 +377,49 @@ export async function convertToRstAsync(
   html: string,
   options: ConversionOptions = {}
 ): Promise<ConversionResult> {
-  // First, do the sync conversion
-  const result = convertToRst(html, options);
+  const opts = { ...DEFAULT_CONVERSION_OPTIONS, ...options };
+  const warnings: string[] = [];
 
-  // Then resolve any blob URLs in images
-  await resolveBlobUrls(result.images, result.warnings);
+  const parsed = parseDocument(html, opts, warnings);
+  if (!parsed) {
+    return createEmptyResult(warnings);
+  }
+
+  // Blob URLs are fetched first, so their data is converted, hashed and
+  // deduplicated like any other image
+  await resolveBlobUrls(parsed.images, warnings);
+
+  // Metafiles are converted before naming, so the directives get the new extension
+  const metafiles = convertMetafiles(parsed.images);
+  warnings.push(...metafiles.warnings);
+  if (opts.metafileFormat === 'png') {
+    await rasterizeImages(metafiles.images, warnings);
+  }
 
-  return result;
+  return formatParsedDocument(parsed, opts, warnings);
+}
+
+/**
+ * Replace SVG image data with PNG drawn at the image's displayed size
+ *
+ * Images that cannot be drawn keep their SVG data.
+ */
+async function rasterizeImages(
+  images: ExtractedImage[],
+  warnings: string[]
+): Promise<void> {
+  await Promise.all(
+    images.map(async (image) => {
+      const src = `data:image/svg+xml;base64,${image.base64Data}`;
+      const base64 = await loadImageViaCanvas(src, 'png', image.width, image.height);
+      if (base64) {
+        image.base64Data = base64;
+        image.format = 'png';
+      } else {
+        warnings.push(`Could not convert image ${image.originalName || image.filename} to PNG, so it stays SVG`);
+      }
+    })
+  );
 }
 
 /**
@@ -173,6 +443,8 @@ async function resolveBlobUrls(
   // Process images in parallel
   await Promise.all(
     blobImages.map(async (image) => {
+      // Images are not named yet; number them in document order
+      const label = `image ${images.indexOf(image) + 1}`;
       try {
         // Try to get the original src from the image element
         // The src should be stored or we need to find another way
@@ -181,11 +453,11 @@ async function resolveBlobUrls(
         if (base64) {
           image.base64Data = base64;
         } else {
-          warnings.push(`Could not fetch image: ${image.filename}`);
+          warnings.push(`Could not fetch ${label}`);
         }
       } catch (error) {
         const msg = error instanceof Error ? error.message : String(error);
-        warnings.push(`Error fetching image ${image.filename}: ${msg}`);
+        warnings.push(`Error fetching ${label}: ${msg}`);
       }
     })
   );
@@ -243,8 +515,14 @@ function blobToBase64(blob: Blob): Promise<string> {
  * Load image via canvas and extract base64
  *
  * This works for images that can be drawn to canvas (same-origin or CORS-enabled).
+ * The image is drawn at its natural size unless a size is given.
  */
-function loadImageViaCanvas(src: string, format: string): Promise<string | null> {
+function loadImageViaCanvas(
+  src: string,
+  format: string,
+  width?: number,
+  height?: number
+): Promise<string | null> {
   return new Promise((resolve) => {
     const img = new Image();
     img.crossOrigin = 'anonymous';
@@ -252,8 +530,8 @@ function loadImageViaCanvas(src: string, format: string): Promise<string | null>
     img.onload = () => {
       try {
         const canvas = document.createElement('canvas');
-        canvas.width = img.naturalWidth || img.width;
-        canvas.height = img.naturalHeight || img.height;
+        canvas.width = width || img.naturalWidth || img.width;
+        canvas.height = height || img.naturalHeight || img.height;
 
         const ctx = canvas.getContext('2d');
         if (!ctx) {
@@ -261,7 +539,7 @@ function loadImageViaCanvas(src: string, format: string): Promise<string | null>
           return;
         }
 
-        ctx.drawImage(img, 0, 0);
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
 
         // Get base64 data
         const mimeType = format === 'jpg' ? 'image/jpeg' : `image/${format}`;
@@ -330,6 +608,56 @@ async function getDocumentHtml(context: Word.RequestContext): Promise<string> {
   return html.value;
 }
 
+/**
+ * Describe tables that lose merged cells, fall back to another format or
+ * hold nested tables
+ */
+function getTableWarnings(
+  elements: AnyDocumentElement[],
+  tableFormat?: TableFormat,
+  outputFormat?: OutputFormat
+): string[] {
+  const tables = elements.filter((element): element is TableElement => element.type === 'table');
+  const warnings: string[] = [];
+
+  tables.forEach((table, index) => {
+    const { problem } = outputFormat === 'myst'
+      ? resolveMystTableFormat(table.data, tableFormat)
+      : resolveTableFormat(table.data, tableFormat);
+    if (problem) {
+      warnings.push(`Table ${index + 1}: ${problem}`);
+    }
+    if (table.data.nestedTables) {
+      warnings.push(`Table ${index + 1}: nested tables are not converted; only their text is kept`);
+    }
+  });
+
+  return warnings;
+}
+
+/**
+ * Describe plugin elements that no plugin formats
+ */
+function getPluginWarnings(
+  elements: AnyDocumentElement[],
+  plugins?: ElementPlugin[],
+  outputFormat?: OutputFormat
+): string[] {
+  const hasFormatter = (element: PluginElement) => {
+    const plugin = findElementPlugin(element, plugins);
+    return Boolean(plugin?.format || (outputFormat === 'myst' && plugin?.formatMyst));
+  };
+
+  const names = new Set(
+    elements
+      .filter((element): element is PluginElement => element.type === 'plugin')
+      .filter((element) => !hasFormatter(element))
+      .map((element) => element.plugin)
+  );
+
+  return Array.from(names, (name) => `No formatter for plugin elements "${name}"; they were left out`);
+}
+
 /**
  * Check if metadata object has any values
  */
@@ -356,6 +684,25 @@ function formatMetadata(metadata: DocumentMetadata): string {
   return fields.join('\n');
 }
 
+/**
+ * Format metadata as MyST front matter
+ */
+function formatMystFrontMatter(metadata: DocumentMetadata): string {
+  const fields: string[] = [];
+
+  if (metadata.title) {
+    fields.push(`title: ${JSON.stringify(metadata.title)}`);
+  }
+  if (metadata.author) {
+    fields.push(`author: ${JSON.stringify(metadata.author)}`);
+  }
+  if (metadata.language) {
+    fields.push(`language: ${metadata.language}`);
+  }
+
+  return ['---', ...fields, '---'].join('\n');
+}
+
 /**
  * Format generation comment
  */
@@ -364,6 +711,14 @@ function formatGenerationComment(): string {
   return `.. Generated by RST Word Add-in on ${date}`;
 }
 
+/**
+ * Format generation comment as a MyST comment line
+ */
+function formatMystGenerationComment(): string {
+  const date = new Date().toISOString().split('T')[0];
+  return `% Generated by RST Word Add-in on ${date}`;
+}
+
 /**
  * Validate RST output (basic checks)
  *
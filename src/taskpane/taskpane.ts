@@ -4,13 +4,8 @@
  */
 
 import './taskpane.css';
-import { convertToRstAsync, ConversionResult, ExtractedImage } from '../converter';
-
-interface OoxmlImage {
-  name: string;
-  base64: string;
-  contentType: string;
-}
+import { convertToRstAsync, ConversionResult, ExtractedImage, ImageNamingStrategy, OutputFile, OutputFormat } from '../converter';
+import { loadExportSettings, saveExportSettings, getOutputFileType, ExportSettings, parseStyleMap, validateStyleMap } from '../utils';
 
 // Version for debugging cache issues
 const VERSION = '1.0.24';
@@ -33,14 +28,25 @@ let toast: HTMLElement;
 let toastMessage: HTMLElement;
 let debugContent: HTMLPreElement;
 let copyDebugBtn: HTMLButtonElement;
+let outputFormatSelect: HTMLSelectElement;
+let sourceSelect: HTMLSelectElement;
+let imageNamingSelect: HTMLSelectElement;
+let metafileFormatSelect: HTMLSelectElement;
+let splitLevelSelect: HTMLSelectElement;
+let maxDepthSelect: HTMLSelectElement;
+let numberedCheckbox: HTMLInputElement;
+let styleMapInput: HTMLTextAreaElement;
+let styleMapProblems: HTMLElement;
 
 // State
 let currentRst: string = '';
 let currentImages: ExtractedImage[] = [];
+let currentFiles: OutputFile[] = [];
+let currentFormat: OutputFormat = 'rst';
 let currentDebugInfo: string = '';
-let currentDrawings: string[] = [];
 let conversionResult: ConversionResult | null = null;
 let isLoading: boolean = false;
+let exportSettings: ExportSettings = loadExportSettings();
 
 /**
  * Initialize the add-in when Office is ready
@@ -89,6 +95,43 @@ function initializeUI(): void {
   toastMessage = document.getElementById('toast-message') as HTMLElement;
   debugContent = document.getElementById('debug-content') as HTMLPreElement;
   copyDebugBtn = document.getElementById('copy-debug-btn') as HTMLButtonElement;
+  outputFormatSelect = document.getElementById('output-format') as HTMLSelectElement;
+  sourceSelect = document.getElementById('document-source') as HTMLSelectElement;
+  imageNamingSelect = document.getElementById('image-naming') as HTMLSelectElement;
+  metafileFormatSelect = document.getElementById('metafile-format') as HTMLSelectElement;
+  splitLevelSelect = document.getElementById('split-level') as HTMLSelectElement;
+  maxDepthSelect = document.getElementById('toctree-maxdepth') as HTMLSelectElement;
+  numberedCheckbox = document.getElementById('toctree-numbered') as HTMLInputElement;
+  styleMapInput = document.getElementById('style-map') as HTMLTextAreaElement;
+  styleMapProblems = document.getElementById('style-map-problems') as HTMLElement;
+
+  // Show the saved export settings
+  if (outputFormatSelect) {
+    outputFormatSelect.value = exportSettings.outputFormat;
+  }
+  if (sourceSelect) {
+    sourceSelect.value = exportSettings.source;
+  }
+  if (imageNamingSelect) {
+    imageNamingSelect.value = exportSettings.imageNaming;
+  }
+  if (metafileFormatSelect) {
+    metafileFormatSelect.value = exportSettings.metafileFormat;
+  }
+  if (splitLevelSelect) {
+    splitLevelSelect.value = String(exportSettings.splitLevel);
+  }
+  if (maxDepthSelect) {
+    maxDepthSelect.value = String(exportSettings.toctreeMaxDepth);
+  }
+  if (numberedCheckbox) {
+    numberedCheckbox.checked = exportSettings.toctreeNumbered;
+  }
+  if (styleMapInput) {
+    styleMapInput.value = exportSettings.styleMap.length > 0 ? JSON.stringify(exportSettings.styleMap, null, 2) : '';
+    showStyleMapProblems(validateStyleMap(exportSettings.styleMap));
+  }
+  updateToctreeControls();
 }
 
 /**
@@ -101,6 +144,14 @@ function bindEvents(): void {
   helpBtn?.addEventListener('click', toggleHelp);
   retryBtn?.addEventListener('click', handleRefresh);
   copyDebugBtn?.addEventListener('click', handleCopyDebug);
+  outputFormatSelect?.addEventListener('change', handleSettingsChange);
+  sourceSelect?.addEventListener('change', handleSettingsChange);
+  imageNamingSelect?.addEventListener('change', handleSettingsChange);
+  metafileFormatSelect?.addEventListener('change', handleSettingsChange);
+  splitLevelSelect?.addEventListener('change', handleSettingsChange);
+  maxDepthSelect?.addEventListener('change', handleSettingsChange);
+  numberedCheckbox?.addEventListener('change', handleSettingsChange);
+  styleMapInput?.addEventListener('change', handleStyleMapChange);
 
   // Listen for messages from help iframe
   window.addEventListener('message', (event) => {
@@ -135,6 +186,86 @@ function bindEvents(): void {
   });
 }
 
+/**
+ * Handle a change of the export options
+ */
+function handleSettingsChange(): void {
+  exportSettings = {
+    outputFormat: outputFormatSelect.value === 'myst' ? 'myst' : 'rst',
+    source: sourceSelect?.value === 'ooxml' ? 'ooxml' : 'html',
+    imageNaming: (imageNamingSelect?.value || 'sequential') as ImageNamingStrategy,
+    metafileFormat: metafileFormatSelect?.value === 'png' ? 'png' : 'svg',
+    splitLevel: parseInt(splitLevelSelect.value, 10),
+    toctreeMaxDepth: parseInt(maxDepthSelect.value, 10),
+    toctreeNumbered: numberedCheckbox.checked,
+    styleMap: exportSettings.styleMap,
+  };
+  saveExportSettings(exportSettings);
+  updateToctreeControls();
+
+  // Re-run the conversion so the preview and export match the new settings
+  if (conversionResult) {
+    handleRefresh();
+  }
+}
+
+/**
+ * Handle an edit of the style map
+ *
+ * Text that is not a JSON array of mappings is reported and the saved
+ * map stays in use.
+ */
+function handleStyleMapChange(): void {
+  try {
+    const { styleMap, problems } = parseStyleMap(styleMapInput.value);
+    showStyleMapProblems(problems);
+    if (!styleMap) {
+      return;
+    }
+
+    exportSettings = { ...exportSettings, styleMap };
+    saveExportSettings(exportSettings);
+
+    if (conversionResult) {
+      handleRefresh();
+    }
+  } catch (error) {
+    console.error('Error applying style map:', error);
+    showStyleMapProblems([`Style map could not be applied: ${error instanceof Error ? error.message : String(error)}`]);
+  }
+}
+
+/**
+ * List style map problems below the editor
+ */
+function showStyleMapProblems(problems: string[]): void {
+  if (!styleMapProblems) {
+    return;
+  }
+
+  styleMapProblems.replaceChildren(
+    ...problems.map((problem) => {
+      const item = document.createElement('li');
+      item.textContent = problem;
+      return item;
+    })
+  );
+  styleMapProblems.style.display = problems.length > 0 ? 'block' : 'none';
+}
+
+/**
+ * Enable the toctree options only when the document is split
+ */
+function updateToctreeControls(): void {
+  const split = exportSettings.splitLevel > 0;
+  if (maxDepthSelect) {
+    maxDepthSelect.disabled = !split;
+  }
+  if (numberedCheckbox) {
+    numberedCheckbox.disabled = !split;
+  }
+}
+
 /**
  * Show a specific UI state
  */
@@ -182,85 +313,6 @@ function showError(message: string): void {
   setStatus('Error');
 }
 
-/**
- * Extract DrawingML elements from OOXML in document order
- * Returns array of drawing XML strings for each graphic in the document
- */
-function extractDrawingsFromOoxml(ooxml: string): string[] {
-  const drawings: string[] = [];
-
-  // Parse the OOXML
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(ooxml, 'application/xml');
-
-  // Find the document.xml part which contains the drawings
-  const parts = doc.getElementsByTagName('pkg:part');
-  for (let i = 0; i < parts.length; i++) {
-    const part = parts[i];
-    const name = part.getAttribute('pkg:name') || '';
-
-    if (name === '/word/document.xml') {
-      // Get the xmlData content
-      const xmlDataElements = part.getElementsByTagName('pkg:xmlData');
-      if (xmlDataElements.length > 0) {
-        const xmlData = xmlDataElements[0];
-
-        // Find all w:drawing elements (drawings/images)
-        const drawingElements = xmlData.getElementsByTagName('w:drawing');
-        for (let j = 0; j < drawingElements.length; j++) {
-          const drawing = drawingElements[j];
-          // Serialize the drawing element to string
-          const serializer = new XMLSerializer();
-          const drawingXml = serializer.serializeToString(drawing);
-          drawings.push(drawingXml);
-        }
-      }
-      break;
-    }
-  }
-
-  return drawings;
-}
-
-/**
- * Extract images from OOXML package data
- * OOXML contains images as pkg:part elements with pkg:binaryData
- */
-function extractImagesFromOoxml(ooxml: string): OoxmlImage[] {
-  const images: OoxmlImage[] = [];
-
-  // Parse the OOXML string
-  const parser = new DOMParser();
-  const doc = parser.parseFromString(ooxml, 'application/xml');
-
-  // Find all pkg:part elements (namespace-aware)
-  const parts = doc.getElementsByTagName('pkg:part');
-
-  for (let i = 0; i < parts.length; i++) {
-    const part = parts[i];
-    const name = part.getAttribute('pkg:name') || '';
-    const contentType = part.getAttribute('pkg:contentType') || '';
-
-    // Check if this is an image part (in /word/media/ folder)
-    if (name.includes('/media/') && contentType.startsWith('image/')) {
-      // Get the binary data
-      const binaryDataElements = part.getElementsByTagName('pkg:binaryData');
-      if (binaryDataElements.length > 0) {
-        const base64 = binaryDataElements[0].textContent || '';
-        if (base64) {
-          images.push({
-            name: name,
-            base64: base64.replace(/\s/g, ''), // Remove any whitespace
-            contentType: contentType,
-          });
-        }
-      }
-    }
-  }
-
-  return images;
-}
-
 /**
  * Handle refresh button click
  */
@@ -283,7 +335,7 @@ async function handleRefresh(): Promise<void> {
       console.log('Getting HTML...');
       const htmlResult = body.getHtml();
 
-      // Get OOXML to extract ALL images (including those in text boxes/shapes)
+      // Get OOXML for the data of every picture and for rendering shapes
       console.log('Getting OOXML...');
       const ooxmlResult = body.getOoxml();
 
@@ -291,18 +343,6 @@ async function handleRefresh(): Promise<void> {
       console.log('Got HTML, length:', htmlResult.value?.length);
       console.log('Got OOXML, length:', ooxmlResult.value?.length);
 
-      // Extract images from OOXML (gets ALL images including those in text boxes/shapes)
-      const ooxmlImages = extractImagesFromOoxml(ooxmlResult.value);
-      console.log('Found', ooxmlImages.length, 'images in OOXML');
-
-      // Extract drawings from OOXML for export (just the DrawingML, not full document)
-      currentDrawings = extractDrawingsFromOoxml(ooxmlResult.value);
-      console.log('Found', currentDrawings.length, 'drawings in OOXML');
-      for (let i = 0; i < ooxmlImages.length; i++) {
-        const img = ooxmlImages[i];
-        console.log(`  OOXML image ${i + 1}: ${img.name}, type=${img.contentType}, base64 length=${img.base64.length}`);
-      }
-
       const html = htmlResult.value;
 
       // Convert HTML to RST using the converter module
@@ -313,32 +353,22 @@ async function handleRefresh(): Promise<void> {
         includeMetadata: false,
         addGeneratedComment: false,
         imageDirectory: 'images/',
+        ooxml: ooxmlResult.value,
+        source: exportSettings.source,
+        imageNaming: exportSettings.imageNaming,
+        metafileFormat: exportSettings.metafileFormat,
+        styleMap: exportSettings.styleMap,
+        outputFormat: exportSettings.outputFormat,
+        splitLevel: exportSettings.splitLevel,
+        toctreeMaxDepth: exportSettings.toctreeMaxDepth,
+        toctreeNumbered: exportSettings.toctreeNumbered,
       });
 
       console.log('Conversion complete, RST length:', conversionResult.rst?.length);
       console.log('RST preview:', conversionResult.rst?.substring(0, 200));
 
-      // Merge OOXML image data with parsed images
-      console.log(`Merging images: ${conversionResult.images.length} parsed, ${ooxmlImages.length} from OOXML`);
-      for (let i = 0; i < conversionResult.images.length; i++) {
-        const img = conversionResult.images[i];
-        console.log(`Parsed image ${i + 1}: filename=${img.filename}, has base64=${!!img.base64Data}, base64 length=${img.base64Data?.length || 0}`);
-      }
-
-      // Match by index (OOXML images appear in document order)
-      for (let i = 0; i < conversionResult.images.length && i < ooxmlImages.length; i++) {
-        const img = conversionResult.images[i];
-        const data = ooxmlImages[i];
-        console.log(`Matching image ${i + 1}: parsed has data=${!!img.base64Data}, OOXML has data=${!!data.base64}`);
-        if (!img.base64Data && data.base64) {
-          img.base64Data = data.base64;
-          console.log(`Filled image ${i + 1} with OOXML base64 data, length: ${data.base64.length}`);
-        } else if (img.base64Data) {
-          console.log(`Image ${i + 1} already has base64 data, length: ${img.base64Data.length}`);
-        } else {
-          console.log(`Image ${i + 1}: No OOXML data available to merge`);
-        }
-      }
+      // Image data was matched to the OOXML pictures by the converter
+      console.log(`Images: ${conversionResult.images.length} parsed`);
 
       // Final check
       console.log('Final image status:');
@@ -349,6 +379,8 @@ async function handleRefresh(): Promise<void> {
 
       currentRst = conversionResult.rst;
       currentImages = conversionResult.images;
+      currentFiles = conversionResult.files || [];
+      currentFormat = exportSettings.outputFormat;
 
       // Build debug info separately
       const elemCount = conversionResult.elements?.length ?? 0;
@@ -358,12 +390,7 @@ async function handleRefresh(): Promise<void> {
 
       // Build image debug info
       const imageDebug = conversionResult.images.map((img, i) =>
-        `  ${i + 1}. ${img.filename}: base64=${img.base64Data?.length || 0} bytes, format=${img.format}`
-      ).join('\n') || '  (none)';
-
-      // Build OOXML image debug
-      const ooxmlImageDebug = ooxmlImages.map((img, i) =>
-        `  ${i + 1}. ${img.name}: ${img.contentType}, ${img.base64.length} bytes`
+        `  ${i + 1}. ${img.filename}: base64=${img.base64Data?.length || 0} bytes, format=${img.format}, source=${img.originalName || 'HTML'}`
       ).join('\n') || '  (none)';
 
       currentDebugInfo = `Version: ${VERSION}
@@ -373,8 +400,6 @@ Warnings: ${warnings}
 
 --- IMAGE STATUS ---
 Parsed images: ${conversionResult.images.length}
-OOXML images: ${ooxmlImages.length}
-${ooxmlImageDebug}
 
 Final export images:
 ${imageDebug}
@@ -401,6 +426,9 @@ ${html}`;
 
       // Build status message
       let statusMsg = `Preview updated - ${currentRst.length} characters`;
+      if (currentFiles.length > 0) {
+        statusMsg += `, ${currentFiles.length} files`;
+      }
       if (currentImages.length > 0) {
         statusMsg += `, ${currentImages.length} image${currentImages.length > 1 ? 's' : ''}`;
       }
@@ -436,7 +464,7 @@ async function handleCopy(): Promise<void> {
 
   try {
     await navigator.clipboard.writeText(currentRst);
-    showToast('RST copied to clipboard', 'success');
+    showToast(`${getOutputFileType(currentFormat).label} copied to clipboard`, 'success');
     setStatus('Copied to clipboard');
   } catch (error) {
     console.error('Error copying to clipboard:', error);
@@ -476,19 +504,19 @@ async function handleExport(): Promise<void> {
   setStatus('Preparing export...');
 
   try {
-    // If there are images, create a ZIP file
-    if (currentImages.length > 0) {
+    // If there are images or several files, create a ZIP file
+    if (currentImages.length > 0 || currentFiles.length > 0) {
       const skippedCount = await exportAsZip();
       if (skippedCount > 0) {
-        showToast(`Export complete (${skippedCount} image${skippedCount > 1 ? 's' : ''} could not be exported - Shapes are not supported)`, 'info');
+        showToast(`Export complete (${skippedCount} image${skippedCount > 1 ? 's' : ''} had no data and could not be exported)`, 'info');
         setStatus(`Export complete (${skippedCount} image${skippedCount > 1 ? 's' : ''} skipped)`);
       } else {
         showToast('Export complete', 'success');
         setStatus('Export complete');
       }
     } else {
-      // No images, just download the RST file
-      downloadRstFile();
+      // Single file without images, just download it
+      downloadDocumentFile();
       showToast('Export complete', 'success');
       setStatus('Export complete');
     }
@@ -500,14 +528,15 @@ async function handleExport(): Promise<void> {
 }
 
 /**
- * Download RST file directly
+ * Download the RST or MyST file directly
  */
-function downloadRstFile(): void {
-  const blob = new Blob([currentRst], { type: 'text/x-rst' });
+function downloadDocumentFile(): void {
+  const fileType = getOutputFileType(currentFormat);
+  const blob = new Blob([currentRst], { type: fileType.mimeType });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = 'document.rst';
+  a.download = `document.${fileType.extension}`;
   document.body.appendChild(a);
   a.click();
   document.body.removeChild(a);
@@ -527,9 +556,17 @@ async function exportAsZip(): Promise<number> {
 
   const zip = new JSZip();
 
-  // Add RST file
-  zip.file('document.rst', currentRst);
-  console.log('Added document.rst to ZIP');
+  // Add document files (the index and one file per section when split)
+  if (currentFiles.length > 0) {
+    for (const file of currentFiles) {
+      zip.file(file.path, file.content);
+      console.log(`Added ${file.path} to ZIP`);
+    }
+  } else {
+    const filename = `document.${getOutputFileType(currentFormat).extension}`;
+    zip.file(filename, currentRst);
+    console.log(`Added ${filename} to ZIP`);
+  }
 
   // Create images folder and add images
   const imagesFolder = zip.folder('images');
@@ -547,20 +584,8 @@ async function exportAsZip(): Promise<number> {
         imagesFolder.file(filename, image.base64Data, { base64: true });
         addedCount++;
       } else {
-        // Image couldn't be exported - save DrawingML for debugging
-        const filename = image.filename.replace('images/', '');
-        const ooxmlFilename = filename.replace(/\.[^.]+$/, '.ooxml');
-        console.log(`  SKIPPED: No base64Data for ${image.filename}, saving ${ooxmlFilename}`);
-
-        // Get the corresponding DrawingML by index
-        if (currentDrawings[i]) {
-          // Format the XML nicely
-          const drawingXml = '<?xml version="1.0" encoding="UTF-8"?>\n' + currentDrawings[i];
-          imagesFolder.file(ooxmlFilename, drawingXml);
-          console.log(`  Added ${ooxmlFilename} to ZIP (DrawingML for image ${i + 1})`);
-        } else {
-          console.log(`  No DrawingML found for image index ${i}`);
-        }
+        // Shapes were rendered to SVG by the converter; this is a chart or a picture Word left out
+        console.log(`  SKIPPED: No base64Data for ${image.filename}`);
         skippedCount++;
       }
     }
@@ -0,0 +1,55 @@
+/**
+ * RST Word Add-in - Base64 Helpers
+ * Encodes generated files (e.g., SVG) the way image data is stored, and
+ * decodes image data for converters that read the bytes
+ */
+
+/**
+ * Encode text as UTF-8 and then base64
+ *
+ * btoa() only takes Latin-1, so the text is encoded to bytes first.
+ *
+ * @param text - Text to encode (e.g., SVG markup)
+ * @returns Base64 data
+ */
+export function textToBase64(text: string): string {
+  return bytesToBase64(new TextEncoder().encode(text));
+}
+
+/**
+ * Encode bytes as base64
+ *
+ * @param bytes - Binary data
+ * @returns Base64 data
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+
+  // fromCharCode takes a limited number of arguments
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 0x8000)));
+  }
+
+  return btoa(binary);
+}
+
+/**
+ * Decode base64 data to bytes
+ *
+ * @param base64Data - Base64 data (whitespace is ignored)
+ * @returns Binary data, or null if the data is not valid base64
+ */
+export function base64ToBytes(base64Data: string): Uint8Array | null {
+  let binary: string;
+  try {
+    binary = atob(base64Data.replace(/\s/g, ''));
+  } catch {
+    return null;
+  }
+
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
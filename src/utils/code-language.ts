@@ -0,0 +1,125 @@
+/**
+ * RST Word Add-in - Code Language Detection
+ * Determines the Pygments language name for code blocks
+ *
+ * The language comes either from a Word style name suffix
+ * (e.g., "Code Python", "Code-JS") or from a simple content heuristic.
+ */
+
+/**
+ * Pygments language names recognized in style names, keyed by alias
+ */
+const LANGUAGE_ALIASES: Record<string, string> = {
+  'python': 'python',
+  'py': 'python',
+  'python3': 'python',
+  'pycon': 'pycon',
+  'javascript': 'javascript',
+  'js': 'javascript',
+  'typescript': 'typescript',
+  'ts': 'typescript',
+  'json': 'json',
+  'java': 'java',
+  'c': 'c',
+  'cpp': 'cpp',
+  'c++': 'cpp',
+  'csharp': 'csharp',
+  'c#': 'csharp',
+  'cs': 'csharp',
+  'go': 'go',
+  'rust': 'rust',
+  'ruby': 'ruby',
+  'php': 'php',
+  'perl': 'perl',
+  'bash': 'bash',
+  'sh': 'bash',
+  'shell': 'bash',
+  'console': 'console',
+  'powershell': 'powershell',
+  'ps1': 'powershell',
+  'bat': 'bat',
+  'batch': 'bat',
+  'sql': 'sql',
+  'xml': 'xml',
+  'html': 'html',
+  'css': 'css',
+  'yaml': 'yaml',
+  'yml': 'yaml',
+  'toml': 'toml',
+  'ini': 'ini',
+  'rst': 'rst',
+  'markdown': 'markdown',
+  'md': 'markdown',
+  'text': 'text',
+  'none': 'text',
+};
+
+/**
+ * Content heuristics, checked in order; the first match wins
+ */
+const LANGUAGE_HEURISTICS: { language: string; pattern: RegExp }[] = [
+  { language: 'python', pattern: /^#!.*\bpython/ },
+  { language: 'bash', pattern: /^#!.*\b(ba|z)?sh\b/ },
+  { language: 'xml', pattern: /^\s*<\?xml\b/ },
+  { language: 'html', pattern: /^\s*<(!DOCTYPE html|html\b)/i },
+  { language: 'pycon', pattern: /^>>> /m },
+  { language: 'python', pattern: /^\s*(def \w+\(.*\):|class \w+(\(.*\))?:|from [\w.]+ import |import \w+\s*$)/m },
+  { language: 'cpp', pattern: /^#include\s*<(iostream|string|vector|map)>|\bstd::/m },
+  { language: 'c', pattern: /^#include\s*[<"]/m },
+  { language: 'java', pattern: /^\s*(public|private|protected)\s+(static\s+)?(final\s+)?(class|interface|void)\b/m },
+  { language: 'javascript', pattern: /^\s*(const|let|var)\s+\w+\s*=|\bfunction\s*\w*\s*\(|=>\s*\{|console\.log\(/m },
+  { language: 'sql', pattern: /^\s*(SELECT\s.+\sFROM|INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM|CREATE\s+(TABLE|INDEX|VIEW))\b/im },
+  { language: 'console', pattern: /^\$ \S/m },
+  { language: 'rst', pattern: /^\.\. [\w:-]+::/m },
+];
+
+/**
+ * Normalize a language name or alias to its Pygments name
+ *
+ * @param name - Language name (e.g., "Python", "JS", "C#")
+ * @returns Pygments language name or null if not recognized
+ */
+export function normalizeCodeLanguage(name: string): string | null {
+  const key = name.trim().toLowerCase().replace(/[\s_-]+/g, '');
+  return LANGUAGE_ALIASES[key] || null;
+}
+
+/**
+ * Guess the language of a code block from its content
+ *
+ * Only unambiguous markers are considered; anything else is left for the
+ * caller to render as a plain literal block.
+ *
+ * @param code - Code block text
+ * @returns Pygments language name or undefined if unknown
+ */
+export function detectCodeLanguage(code: string): string | undefined {
+  const text = code.replace(/^\s*\n/, '');
+  if (!text.trim()) {
+    return undefined;
+  }
+
+  if (/^\s*[{[]/.test(text) && isJson(text)) {
+    return 'json';
+  }
+
+  for (const { language, pattern } of LANGUAGE_HEURISTICS) {
+    if (pattern.test(text)) {
+      return language;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Check if text is a JSON document
+ */
+function isJson(text: string): boolean {
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,1374 @@
+/**
+ * RST Word Add-in - DrawingML to SVG
+ * Renders Word shapes, text boxes, connectors and grouped drawings as SVG
+ *
+ * Word's HTML has no usable image for drawings made of shapes (boxes and
+ * arrows drawn in Word), so they are rendered from their DrawingML. The
+ * common subset is covered: preset and custom geometries, solid and
+ * gradient fills, lines with dashes and arrowheads, text in shapes, and
+ * groups and drawing canvases with pictures inside them. Anything else is
+ * approximated and reported in the warnings.
+ *
+ * Drawing coordinates are kept in EMUs (English Metric Units) in the SVG's
+ * viewBox, so the output needs no unit conversion except for its size.
+ *
+ * @see https://learn.microsoft.com/en-us/openspecs/office_standards/ms-oi29500
+ */
+
+import { renderMetafileSvg, RenderedMetafile } from './metafile-svg';
+import { EMU_PER_PIXEL, childElement, childElements, escapeXml, getVal, isOn } from './xml';
+import { textToBase64 } from './base64';
+
+/**
+ * Options for rendering a drawing
+ */
+export interface DrawingRenderOptions {
+  /** Theme colors by scheme name (e.g., accent1 -> "4472C4"); Office defaults otherwise */
+  themeColors?: Record<string, string>;
+  /** Get the data of a picture inside the drawing by relationship ID */
+  getImage?(relationshipId: string): { base64Data: string; contentType: string } | null;
+}
+
+/**
+ * Drawing rendered as SVG
+ */
+export interface RenderedDrawing {
+  /** SVG document */
+  svg: string;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Parts of the drawing that were approximated or left out */
+  warnings: string[];
+}
+
+/**
+ * Position and size of a shape, in EMUs
+ */
+interface Frame {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  /** Rotation in degrees */
+  rotation: number;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+/**
+ * Resolved color
+ */
+interface Color {
+  /** Hex color without "#" */
+  hex: string;
+  /** Opacity from 0 to 1 */
+  alpha: number;
+}
+
+/**
+ * Resolved line properties
+ */
+interface LineStyle {
+  color: Color;
+  /** Width in EMUs */
+  width: number;
+  dash?: string;
+  cap?: string;
+  headEnd?: ArrowEnd;
+  tailEnd?: ArrowEnd;
+}
+
+/**
+ * Arrowhead at a line end
+ */
+interface ArrowEnd {
+  type: string;
+  /** Size in line widths */
+  width: number;
+  length: number;
+}
+
+/**
+ * Text run laid out in a shape
+ */
+interface TextToken {
+  text: string;
+  /** Font size in EMUs */
+  size: number;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  color: string;
+  font?: string;
+  /** Forced line break after the token */
+  lineBreak?: boolean;
+}
+
+/**
+ * State of one rendering
+ */
+interface RenderContext {
+  options: DrawingRenderOptions;
+  /** SVG definitions (gradients, markers) */
+  defs: string[];
+  warnings: Set<string>;
+  /** Counter for definition IDs */
+  nextId: number;
+}
+
+/**
+ * EMUs per point
+ */
+const EMU_PER_POINT = 12700;
+
+/**
+ * Space around the drawing for line widths and arrowheads (2 px)
+ */
+const PADDING = 2 * EMU_PER_PIXEL;
+
+/**
+ * Colors of the default Office theme
+ */
+const DEFAULT_THEME_COLORS: Record<string, string> = {
+  dk1: '000000',
+  lt1: 'FFFFFF',
+  dk2: '44546A',
+  lt2: 'E7E6E6',
+  accent1: '4472C4',
+  accent2: 'ED7D31',
+  accent3: 'A5A5A5',
+  accent4: 'FFC000',
+  accent5: '5B9BD5',
+  accent6: '70AD47',
+  hlink: '0563C1',
+  folHlink: '954F72',
+};
+
+/**
+ * Scheme color names that refer to other scheme colors
+ */
+const SCHEME_COLOR_ALIASES: Record<string, string> = {
+  tx1: 'dk1',
+  bg1: 'lt1',
+  tx2: 'dk2',
+  bg2: 'lt2',
+  phClr: 'accent1',
+};
+
+/**
+ * Preset colors used in practice
+ */
+const PRESET_COLORS: Record<string, string> = {
+  black: '000000',
+  white: 'FFFFFF',
+  red: 'FF0000',
+  green: '008000',
+  blue: '0000FF',
+  yellow: 'FFFF00',
+  gray: '808080',
+  grey: '808080',
+  orange: 'FFA500',
+};
+
+/**
+ * Line widths of the theme's line styles (lnRef idx 1-3)
+ */
+const THEME_LINE_WIDTHS = [0, 6350, 12700, 19050];
+
+/**
+ * Dash patterns in line widths
+ */
+const DASH_PATTERNS: Record<string, number[]> = {
+  dash: [4, 3],
+  dashDot: [4, 3, 1, 3],
+  dot: [1, 3],
+  lgDash: [8, 3],
+  lgDashDot: [8, 3, 1, 3],
+  lgDashDotDot: [8, 3, 1, 3, 1, 3],
+  sysDash: [3, 1],
+  sysDashDot: [3, 1, 1, 1],
+  sysDashDotDot: [3, 1, 1, 1, 1, 1],
+  sysDot: [1, 1],
+};
+
+/**
+ * Arrowhead sizes (sm, med, lg) in line widths
+ */
+const ARROW_SIZES: Record<string, number> = { sm: 2, med: 3, lg: 5 };
+
+/**
+ * Preset geometries that are open lines (never filled)
+ */
+const LINE_PRESETS = [
+  'line',
+  'straightConnector1',
+  'bentConnector2',
+  'bentConnector3',
+  'bentConnector4',
+  'bentConnector5',
+  'curvedConnector2',
+  'curvedConnector3',
+  'curvedConnector4',
+  'curvedConnector5',
+  'arc',
+];
+
+/**
+ * Default text box insets (left/right, top/bottom)
+ */
+const DEFAULT_INSETS = { horizontal: 91440, vertical: 45720 };
+
+/**
+ * Default font size of text in shapes (11 pt)
+ */
+const DEFAULT_FONT_SIZE = 11 * EMU_PER_POINT;
+
+/**
+ * Check if a drawing is made of shapes (rather than a picture or chart)
+ *
+ * @param drawing - w:drawing element
+ * @returns True for shapes, text boxes, groups and drawing canvases
+ */
+export function isShapeDrawing(drawing: Element): boolean {
+  const root = drawing.getElementsByTagName('a:graphicData')[0]?.firstElementChild;
+  return !!root && ['wps:wsp', 'wpg:wgp', 'wpc:wpc'].includes(root.tagName);
+}
+
+/**
+ * Render a shape drawing as SVG
+ *
+ * @param drawing - w:drawing element
+ * @param options - Theme colors and access to embedded pictures
+ * @returns SVG with its size, or null if the drawing has no shapes
+ */
+export function renderDrawingSvg(drawing: Element, options: DrawingRenderOptions = {}): RenderedDrawing | null {
+  const container = findFirst(drawing, ['wp:inline', 'wp:anchor']);
+  const root = drawing.getElementsByTagName('a:graphicData')[0]?.firstElementChild;
+  if (!container || !root || !isShapeDrawing(drawing)) {
+    return null;
+  }
+
+  const extent = childElement(container, 'wp:extent');
+  const width = parseInt(extent?.getAttribute('cx') || '0');
+  const height = parseInt(extent?.getAttribute('cy') || '0');
+  if (!width && !height) {
+    return null;
+  }
+
+  const context: RenderContext = { options, defs: [], warnings: new Set(), nextId: 1 };
+  const extentFrame: Frame = { x: 0, y: 0, w: width, h: height, rotation: 0, flipH: false, flipV: false };
+
+  let body: string;
+  switch (root.tagName) {
+    case 'wps:wsp':
+      body = renderShape(root, context, extentFrame);
+      break;
+    case 'wpg:wgp':
+      body = renderGroup(root, context, extentFrame);
+      break;
+    default:
+      body = renderCanvas(root, context, width, height);
+      break;
+  }
+
+  const viewBox = [-PADDING, -PADDING, width + 2 * PADDING, height + 2 * PADDING].map(Math.round).join(' ');
+  const pixelWidth = Math.max(1, Math.round((width + 2 * PADDING) / EMU_PER_PIXEL));
+  const pixelHeight = Math.max(1, Math.round((height + 2 * PADDING) / EMU_PER_PIXEL));
+  const defs = context.defs.length > 0 ? `<defs>${context.defs.join('')}</defs>` : '';
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${pixelWidth}" height="${pixelHeight}" viewBox="${viewBox}" ` +
+    `font-family="Calibri, Arial, sans-serif">${defs}${body}</svg>`;
+
+  // Name the drawing in warnings the way Word's selection pane does
+  const name = childElement(container, 'wp:docPr')?.getAttribute('name') || 'Drawing';
+  const warnings = Array.from(context.warnings, (warning) => `Drawing "${name}": ${warning}`);
+
+  return { svg, width: pixelWidth, height: pixelHeight, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Containers
+// ---------------------------------------------------------------------------
+
+/**
+ * Render the shapes, groups and pictures inside a group or canvas
+ */
+function renderChildren(parent: Element, context: RenderContext): string {
+  return Array.from(parent.children)
+    .map((node) => {
+      switch (node.tagName) {
+        case 'wps:wsp':
+          return renderShape(node, context);
+        case 'wpg:grpSp':
+        case 'wpg:wgp':
+          return renderGroup(node, context);
+        case 'pic:pic':
+          return renderPicture(node, context);
+        case 'wpg:grpSpPr':
+        case 'wpg:cNvGrpSpPr':
+        case 'wpc:bg':
+        case 'wpc:whole':
+          return '';
+        default:
+          if (!node.tagName.endsWith('Pr')) {
+            context.warnings.add(`${node.tagName} elements are not supported and were left out`);
+          }
+          return '';
+      }
+    })
+    .join('');
+}
+
+/**
+ * Render a group, mapping its child coordinate space onto its frame
+ */
+function renderGroup(group: Element, context: RenderContext, defaultFrame?: Frame): string {
+  const xfrm = childElement(childElement(group, 'wpg:grpSpPr'), 'a:xfrm');
+  const frame = getFrame(xfrm, defaultFrame);
+
+  const childOffset = childElement(xfrm, 'a:chOff');
+  const childExtent = childElement(xfrm, 'a:chExt');
+  const childX = parseInt(childOffset?.getAttribute('x') || '0');
+  const childY = parseInt(childOffset?.getAttribute('y') || '0');
+  const childW = parseInt(childExtent?.getAttribute('cx') || '0') || frame.w;
+  const childH = parseInt(childExtent?.getAttribute('cy') || '0') || frame.h;
+
+  const scale = `scale(${round(frame.w / childW, 6)} ${round(frame.h / childH, 6)})`;
+  const identity = frame.w === childW && frame.h === childH && !childX && !childY;
+  const content = transformGroup(identity ? '' : `${scale} translate(${-childX} ${-childY})`, renderChildren(group, context));
+
+  return transformGroup(getTransform(frame), transformGroup(getFlipTransform(frame), content));
+}
+
+/**
+ * Render a drawing canvas (shapes in canvas coordinates on a background)
+ */
+function renderCanvas(canvas: Element, context: RenderContext, width: number, height: number): string {
+  const background = childElement(canvas, 'wpc:bg');
+  const fill = background ? resolveFill(background, null, context) : null;
+  const backgroundRect = fill && fill.value !== 'none'
+    ? `<rect width="${width}" height="${height}" fill="${fill.value}"${opacityAttribute('fill-opacity', fill.alpha)}/>`
+    : '';
+
+  return backgroundRect + renderChildren(canvas, context);
+}
+
+// ---------------------------------------------------------------------------
+// Shapes
+// ---------------------------------------------------------------------------
+
+/**
+ * Render a shape (geometry, fill, line and text)
+ */
+function renderShape(shape: Element, context: RenderContext, defaultFrame?: Frame): string {
+  const spPr = childElement(shape, 'wps:spPr');
+  const style = childElement(shape, 'wps:style');
+  const frame = getFrame(childElement(spPr, 'a:xfrm'), defaultFrame);
+
+  const prstGeom = childElement(spPr, 'a:prstGeom');
+  const preset = prstGeom?.getAttribute('prst') || (childElement(spPr, 'a:custGeom') ? '' : 'rect');
+  const path = preset
+    ? getPresetPath(preset, frame.w, frame.h, getAdjustValues(prstGeom), context)
+    : getCustomPath(childElement(spPr, 'a:custGeom')!, frame.w, frame.h, context);
+
+  const isLine = LINE_PRESETS.includes(preset);
+  const fill = isLine ? null : resolveFill(spPr, style, context);
+  const line = resolveLine(spPr, style, context);
+
+  const attributes = [`d="${path}"`];
+  attributes.push(`fill="${fill?.value || 'none'}"`);
+  if (fill && fill.alpha < 1) {
+    attributes.push(`fill-opacity="${round(fill.alpha, 3)}"`);
+  }
+  attributes.push(...getStrokeAttributes(line, context));
+
+  const geometry = transformGroup(getFlipTransform(frame), `<path ${attributes.join(' ')}/>`);
+
+  // Text is not flipped with the shape
+  const textBox = childElement(childElement(shape, 'wps:txbx'), 'w:txbxContent');
+  const text = textBox ? renderText(textBox, childElement(shape, 'wps:bodyPr'), frame, style, context) : '';
+
+  return transformGroup(getTransform(frame), geometry + text);
+}
+
+/**
+ * Render a picture inside a group or canvas
+ */
+function renderPicture(picture: Element, context: RenderContext): string {
+  const frame = getFrame(childElement(childElement(picture, 'pic:spPr'), 'a:xfrm'));
+  const blip = picture.getElementsByTagName('a:blip')[0];
+  let data = blip && context.options.getImage?.(blip.getAttribute('r:embed') || '');
+
+  // Metafiles (Visio drawings, clip art) are converted like standalone pictures
+  if (data && /^image\/x-(emf|wmf)$/.test(data.contentType)) {
+    let metafile: RenderedMetafile | null = null;
+    try {
+      metafile = renderMetafileSvg(data.base64Data);
+    } catch {
+      // Corrupt metafiles are left out like other unreadable pictures
+    }
+    if (metafile?.unsupported.length) {
+      context.warnings.add(`${metafile.type.toUpperCase()} records not drawn: ${metafile.unsupported.join(', ')}`);
+    }
+    data = metafile ? { contentType: 'image/svg+xml', base64Data: textToBase64(metafile.svg) } : null;
+  }
+
+  if (!data || !/^image\/(png|jpeg|gif|svg\+xml|bmp|webp)$/.test(data.contentType)) {
+    context.warnings.add('a picture in the drawing has no data or a format browsers cannot show and was left out');
+    return '';
+  }
+
+  const image =
+    `<image width="${frame.w}" height="${frame.h}" preserveAspectRatio="none" ` +
+    `href="data:${data.contentType};base64,${data.base64Data}"/>`;
+
+  return transformGroup(getTransform(frame), transformGroup(getFlipTransform(frame), image));
+}
+
+/**
+ * Read a shape's position, size, rotation and flips from its a:xfrm
+ */
+function getFrame(xfrm: Element | null, defaultFrame?: Frame): Frame {
+  if (!xfrm) {
+    return defaultFrame || { x: 0, y: 0, w: 0, h: 0, rotation: 0, flipH: false, flipV: false };
+  }
+
+  const offset = childElement(xfrm, 'a:off');
+  const extent = childElement(xfrm, 'a:ext');
+
+  return {
+    x: parseInt(offset?.getAttribute('x') || '0'),
+    y: parseInt(offset?.getAttribute('y') || '0'),
+    w: parseInt(extent?.getAttribute('cx') || '0'),
+    h: parseInt(extent?.getAttribute('cy') || '0'),
+    rotation: parseInt(xfrm.getAttribute('rot') || '0') / 60000,
+    flipH: xfrm.getAttribute('flipH') === '1',
+    flipV: xfrm.getAttribute('flipV') === '1',
+  };
+}
+
+/**
+ * Get the transform that positions and rotates a shape
+ */
+function getTransform(frame: Frame): string {
+  const rotation = frame.rotation
+    ? ` rotate(${round(frame.rotation, 3)} ${round(frame.w / 2)} ${round(frame.h / 2)})`
+    : '';
+  return frame.x || frame.y ? `translate(${frame.x} ${frame.y})${rotation}` : rotation.trim();
+}
+
+/**
+ * Wrap content in a group with a transform, unless there is none
+ */
+function transformGroup(transform: string, content: string): string {
+  return transform ? `<g transform="${transform}">${content}</g>` : content;
+}
+
+/**
+ * Get the transform that flips a shape within its frame
+ */
+function getFlipTransform(frame: Frame): string {
+  if (!frame.flipH && !frame.flipV) {
+    return '';
+  }
+  const translate = `translate(${frame.flipH ? frame.w : 0} ${frame.flipV ? frame.h : 0})`;
+  return `${translate} scale(${frame.flipH ? -1 : 1} ${frame.flipV ? -1 : 1})`;
+}
+
+// ---------------------------------------------------------------------------
+// Geometry
+// ---------------------------------------------------------------------------
+
+/**
+ * Read the adjust values of a preset geometry (a:avLst)
+ */
+function getAdjustValues(prstGeom: Element | null): Record<string, number> {
+  const values: Record<string, number> = {};
+
+  for (const guide of childElements(childElement(prstGeom, 'a:avLst'), 'a:gd')) {
+    const match = (guide.getAttribute('fmla') || '').match(/^val\s+(-?\d+)$/);
+    if (match) {
+      values[guide.getAttribute('name') || ''] = parseInt(match[1]);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Get the SVG path of a preset geometry
+ *
+ * Adjust values are in 1/100000 of the shorter side (or of the width or
+ * height, as the preset defines); angles in 1/60000 of a degree.
+ */
+function getPresetPath(
+  preset: string,
+  w: number,
+  h: number,
+  adjust: Record<string, number>,
+  context: RenderContext
+): string {
+  const ss = Math.min(w, h);
+  const adj = (name: string, fallback: number) => (adjust[name] ?? fallback) / 100000;
+
+  switch (preset) {
+    case 'rect':
+    case 'flowChartProcess':
+    case 'snip1Rect':
+    case 'snip2SameRect':
+      return polygon([[0, 0], [w, 0], [w, h], [0, h]]);
+    case 'roundRect':
+    case 'round1Rect':
+    case 'round2SameRect':
+      return roundedRect(w, h, ss * adj('adj', 16667));
+    case 'flowChartAlternateProcess':
+      return roundedRect(w, h, ss / 6);
+    case 'flowChartTerminator':
+      return roundedRect(w, h, ss / 2);
+    case 'ellipse':
+    case 'flowChartConnector':
+      return ellipse(w, h);
+    case 'triangle':
+    case 'flowChartExtract':
+      return polygon([[w * adj('adj', 50000), 0], [w, h], [0, h]]);
+    case 'flowChartMerge':
+      return polygon([[0, 0], [w, 0], [w / 2, h]]);
+    case 'rtTriangle':
+      return polygon([[0, 0], [w, h], [0, h]]);
+    case 'diamond':
+    case 'flowChartDecision':
+      return polygon([[w / 2, 0], [w, h / 2], [w / 2, h], [0, h / 2]]);
+    case 'parallelogram': {
+      const x = Math.min(w, ss * adj('adj', 25000));
+      return polygon([[x, 0], [w, 0], [w - x, h], [0, h]]);
+    }
+    case 'flowChartInputOutput':
+      return polygon([[w / 5, 0], [w, 0], [(w * 4) / 5, h], [0, h]]);
+    case 'trapezoid': {
+      const x = Math.min(w / 2, ss * adj('adj', 25000));
+      return polygon([[x, 0], [w - x, 0], [w, h], [0, h]]);
+    }
+    case 'flowChartManualOperation':
+      return polygon([[0, 0], [w, 0], [w * 0.8, h], [w * 0.2, h]]);
+    case 'flowChartManualInput':
+      return polygon([[0, h / 5], [w, 0], [w, h], [0, h]]);
+    case 'hexagon':
+    case 'flowChartPreparation': {
+      const x = preset === 'hexagon' ? Math.min(w / 2, ss * adj('adj', 25000)) : w / 5;
+      return polygon([[x, 0], [w - x, 0], [w, h / 2], [w - x, h], [x, h], [0, h / 2]]);
+    }
+    case 'octagon': {
+      const x = Math.min(w / 2, h / 2, ss * adj('adj', 29289));
+      return polygon([[x, 0], [w - x, 0], [w, x], [w, h - x], [w - x, h], [x, h], [0, h - x], [0, x]]);
+    }
+    case 'pentagon':
+      return polygon([[w / 2, 0], [w, h * 0.38], [w * 0.81, h], [w * 0.19, h], [0, h * 0.38]]);
+    case 'homePlate': {
+      const x = w - Math.min(w, ss * adj('adj', 50000));
+      return polygon([[0, 0], [x, 0], [w, h / 2], [x, h], [0, h]]);
+    }
+    case 'chevron': {
+      const x = Math.min(w, ss * adj('adj', 50000));
+      return polygon([[0, 0], [w - x, 0], [w, h / 2], [w - x, h], [0, h], [x, h / 2]]);
+    }
+    case 'flowChartOffpageConnector':
+      return polygon([[0, 0], [w, 0], [w, h * 0.8], [w / 2, h], [0, h * 0.8]]);
+    case 'flowChartPredefinedProcess':
+      return `${polygon([[0, 0], [w, 0], [w, h], [0, h]])} M${round(w / 8)} 0 V${round(h)} M${round((w * 7) / 8)} 0 V${round(h)}`;
+    case 'flowChartDocument':
+      return `M0 0 H${round(w)} V${round(h * 0.8)} C${round(w * 0.75)} ${round(h * 0.6)} ${round(w * 0.4)} ${round(h * 1.1)} 0 ${round(h * 0.85)} Z`;
+    case 'can':
+    case 'flowChartMagneticDisk': {
+      const ry = Math.min(h / 2, (ss * adj('adj', 25000)) / 2);
+      const rx = round(w / 2);
+      return `M0 ${round(ry)} A${rx} ${round(ry)} 0 0 1 ${round(w)} ${round(ry)} V${round(h - ry)} ` +
+        `A${rx} ${round(ry)} 0 0 1 0 ${round(h - ry)} Z M0 ${round(ry)} A${rx} ${round(ry)} 0 0 0 ${round(w)} ${round(ry)}`;
+    }
+    case 'plus':
+    case 'flowChartSummingJunction': {
+      if (preset === 'flowChartSummingJunction') {
+        return `${ellipse(w, h)} M${round(w / 2)} 0 V${round(h)} M0 ${round(h / 2)} H${round(w)}`;
+      }
+      const x = Math.min(w / 2, h / 2, ss * adj('adj', 25000));
+      return polygon([
+        [x, 0], [w - x, 0], [w - x, x], [w, x], [w, h - x], [w - x, h - x],
+        [w - x, h], [x, h], [x, h - x], [0, h - x], [0, x], [x, x],
+      ]);
+    }
+    case 'star5':
+      return star(w, h, 5, 0.382);
+    case 'star4':
+      return star(w, h, 4, adj('adj', 12500) * 2);
+    case 'rightArrow':
+    case 'leftArrow':
+    case 'upArrow':
+    case 'downArrow':
+    case 'leftRightArrow':
+      return arrowPath(preset, w, h, adj('adj1', 50000), adj('adj2', 50000));
+    case 'wedgeRectCallout':
+    case 'wedgeRoundRectCallout':
+    case 'wedgeEllipseCallout':
+      return calloutPath(preset, w, h, adj('adj1', -20833), adj('adj2', 62500));
+    case 'line':
+    case 'straightConnector1':
+      return `M0 0 L${round(w)} ${round(h)}`;
+    case 'bentConnector2':
+      return `M0 0 H${round(w)} V${round(h)}`;
+    case 'bentConnector3':
+    case 'bentConnector4':
+    case 'bentConnector5': {
+      const x = round(w * adj('adj1', 50000));
+      return `M0 0 H${x} V${round(h)} H${round(w)}`;
+    }
+    case 'curvedConnector2':
+      return `M0 0 Q${round(w)} 0 ${round(w)} ${round(h)}`;
+    case 'curvedConnector3':
+    case 'curvedConnector4':
+    case 'curvedConnector5': {
+      const x = round(w * adj('adj1', 50000));
+      return `M0 0 C${x} 0 ${x} ${round(h)} ${round(w)} ${round(h)}`;
+    }
+    case 'arc':
+      return arcPath(w, h, (adjust.adj1 ?? 16200000) / 60000, (adjust.adj2 ?? 0) / 60000);
+    default:
+      context.warnings.add(`shape geometry "${preset}" is not supported and was drawn as a rectangle`);
+      return polygon([[0, 0], [w, 0], [w, h], [0, h]]);
+  }
+}
+
+/**
+ * Get the SVG path of a custom geometry (a:custGeom)
+ */
+function getCustomPath(custGeom: Element, w: number, h: number, context: RenderContext): string {
+  const commands: string[] = [];
+
+  for (const path of childElements(childElement(custGeom, 'a:pathLst'), 'a:path')) {
+    const scaleX = parseInt(path.getAttribute('w') || '0') ? w / parseInt(path.getAttribute('w')!) : 1;
+    const scaleY = parseInt(path.getAttribute('h') || '0') ? h / parseInt(path.getAttribute('h')!) : 1;
+    let current: [number, number] = [0, 0];
+
+    const points = (command: Element): [number, number][] =>
+      childElements(command, 'a:pt').map((pt) => [
+        parseFloat(pt.getAttribute('x') || '') * scaleX,
+        parseFloat(pt.getAttribute('y') || '') * scaleY,
+      ]);
+
+    for (const command of Array.from(path.children)) {
+      const pts = points(command);
+      if (pts.some(([x, y]) => isNaN(x) || isNaN(y))) {
+        context.warnings.add('custom geometry with formulas is not supported and was drawn as a rectangle');
+        return polygon([[0, 0], [w, 0], [w, h], [0, h]]);
+      }
+
+      switch (command.tagName) {
+        case 'a:moveTo':
+          commands.push(`M${formatPoints(pts)}`);
+          break;
+        case 'a:lnTo':
+          commands.push(`L${formatPoints(pts)}`);
+          break;
+        case 'a:cubicBezTo':
+          commands.push(`C${formatPoints(pts)}`);
+          break;
+        case 'a:quadBezTo':
+          commands.push(`Q${formatPoints(pts)}`);
+          break;
+        case 'a:arcTo': {
+          const rx = parseFloat(command.getAttribute('wR') || '0') * scaleX;
+          const ry = parseFloat(command.getAttribute('hR') || '0') * scaleY;
+          const start = (parseInt(command.getAttribute('stAng') || '0') / 60000) * (Math.PI / 180);
+          const sweep = (parseInt(command.getAttribute('swAng') || '0') / 60000) * (Math.PI / 180);
+
+          // The arc starts at the current point, at angle stAng of its ellipse
+          const cx = current[0] - rx * Math.cos(start);
+          const cy = current[1] - ry * Math.sin(start);
+          const end: [number, number] = [cx + rx * Math.cos(start + sweep), cy + ry * Math.sin(start + sweep)];
+          const large = Math.abs(sweep) > Math.PI ? 1 : 0;
+          commands.push(`A${round(rx)} ${round(ry)} 0 ${large} ${sweep > 0 ? 1 : 0} ${formatPoints([end])}`);
+          pts.push(end);
+          break;
+        }
+        case 'a:close':
+          commands.push('Z');
+          break;
+      }
+
+      if (pts.length > 0) {
+        current = pts[pts.length - 1];
+      }
+    }
+  }
+
+  return commands.join(' ') || polygon([[0, 0], [w, 0], [w, h], [0, h]]);
+}
+
+/**
+ * Closed polygon path
+ */
+function polygon(points: number[][]): string {
+  return `M${points.map(([x, y]) => `${round(x)} ${round(y)}`).join(' L')} Z`;
+}
+
+/**
+ * Rectangle with rounded corners
+ */
+function roundedRect(w: number, h: number, radius: number): string {
+  const r = round(Math.min(radius, w / 2, h / 2));
+  const [right, bottom] = [round(w), round(h)];
+  return `M${r} 0 H${right - r} A${r} ${r} 0 0 1 ${right} ${r} V${bottom - r} A${r} ${r} 0 0 1 ${right - r} ${bottom} ` +
+    `H${r} A${r} ${r} 0 0 1 0 ${bottom - r} V${r} A${r} ${r} 0 0 1 ${r} 0 Z`;
+}
+
+/**
+ * Ellipse filling the frame
+ */
+function ellipse(w: number, h: number): string {
+  const [rx, ry] = [round(w / 2), round(h / 2)];
+  return `M0 ${ry} A${rx} ${ry} 0 1 1 ${round(w)} ${ry} A${rx} ${ry} 0 1 1 0 ${ry} Z`;
+}
+
+/**
+ * Star with the given number of points and inner radius (relative to the outer one)
+ */
+function star(w: number, h: number, count: number, inner: number): string {
+  const points: number[][] = [];
+  for (let i = 0; i < count * 2; i++) {
+    const angle = -Math.PI / 2 + (i * Math.PI) / count;
+    const radius = i % 2 === 0 ? 1 : inner;
+    points.push([w / 2 + (w / 2) * radius * Math.cos(angle), h / 2 + (h / 2) * radius * Math.sin(angle)]);
+  }
+  return polygon(points);
+}
+
+/**
+ * Block arrow pointing right, left, up, down or both ways
+ *
+ * @param thickness - Shaft thickness relative to the cross dimension
+ * @param headLength - Head length relative to the shorter side
+ */
+function arrowPath(preset: string, w: number, h: number, thickness: number, headLength: number): string {
+  const vertical = preset === 'upArrow' || preset === 'downArrow';
+  // Lay the arrow out pointing right in a (length x cross) box, then map
+  const [length, cross] = vertical ? [h, w] : [w, h];
+  const head = Math.min(length / (preset === 'leftRightArrow' ? 2 : 1), Math.min(w, h) * headLength);
+  const y1 = (cross * (1 - thickness)) / 2;
+  const y2 = cross - y1;
+
+  let points: number[][] = preset === 'leftRightArrow'
+    ? [[0, cross / 2], [head, 0], [head, y1], [length - head, y1], [length - head, 0], [length, cross / 2],
+      [length - head, cross], [length - head, y2], [head, y2], [head, cross]]
+    : [[0, y1], [length - head, y1], [length - head, 0], [length, cross / 2], [length - head, cross], [length - head, y2], [0, y2]];
+
+  if (preset === 'leftArrow' || preset === 'upArrow') {
+    points = points.map(([x, y]) => [length - x, y]);
+  }
+  if (vertical) {
+    points = points.map(([x, y]) => [y, x]);
+  }
+
+  return polygon(points);
+}
+
+/**
+ * Callout with a pointer to (adj1, adj2), given relative to the center
+ */
+function calloutPath(preset: string, w: number, h: number, adjX: number, adjY: number): string {
+  const tipX = w / 2 + w * adjX;
+  const tipY = h / 2 + h * adjY;
+  const tip = `${round(tipX)} ${round(tipY)}`;
+
+  if (preset === 'wedgeEllipseCallout') {
+    // Pointer as a wedge from the center, drawn over the ellipse
+    const angle = Math.atan2(tipY - h / 2, tipX - w / 2);
+    const base = (offset: number) =>
+      `${round(w / 2 + (w / 2) * Math.cos(angle + offset))} ${round(h / 2 + (h / 2) * Math.sin(angle + offset))}`;
+    return `${ellipse(w, h)} M${base(-0.25)} L${tip} L${base(0.25)}`;
+  }
+
+  // Insert the pointer into the edge nearest to the tip
+  const corners = [[0, 0], [w, 0], [w, h], [0, h]];
+  const edge = tipY > h ? 2 : tipY < 0 ? 0 : tipX > w ? 1 : tipX < 0 ? 3 : -1;
+  if (edge < 0) {
+    return preset === 'wedgeRectCallout' ? polygon(corners) : roundedRect(w, h, Math.min(w, h) / 6);
+  }
+
+  const [start, end] = [corners[edge], corners[(edge + 1) % 4]];
+  const horizontal = edge % 2 === 0;
+  const edgeLength = horizontal ? w : h;
+  const along = horizontal ? tipX : tipY;
+  const fromStart = horizontal ? Math.abs(along - start[0]) : Math.abs(along - start[1]);
+  const center = Math.min(Math.max(fromStart, edgeLength / 6), (edgeLength * 5) / 6);
+  const half = edgeLength / 12;
+  const pointAt = (distance: number) => {
+    const t = distance / edgeLength;
+    return [start[0] + (end[0] - start[0]) * t, start[1] + (end[1] - start[1]) * t];
+  };
+
+  const points = [...corners.slice(0, edge + 1), pointAt(center - half), [tipX, tipY], pointAt(center + half), ...corners.slice(edge + 1)];
+  return polygon(points);
+}
+
+/**
+ * Elliptical arc from one angle to another (clockwise, in degrees)
+ */
+function arcPath(w: number, h: number, startAngle: number, endAngle: number): string {
+  const [rx, ry] = [w / 2, h / 2];
+  const sweep = (((endAngle - startAngle) % 360) + 360) % 360;
+  const point = (angle: number) => {
+    const radians = (angle * Math.PI) / 180;
+    return `${round(rx + rx * Math.cos(radians))} ${round(ry + ry * Math.sin(radians))}`;
+  };
+  return `M${point(startAngle)} A${round(rx)} ${round(ry)} 0 ${sweep > 180 ? 1 : 0} 1 ${point(startAngle + sweep)}`;
+}
+
+/**
+ * Format points for a path command
+ */
+function formatPoints(points: [number, number][]): string {
+  return points.map(([x, y]) => `${round(x)} ${round(y)}`).join(' ');
+}
+
+// ---------------------------------------------------------------------------
+// Fills and lines
+// ---------------------------------------------------------------------------
+
+/**
+ * Resolve the fill of a shape: its own, or the one its style refers to
+ *
+ * @returns SVG paint (color, gradient URL or "none") with opacity, or null
+ */
+function resolveFill(
+  properties: Element | null,
+  style: Element | null,
+  context: RenderContext
+): { value: string; alpha: number } | null {
+  if (childElement(properties, 'a:noFill')) {
+    return { value: 'none', alpha: 1 };
+  }
+
+  const solid = childElement(properties, 'a:solidFill');
+  if (solid) {
+    const color = resolveColor(solid, context);
+    return color ? { value: `#${color.hex}`, alpha: color.alpha } : null;
+  }
+
+  const gradient = childElement(properties, 'a:gradFill');
+  if (gradient) {
+    return { value: createGradient(gradient, context), alpha: 1 };
+  }
+
+  const pattern = childElement(properties, 'a:pattFill');
+  if (pattern) {
+    context.warnings.add('pattern fills were drawn in their foreground color');
+    const color = resolveColor(childElement(pattern, 'a:fgClr'), context);
+    return color ? { value: `#${color.hex}`, alpha: color.alpha } : null;
+  }
+
+  if (childElement(properties, 'a:blipFill')) {
+    context.warnings.add('picture fills of shapes are not supported and were left out');
+    return { value: 'none', alpha: 1 };
+  }
+
+  // Theme fill referenced by the shape style
+  const fillRef = childElement(style, 'a:fillRef');
+  if (fillRef && fillRef.getAttribute('idx') !== '0') {
+    const color = resolveColor(fillRef, context);
+    return color ? { value: `#${color.hex}`, alpha: color.alpha } : null;
+  }
+
+  return null;
+}
+
+/**
+ * Resolve the outline of a shape: its own a:ln, or the style's line
+ */
+function resolveLine(spPr: Element | null, style: Element | null, context: RenderContext): LineStyle | null {
+  const ln = childElement(spPr, 'a:ln');
+  if (childElement(ln, 'a:noFill')) {
+    return null;
+  }
+
+  const lnRef = childElement(style, 'a:lnRef');
+  const themeIndex = parseInt(lnRef?.getAttribute('idx') || '0');
+
+  const solid = childElement(ln, 'a:solidFill');
+  const color = solid
+    ? resolveColor(solid, context)
+    : themeIndex > 0 ? resolveColor(lnRef, context) : null;
+  if (!color) {
+    return null;
+  }
+
+  const width = parseInt(ln?.getAttribute('w') || '0') || THEME_LINE_WIDTHS[Math.min(themeIndex, 3)] || EMU_PER_POINT * 0.75;
+  const dash = childElement(ln, 'a:prstDash')?.getAttribute('val');
+  const cap = ln?.getAttribute('cap');
+
+  return {
+    color,
+    width,
+    dash: dash && DASH_PATTERNS[dash] ? DASH_PATTERNS[dash].map((part) => round(part * width)).join(' ') : undefined,
+    cap: cap === 'rnd' ? 'round' : cap === 'sq' ? 'square' : undefined,
+    headEnd: getArrowEnd(childElement(ln, 'a:headEnd')),
+    tailEnd: getArrowEnd(childElement(ln, 'a:tailEnd')),
+  };
+}
+
+/**
+ * Read an arrowhead (a:headEnd / a:tailEnd)
+ */
+function getArrowEnd(end: Element | null): ArrowEnd | undefined {
+  const type = end?.getAttribute('type');
+  if (!type || type === 'none') {
+    return undefined;
+  }
+
+  return {
+    type,
+    width: ARROW_SIZES[end!.getAttribute('w') || 'med'] || ARROW_SIZES.med,
+    length: ARROW_SIZES[end!.getAttribute('len') || 'med'] || ARROW_SIZES.med,
+  };
+}
+
+/**
+ * Get the SVG stroke attributes of a line, adding arrowhead markers
+ */
+function getStrokeAttributes(line: LineStyle | null, context: RenderContext): string[] {
+  if (!line) {
+    return ['stroke="none"'];
+  }
+
+  const attributes = [`stroke="#${line.color.hex}"`, `stroke-width="${round(line.width)}"`];
+  if (line.color.alpha < 1) {
+    attributes.push(`stroke-opacity="${round(line.color.alpha, 3)}"`);
+  }
+  if (line.dash) {
+    attributes.push(`stroke-dasharray="${line.dash}"`);
+  }
+  if (line.cap) {
+    attributes.push(`stroke-linecap="${line.cap}"`);
+  }
+  if (line.headEnd) {
+    attributes.push(`marker-start="url(#${createMarker(line.headEnd, line.color, context)})"`);
+  }
+  if (line.tailEnd) {
+    attributes.push(`marker-end="url(#${createMarker(line.tailEnd, line.color, context)})"`);
+  }
+
+  return attributes;
+}
+
+/**
+ * Define an arrowhead marker
+ *
+ * @returns Marker ID
+ */
+function createMarker(end: ArrowEnd, color: Color, context: RenderContext): string {
+  const id = `marker-${context.nextId++}`;
+  const paint = `#${color.hex}`;
+
+  let shape: string;
+  let refX = 10;
+  switch (end.type) {
+    case 'arrow':
+      shape = `<path d="M0 0 L10 5 L0 10" fill="none" stroke="${paint}" stroke-width="1.5"/>`;
+      refX = 9;
+      break;
+    case 'stealth':
+      shape = `<path d="M0 0 L10 5 L0 10 L3 5 Z" fill="${paint}"/>`;
+      break;
+    case 'diamond':
+      shape = `<path d="M0 5 L5 0 L10 5 L5 10 Z" fill="${paint}"/>`;
+      refX = 5;
+      break;
+    case 'oval':
+      shape = `<circle cx="5" cy="5" r="5" fill="${paint}"/>`;
+      refX = 5;
+      break;
+    default:
+      shape = `<path d="M0 0 L10 5 L0 10 Z" fill="${paint}"/>`;
+      break;
+  }
+
+  context.defs.push(
+    `<marker id="${id}" viewBox="0 0 10 10" refX="${refX}" refY="5" markerWidth="${end.length}" ` +
+      `markerHeight="${end.width}" orient="auto-start-reverse">${shape}</marker>`
+  );
+  return id;
+}
+
+/**
+ * Define a gradient fill
+ *
+ * @returns SVG paint referring to the gradient
+ */
+function createGradient(gradFill: Element, context: RenderContext): string {
+  const id = `gradient-${context.nextId++}`;
+
+  const stops = childElements(childElement(gradFill, 'a:gsLst'), 'a:gs')
+    .map((stop) => ({ position: parseInt(stop.getAttribute('pos') || '0') / 1000, color: resolveColor(stop, context) }))
+    .filter((stop) => stop.color)
+    .sort((a, b) => a.position - b.position)
+    .map(({ position, color }) =>
+      `<stop offset="${round(position, 2)}%" stop-color="#${color!.hex}"${opacityAttribute('stop-opacity', color!.alpha)}/>`
+    )
+    .join('');
+
+  if (childElement(gradFill, 'a:path')) {
+    context.defs.push(`<radialGradient id="${id}">${stops}</radialGradient>`);
+  } else {
+    // a:lin ang is clockwise from the x axis, in 1/60000 degree
+    const angle = parseInt(childElement(gradFill, 'a:lin')?.getAttribute('ang') || '0') / 60000;
+    context.defs.push(
+      `<linearGradient id="${id}" gradientTransform="rotate(${round(angle, 3)} 0.5 0.5)">${stops}</linearGradient>`
+    );
+  }
+
+  return `url(#${id})`;
+}
+
+/**
+ * Resolve the color element inside a fill, line reference or gradient stop
+ */
+function resolveColor(parent: Element | null, context: RenderContext): Color | null {
+  const colorElement = parent?.firstElementChild;
+  if (!colorElement) {
+    return null;
+  }
+
+  let hex: string | null = null;
+  const value = colorElement.getAttribute('val') || '';
+
+  switch (colorElement.tagName) {
+    case 'a:srgbClr':
+      hex = value;
+      break;
+    case 'a:schemeClr': {
+      const name = SCHEME_COLOR_ALIASES[value] || value;
+      hex = context.options.themeColors?.[name] || DEFAULT_THEME_COLORS[name] || null;
+      break;
+    }
+    case 'a:sysClr':
+      hex = colorElement.getAttribute('lastClr') || (value === 'window' ? 'FFFFFF' : '000000');
+      break;
+    case 'a:prstClr':
+      hex = PRESET_COLORS[value] || null;
+      break;
+    case 'a:scrgbClr':
+      hex = ['r', 'g', 'b']
+        .map((channel) => toHex((parseInt(colorElement.getAttribute(channel) || '0') / 100000) * 255))
+        .join('');
+      break;
+  }
+
+  if (!hex || !/^[0-9a-f]{6}$/i.test(hex)) {
+    return null;
+  }
+
+  return applyColorModifiers(hex.toUpperCase(), colorElement);
+}
+
+/**
+ * Apply lumMod, lumOff, tint, shade and alpha to a color
+ */
+function applyColorModifiers(hex: string, colorElement: Element): Color {
+  let [r, g, b] = [0, 2, 4].map((i) => parseInt(hex.slice(i, i + 2), 16));
+  let alpha = 1;
+
+  for (const modifier of Array.from(colorElement.children)) {
+    const value = parseInt(modifier.getAttribute('val') || '0') / 100000;
+    switch (modifier.tagName) {
+      case 'a:lumMod':
+      case 'a:lumOff': {
+        const [hue, saturation, lightness] = rgbToHsl(r, g, b);
+        const adjusted = modifier.tagName === 'a:lumMod' ? lightness * value : lightness + value;
+        [r, g, b] = hslToRgb(hue, saturation, Math.min(1, Math.max(0, adjusted)));
+        break;
+      }
+      case 'a:tint':
+        [r, g, b] = [r, g, b].map((channel) => channel * value + 255 * (1 - value));
+        break;
+      case 'a:shade':
+        [r, g, b] = [r, g, b].map((channel) => channel * value);
+        break;
+      case 'a:alpha':
+        alpha = value;
+        break;
+    }
+  }
+
+  return { hex: [r, g, b].map(toHex).join(''), alpha };
+}
+
+/**
+ * Convert RGB (0-255) to HSL (0-1)
+ */
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  if (max === min) {
+    return [0, 0, lightness];
+  }
+
+  const delta = max - min;
+  const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  let hue: number;
+  if (max === red) {
+    hue = (green - blue) / delta + (green < blue ? 6 : 0);
+  } else if (max === green) {
+    hue = (blue - red) / delta + 2;
+  } else {
+    hue = (red - green) / delta + 4;
+  }
+
+  return [hue / 6, saturation, lightness];
+}
+
+/**
+ * Convert HSL (0-1) to RGB (0-255)
+ */
+function hslToRgb(hue: number, saturation: number, lightness: number): [number, number, number] {
+  if (saturation === 0) {
+    return [lightness * 255, lightness * 255, lightness * 255];
+  }
+
+  const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+  const channel = (t: number) => {
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+
+  return [channel(hue + 1 / 3) * 255, channel(hue) * 255, channel(hue - 1 / 3) * 255];
+}
+
+/**
+ * Format a 0-255 channel as two hex digits
+ */
+function toHex(channel: number): string {
+  return Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0').toUpperCase();
+}
+
+/**
+ * Opacity attribute, omitted when opaque
+ */
+function opacityAttribute(name: string, alpha: number): string {
+  return alpha < 1 ? ` ${name}="${round(alpha, 3)}"` : '';
+}
+
+// ---------------------------------------------------------------------------
+// Text
+// ---------------------------------------------------------------------------
+
+/**
+ * Render the text of a text box or shape
+ *
+ * Lines are wrapped at the shape's width using an average character
+ * width, since fonts cannot be measured here.
+ */
+function renderText(
+  content: Element,
+  bodyPr: Element | null,
+  frame: Frame,
+  style: Element | null,
+  context: RenderContext
+): string {
+  const inset = (name: string, fallback: number) => parseInt(bodyPr?.getAttribute(name) || String(fallback));
+  const left = inset('lIns', DEFAULT_INSETS.horizontal);
+  const right = inset('rIns', DEFAULT_INSETS.horizontal);
+  const top = inset('tIns', DEFAULT_INSETS.vertical);
+  const bottom = inset('bIns', DEFAULT_INSETS.vertical);
+  const available = Math.max(frame.w - left - right, 1);
+  const wrap = bodyPr?.getAttribute('wrap') !== 'none';
+
+  if (bodyPr?.getAttribute('vert') && bodyPr.getAttribute('vert') !== 'horz') {
+    context.warnings.add('vertical text was drawn horizontally');
+  }
+
+  // Default text color of the shape style (fontRef)
+  const defaultColor = resolveColor(childElement(style, 'a:fontRef'), context)?.hex || '000000';
+
+  const lines: { tokens: TextToken[]; align: string; size: number }[] = [];
+  for (const paragraph of content.getElementsByTagName('w:p')) {
+    const align = getVal(childElement(paragraph, 'w:pPr'), 'w:jc') || 'left';
+    const tokens = getTextTokens(paragraph, defaultColor);
+    const paragraphLines = layoutLines(tokens, wrap ? available : Infinity);
+    for (const lineTokens of paragraphLines) {
+      const size = lineTokens.length > 0 ? Math.max(...lineTokens.map((token) => token.size)) : DEFAULT_FONT_SIZE;
+      lines.push({ tokens: lineTokens, align, size });
+    }
+  }
+
+  if (!lines.some((line) => line.tokens.some((token) => token.text.trim()))) {
+    return '';
+  }
+
+  const lineHeight = (line: { size: number }) => line.size * 1.2;
+  const textHeight = lines.reduce((sum, line) => sum + lineHeight(line), 0);
+  const anchor = bodyPr?.getAttribute('anchor');
+  let y = anchor === 'ctr'
+    ? top + (frame.h - top - bottom - textHeight) / 2
+    : anchor === 'b' ? frame.h - bottom - textHeight : top;
+
+  const rendered: string[] = [];
+  for (const line of lines) {
+    // Baseline at about 80% of the line height (1.2 x font size)
+    const baseline = y + line.size * 0.95;
+    y += lineHeight(line);
+    if (line.tokens.length === 0) {
+      continue;
+    }
+
+    const [x, textAnchor] = line.align === 'center'
+      ? [left + available / 2, 'middle']
+      : line.align === 'right' || line.align === 'end' ? [frame.w - right, 'end'] : [left, 'start'];
+
+    const spans = line.tokens.map((token) => {
+      const attributes = [`font-size="${round(token.size)}"`, `fill="#${token.color}"`];
+      if (token.bold) attributes.push('font-weight="bold"');
+      if (token.italic) attributes.push('font-style="italic"');
+      if (token.underline) attributes.push('text-decoration="underline"');
+      if (token.font) attributes.push(`font-family="${escapeXml(token.font)}"`);
+      return `<tspan ${attributes.join(' ')}>${escapeXml(token.text)}</tspan>`;
+    });
+
+    rendered.push(
+      `<text x="${round(x)}" y="${round(baseline)}" text-anchor="${textAnchor}" xml:space="preserve">${spans.join('')}</text>`
+    );
+  }
+
+  return rendered.join('');
+}
+
+/**
+ * Split the runs of a paragraph into words with their formatting
+ */
+function getTextTokens(paragraph: Element, defaultColor: string): TextToken[] {
+  const tokens: TextToken[] = [];
+
+  for (const run of Array.from(paragraph.getElementsByTagName('w:r'))) {
+    const rPr = childElement(run, 'w:rPr');
+    if (isOn(rPr, 'w:vanish')) {
+      continue;
+    }
+
+    const color = childElement(rPr, 'w:color')?.getAttribute('w:val');
+    const fonts = childElement(rPr, 'w:rFonts');
+    const format = {
+      size: (parseInt(getVal(rPr, 'w:sz') || '0') / 2) * EMU_PER_POINT || DEFAULT_FONT_SIZE,
+      bold: isOn(rPr, 'w:b'),
+      italic: isOn(rPr, 'w:i'),
+      underline: !!childElement(rPr, 'w:u') && getVal(rPr, 'w:u') !== 'none',
+      color: color && /^[0-9a-f]{6}$/i.test(color) ? color.toUpperCase() : defaultColor,
+      font: fonts?.getAttribute('w:ascii') || undefined,
+    };
+
+    for (const node of Array.from(run.children)) {
+      if (node.tagName === 'w:t') {
+        // Words keep their trailing space so lines can be joined back
+        for (const word of (node.textContent || '').match(/\S+\s*|\s+/g) || []) {
+          tokens.push({ ...format, text: word });
+        }
+      } else if (node.tagName === 'w:tab') {
+        tokens.push({ ...format, text: '    ' });
+      } else if (node.tagName === 'w:br' || node.tagName === 'w:cr') {
+        tokens.push({ ...format, text: '', lineBreak: true });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Wrap tokens into lines no wider than the available width
+ */
+function layoutLines(tokens: TextToken[], available: number): TextToken[][] {
+  const lines: TextToken[][] = [[]];
+  let width = 0;
+
+  for (const token of tokens) {
+    const tokenWidth = token.text.length * token.size * (token.bold ? 0.55 : 0.5);
+    const line = lines[lines.length - 1];
+
+    if (line.length > 0 && width + tokenWidth - trailingSpaceWidth(token) > available && token.text.trim()) {
+      lines.push([token]);
+      width = tokenWidth;
+    } else if (token.text) {
+      line.push(token);
+      width += tokenWidth;
+    }
+
+    if (token.lineBreak) {
+      lines.push([]);
+      width = 0;
+    }
+  }
+
+  return lines.map((line) => mergeTokens(line));
+}
+
+/**
+ * Width of a token's trailing space, which may hang past the line end
+ */
+function trailingSpaceWidth(token: TextToken): number {
+  const spaces = token.text.length - token.text.trimEnd().length;
+  return spaces * token.size * 0.5;
+}
+
+/**
+ * Join adjacent tokens with the same formatting
+ */
+function mergeTokens(tokens: TextToken[]): TextToken[] {
+  const merged: TextToken[] = [];
+
+  for (const token of tokens) {
+    const last = merged[merged.length - 1];
+    if (
+      last && last.size === token.size && last.bold === token.bold && last.italic === token.italic &&
+      last.underline === token.underline && last.color === token.color && last.font === token.font
+    ) {
+      last.text += token.text;
+    } else {
+      merged.push({ ...token });
+    }
+  }
+
+  if (merged.length > 0) {
+    merged[merged.length - 1].text = merged[merged.length - 1].text.trimEnd();
+  }
+  return merged;
+}
+
+// ---------------------------------------------------------------------------
+// XML helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Find the first descendant with one of the tag names
+ */
+function findFirst(parent: Element, tagNames: string[]): Element | null {
+  for (const tagName of tagNames) {
+    const found = parent.getElementsByTagName(tagName)[0];
+    if (found) {
+      return found;
+    }
+  }
+  return null;
+}
+
+/**
+ * Round a number for SVG output
+ */
+function round(value: number, digits: number = 0): number {
+  const factor = Math.pow(10, digits);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,118 @@
+/**
+ * RST Word Add-in - Export Settings
+ * Conversion settings shared by the taskpane and the ribbon commands
+ *
+ * The taskpane and the function commands run on the same origin, so the
+ * settings chosen in the taskpane are kept in localStorage and used by
+ * the Export command as well.
+ */
+
+import { OutputFormat, DocumentSource, ImageNamingStrategy, MetafileFormat, StyleMapping } from '../converter/types';
+
+/**
+ * User-selectable export settings
+ */
+export interface ExportSettings {
+  /** Markup language of the preview and exported files */
+  outputFormat: OutputFormat;
+  /** Document representation the structure is read from */
+  source: DocumentSource;
+  /** How exported image files are named */
+  imageNaming: ImageNamingStrategy;
+  /** Format EMF and WMF images are converted to */
+  metafileFormat: MetafileFormat;
+  /** Heading level that starts a new file (0 = single document) */
+  splitLevel: number;
+  /** :maxdepth: of the index toctree */
+  toctreeMaxDepth: number;
+  /** Number the sections in the index toctree */
+  toctreeNumbered: boolean;
+  /** Word styles mapped to directives, roles, headings and code blocks */
+  styleMap: StyleMapping[];
+}
+
+/**
+ * Default export settings
+ */
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  outputFormat: 'rst',
+  source: 'html',
+  imageNaming: 'sequential',
+  metafileFormat: 'svg',
+  splitLevel: 0,
+  toctreeMaxDepth: 2,
+  toctreeNumbered: false,
+  styleMap: [],
+};
+
+/**
+ * Image naming strategies that can be saved
+ */
+const IMAGE_NAMING_STRATEGIES: ImageNamingStrategy[] = ['sequential', 'content-hash', 'caption'];
+
+/**
+ * localStorage key for the settings
+ */
+const STORAGE_KEY = 'rst-addin-export-settings';
+
+/**
+ * Load the saved export settings
+ *
+ * @returns Saved settings, with defaults for anything missing or invalid
+ */
+export function loadExportSettings(): ExportSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return {
+      outputFormat: saved.outputFormat === 'myst' ? 'myst' : DEFAULT_EXPORT_SETTINGS.outputFormat,
+      source: saved.source === 'ooxml' ? 'ooxml' : DEFAULT_EXPORT_SETTINGS.source,
+      imageNaming: IMAGE_NAMING_STRATEGIES.includes(saved.imageNaming) ? saved.imageNaming : DEFAULT_EXPORT_SETTINGS.imageNaming,
+      metafileFormat: saved.metafileFormat === 'png' ? 'png' : DEFAULT_EXPORT_SETTINGS.metafileFormat,
+      splitLevel: Number.isInteger(saved.splitLevel) ? saved.splitLevel : DEFAULT_EXPORT_SETTINGS.splitLevel,
+      toctreeMaxDepth: Number.isInteger(saved.toctreeMaxDepth) ? saved.toctreeMaxDepth : DEFAULT_EXPORT_SETTINGS.toctreeMaxDepth,
+      toctreeNumbered: typeof saved.toctreeNumbered === 'boolean' ? saved.toctreeNumbered : DEFAULT_EXPORT_SETTINGS.toctreeNumbered,
+      styleMap: Array.isArray(saved.styleMap) ? saved.styleMap.filter(isObject) : DEFAULT_EXPORT_SETTINGS.styleMap,
+    };
+  } catch {
+    // localStorage unavailable or corrupt
+    return { ...DEFAULT_EXPORT_SETTINGS };
+  }
+}
+
+/**
+ * Check that a saved value is a plain object (a style mapping)
+ */
+function isObject(value: unknown): value is StyleMapping {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * Save export settings
+ *
+ * @param settings - Settings to keep for later sessions and commands
+ */
+export function saveExportSettings(settings: ExportSettings): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    console.warn('Could not save export settings');
+  }
+}
+
+/**
+ * File extension, MIME type and display name of each output format
+ */
+const OUTPUT_FILE_TYPES: Record<OutputFormat, { extension: string; mimeType: string; label: string }> = {
+  rst: { extension: 'rst', mimeType: 'text/x-rst', label: 'RST' },
+  myst: { extension: 'md', mimeType: 'text/markdown', label: 'MyST' },
+};
+
+/**
+ * Get the file type of an output format
+ *
+ * @param format - Output format
+ * @returns File extension (without dot), MIME type and display name
+ */
+export function getOutputFileType(format: OutputFormat): { extension: string; mimeType: string; label: string } {
+  return OUTPUT_FILE_TYPES[format];
+}
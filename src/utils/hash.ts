@@ -0,0 +1,34 @@
+/**
+ * RST Word Add-in - Content Hashing
+ * Fast, stable hashes for naming files after their content
+ *
+ * The hash is not cryptographic; it only needs to give identical content
+ * the same name in every conversion and different content different names.
+ * SubtleCrypto would do, but it is async and the converter is not.
+ */
+
+/**
+ * Hash text to 16 hex digits
+ *
+ * Two 32-bit multiply-xor lanes over the UTF-16 code units, mixed at the
+ * end (cyrb53 with both lanes kept).
+ *
+ * @param text - Text to hash (e.g., base64 image data)
+ * @returns 64-bit hash as lowercase hex
+ */
+export function hashContent(text: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ code, 2654435761);
+    h2 = Math.imul(h2 ^ code, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  const hex = (value: number) => (value >>> 0).toString(16).padStart(8, '0');
+  return hex(h2) + hex(h1);
+}
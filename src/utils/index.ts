@@ -16,3 +16,91 @@ export {
   findNearbyCaption,
   parseAllCaptions,
 } from './caption-parser';
+
+// OOXML helpers
+export {
+  parseOoxmlPackage,
+  getOoxmlPart,
+  getOoxmlBinaryPart,
+  getOoxmlRelationships,
+  getOoxmlThemeColors,
+  getWordprocessingText,
+  extractNotesFromOoxml,
+  extractOoxmlPictures,
+  getPictureElements,
+  readOoxmlPicture,
+  matchOoxmlPictures,
+  OoxmlNotes,
+  OoxmlRelationship,
+  OoxmlPicture,
+  OoxmlPictureSource,
+} from './ooxml';
+
+// XML element helpers
+export {
+  EMU_PER_PIXEL,
+  childElement,
+  childElements,
+  findAncestor,
+  hasAncestor,
+  getVal,
+  isOn,
+  escapeXml,
+} from './xml';
+
+// DrawingML shapes
+export { isShapeDrawing, renderDrawingSvg, DrawingRenderOptions, RenderedDrawing } from './drawingml-svg';
+
+// Metafiles (EMF/WMF)
+export { detectMetafile, renderMetafileSvg, RenderedMetafile } from './metafile-svg';
+
+// Base64
+export { textToBase64, bytesToBase64, base64ToBytes } from './base64';
+
+// Content hashing
+export { hashContent } from './hash';
+
+// Code language detection
+export {
+  normalizeCodeLanguage,
+  detectCodeLanguage,
+} from './code-language';
+
+// RST escaping
+export {
+  escapeInlineText,
+  escapeLineStarts,
+  escapeLiteralText,
+  unescapeText,
+} from './rst-escape';
+
+// MyST escaping
+export {
+  escapeMystInline,
+  escapeMystLineStarts,
+  escapeMystText,
+} from './myst-escape';
+
+// Style mapping
+export {
+  normalizeStyleName,
+  matchesStylePattern,
+  findStyleMapping,
+  validateStyleMap,
+  getStyleMappingProblem,
+  parseStyleMap,
+  StyleKind,
+  ParsedStyleMap,
+} from './style-map';
+
+// Reference labels
+export { normalizeLabel, prefixLabel, uniqueLabel } from './labels';
+
+// Export settings
+export {
+  loadExportSettings,
+  saveExportSettings,
+  getOutputFileType,
+  DEFAULT_EXPORT_SETTINGS,
+  ExportSettings,
+} from './export-settings';
@@ -0,0 +1,51 @@
+/**
+ * RST Word Add-in - Reference Labels
+ * Builds RST reference label names from Word bookmark names and text
+ */
+
+/**
+ * Normalize a name to a reference label
+ *
+ * Labels are lowercase with runs of other characters collapsed to single
+ * hyphens (e.g., "_Toc123456" -> "toc123456", "My Section" -> "my-section").
+ *
+ * @param name - Bookmark name or text
+ * @returns Normalized label (empty if the name has no letters or digits)
+ */
+export function normalizeLabel(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Add a prefix to a label
+ *
+ * @param label - Normalized label
+ * @param prefix - Prefix such as the document name (ignored if empty)
+ * @returns Prefixed, normalized label (e.g., "user-guide-installation")
+ */
+export function prefixLabel(label: string, prefix?: string): string {
+  const normalizedPrefix = normalizeLabel(prefix || '');
+  return normalizedPrefix ? `${normalizedPrefix}-${label}` : label;
+}
+
+/**
+ * Make a label unique within a document
+ *
+ * Repeated labels get a numeric suffix ("setup", "setup-2", "setup-3").
+ * The returned label is added to the used set.
+ *
+ * @param label - Preferred label
+ * @param used - Labels already taken
+ * @returns Unique label
+ */
+export function uniqueLabel(label: string, used: Set<string>): string {
+  let candidate = label;
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = `${label}-${n}`;
+  }
+  used.add(candidate);
+  return candidate;
+}
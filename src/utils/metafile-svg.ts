@@ -0,0 +1,1860 @@
+/**
+ * RST Word Add-in - Metafile to SVG
+ * Converts EMF and WMF pictures to SVG
+ *
+ * Pictures pasted from Visio and older Windows programs are stored in the
+ * document as Windows metafiles, which browsers and Sphinx cannot show.
+ * A metafile is a list of GDI drawing calls; they are replayed here on a
+ * minimal device context (pens, brushes, fonts, mapping modes, world
+ * transform, paths and clipping) that writes SVG. Bitmaps inside the
+ * metafile are embedded as BMP, JPEG or PNG data.
+ *
+ * The output is in device units of the metafile's reference device, with
+ * the picture bounds as the viewBox. Records that cannot be drawn are
+ * counted and reported by name.
+ *
+ * @see https://learn.microsoft.com/en-us/openspecs/windows_protocols/ms-emf
+ * @see https://learn.microsoft.com/en-us/openspecs/windows_protocols/ms-wmf
+ */
+
+import { base64ToBytes, bytesToBase64 } from './base64';
+import { escapeXml } from './xml';
+
+/**
+ * Metafile rendered as SVG
+ */
+export interface RenderedMetafile {
+  /** Metafile format that was read */
+  type: 'emf' | 'wmf';
+  /** SVG document */
+  svg: string;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Records that were not drawn, with counts (e.g., "EMR_PLGBLT (2)") */
+  unsupported: string[];
+}
+
+/**
+ * Pen of the device context
+ */
+interface Pen {
+  /** PS_* style; the low four bits are the dash style */
+  style: number;
+  /** Width in logical units (0 = one device pixel) */
+  width: number;
+  color: string;
+}
+
+/**
+ * Brush of the device context
+ */
+interface Brush {
+  /** BS_SOLID, BS_NULL or BS_HATCHED (others are drawn as solid) */
+  style: number;
+  color: string;
+  /** HS_* hatch style */
+  hatch: number;
+}
+
+/**
+ * Font of the device context
+ */
+interface Font {
+  /** Height in logical units (negative = character height) */
+  height: number;
+  weight: number;
+  italic: boolean;
+  underline: boolean;
+  strikeOut: boolean;
+  /** Angle of the baseline in tenths of a degree */
+  escapement: number;
+  face: string;
+}
+
+/**
+ * Graphics object created by a record
+ */
+type GdiObject =
+  | { kind: 'pen'; pen: Pen }
+  | { kind: 'brush'; brush: Brush }
+  | { kind: 'font'; font: Font }
+  | { kind: 'other' };
+
+/**
+ * Device context state (saved and restored by SaveDC/RestoreDC)
+ */
+interface DeviceContext {
+  pen: Pen;
+  brush: Brush;
+  font: Font;
+  textColor: string;
+  backgroundColor: string;
+  /** Whether text backgrounds and hatch gaps are filled (OPAQUE) */
+  opaque: boolean;
+  /** TA_* text alignment flags */
+  textAlign: number;
+  fillRule: 'evenodd' | 'nonzero';
+  mapMode: number;
+  windowOrg: [number, number];
+  windowExt: [number, number];
+  viewportOrg: [number, number];
+  viewportExt: [number, number];
+  /** World transform (eM11, eM12, eM21, eM22, eDx, eDy) */
+  transform: number[];
+  /** Current position in logical units */
+  position: [number, number];
+  /** ID of the clip path, if clipping */
+  clip: string | null;
+  clockwise: boolean;
+}
+
+/**
+ * State of one conversion
+ */
+interface Renderer {
+  dc: DeviceContext;
+  saved: DeviceContext[];
+  /** Object table (EMF handles or WMF slots) */
+  objects: (GdiObject | null)[];
+  /** SVG elements in drawing order */
+  elements: string[];
+  defs: string[];
+  /** Path being recorded between BeginPath and EndPath */
+  path: string[] | null;
+  /** Path completed by EndPath */
+  completedPath: string | null;
+  /** Device pixels per millimeter (for metric mapping modes) */
+  pixelsPerMm: [number, number];
+  /** Size of one output pixel in device units (width of cosmetic pens) */
+  pixelSize: number;
+  /** Bounds of everything drawn, in device units */
+  bounds: [number, number, number, number] | null;
+  unsupported: Map<string, number>;
+  nextId: number;
+}
+
+/**
+ * Mapping modes (MM_*)
+ */
+const MM_TEXT = 1;
+const MM_ISOTROPIC = 7;
+const MM_ANISOTROPIC = 8;
+
+/**
+ * Size of one logical unit in millimeters for the metric mapping modes
+ */
+const METRIC_UNITS: Record<number, number> = {
+  2: 0.1, // MM_LOMETRIC
+  3: 0.01, // MM_HIMETRIC
+  4: 0.254, // MM_LOENGLISH
+  5: 0.0254, // MM_HIENGLISH
+  6: 25.4 / 1440, // MM_TWIPS
+};
+
+/**
+ * Text alignment flags (TA_*)
+ */
+const TA_UPDATECP = 0x0001;
+const TA_RIGHT = 0x0002;
+const TA_CENTER = 0x0006;
+const TA_BOTTOM = 0x0008;
+const TA_BASELINE = 0x0018;
+
+/**
+ * Raster operations of bitmap records
+ */
+const ROP_BLACKNESS = 0x00000042;
+const ROP_PATCOPY = 0x00f00021;
+const ROP_WHITENESS = 0x00ff0062;
+
+/**
+ * Dash patterns (in pen widths) by pen style
+ */
+const DASH_PATTERNS: Record<number, number[]> = {
+  1: [3, 1], // PS_DASH
+  2: [1, 1], // PS_DOT
+  3: [3, 1, 1, 1], // PS_DASHDOT
+  4: [3, 1, 1, 1, 1, 1], // PS_DASHDOTDOT
+};
+
+/**
+ * Lines of an 8x8 hatch pattern by hatch style (HS_*)
+ */
+const HATCH_PATHS: Record<number, string> = {
+  0: 'M0 4 H8', // HS_HORIZONTAL
+  1: 'M4 0 V8', // HS_VERTICAL
+  2: 'M0 0 L8 8', // HS_FDIAGONAL
+  3: 'M0 8 L8 0', // HS_BDIAGONAL
+  4: 'M0 4 H8 M4 0 V8', // HS_CROSS
+  5: 'M0 0 L8 8 M0 8 L8 0', // HS_DIAGCROSS
+};
+
+/**
+ * Stock objects of EMF files (handle 0x80000000 + index)
+ */
+const STOCK_OBJECTS: Record<number, GdiObject> = {
+  0: { kind: 'brush', brush: { style: 0, color: '#FFFFFF', hatch: 0 } },
+  1: { kind: 'brush', brush: { style: 0, color: '#C0C0C0', hatch: 0 } },
+  2: { kind: 'brush', brush: { style: 0, color: '#808080', hatch: 0 } },
+  3: { kind: 'brush', brush: { style: 0, color: '#404040', hatch: 0 } },
+  4: { kind: 'brush', brush: { style: 0, color: '#000000', hatch: 0 } },
+  5: { kind: 'brush', brush: { style: 1, color: '#000000', hatch: 0 } },
+  6: { kind: 'pen', pen: { style: 0, width: 0, color: '#FFFFFF' } },
+  7: { kind: 'pen', pen: { style: 0, width: 0, color: '#000000' } },
+  8: { kind: 'pen', pen: { style: 5, width: 0, color: '#000000' } },
+};
+
+/**
+ * Names of EMF record types, for reporting
+ */
+const EMF_RECORD_NAMES: Record<number, string> = {
+  15: 'EMR_SETPIXELV',
+  26: 'EMR_OFFSETCLIPRGN',
+  29: 'EMR_EXCLUDECLIPRECT',
+  41: 'EMR_ANGLEARC',
+  53: 'EMR_EXTFLOODFILL',
+  56: 'EMR_POLYDRAW',
+  71: 'EMR_FILLRGN',
+  72: 'EMR_FRAMERGN',
+  73: 'EMR_INVERTRGN',
+  74: 'EMR_PAINTRGN',
+  76: 'EMR_BITBLT',
+  78: 'EMR_MASKBLT',
+  79: 'EMR_PLGBLT',
+  92: 'EMR_POLYDRAW16',
+  93: 'EMR_CREATEMONOBRUSH',
+  94: 'EMR_CREATEDIBPATTERNBRUSHPT',
+  96: 'EMR_POLYTEXTOUTA',
+  97: 'EMR_POLYTEXTOUTW',
+  118: 'EMR_GRADIENTFILL',
+};
+
+/**
+ * EMF records without visible effect here (palettes, color management, hints)
+ */
+const EMF_IGNORED_RECORDS = [
+  13, 16, 20, 21, 23, 28, 48, 49, 50, 51, 52, 58, 65, 66, 68, 98, 99, 100, 101, 102, 105, 106, 110, 111, 115, 119, 120, 121,
+];
+
+/**
+ * Names of WMF record functions, for reporting
+ */
+const WMF_RECORD_NAMES: Record<number, string> = {
+  0x0220: 'META_OFFSETCLIPRGN',
+  0x0228: 'META_FILLREGION',
+  0x0415: 'META_EXCLUDECLIPRECT',
+  0x0419: 'META_FLOODFILL',
+  0x0429: 'META_FRAMEREGION',
+  0x012a: 'META_INVERTREGION',
+  0x012b: 'META_PAINTREGION',
+  0x012c: 'META_SELECTCLIPREGION',
+  0x0548: 'META_EXTFLOODFILL',
+  0x0922: 'META_BITBLT',
+  0x0b23: 'META_STRETCHBLT',
+  0x0d33: 'META_SETDIBTODEV',
+  0x01f9: 'META_CREATEPATTERNBRUSH',
+  0x0142: 'META_DIBCREATEPATTERNBRUSH',
+};
+
+/**
+ * WMF records without visible effect here
+ */
+const WMF_IGNORED_RECORDS = [
+  0x0035, 0x0037, 0x0104, 0x0105, 0x0107, 0x0108, 0x0139, 0x0149, 0x020a, 0x0231, 0x0234, 0x0436, 0x0626,
+];
+
+/**
+ * Check the signature of metafile data
+ *
+ * @param bytes - Image data
+ * @returns 'emf', 'wmf' or null for other formats
+ */
+export function detectMetafile(bytes: Uint8Array): 'emf' | 'wmf' | null {
+  if (bytes.length < 44) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+  // EMR_HEADER record with the " EMF" signature
+  if (view.getUint32(0, true) === 1 && view.getUint32(40, true) === 0x464d4520) {
+    return 'emf';
+  }
+
+  // Placeable WMF header, or a plain WMF header (type 1 or 2, 9-word header)
+  if (view.getUint32(0, true) === 0x9ac6cdd7) {
+    return 'wmf';
+  }
+  const type = view.getUint16(0, true);
+  if ((type === 1 || type === 2) && view.getUint16(2, true) === 9) {
+    return 'wmf';
+  }
+
+  return null;
+}
+
+/**
+ * Convert an EMF or WMF picture to SVG
+ *
+ * @param base64Data - Metafile data as base64
+ * @returns SVG with its size and the records left out, or null if the data is not a readable metafile
+ */
+export function renderMetafileSvg(base64Data: string): RenderedMetafile | null {
+  const bytes = base64ToBytes(base64Data);
+  const type = bytes ? detectMetafile(bytes) : null;
+  if (!bytes || !type) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const renderer = createRenderer();
+
+  const frame = type === 'emf' ? readEmf(view, renderer) : readWmf(view, renderer);
+  if (!frame) {
+    return null;
+  }
+
+  // Fall back to the extent of the drawing when the file gives no bounds
+  const [left, top, right, bottom] = frame.viewBox || renderer.bounds || [0, 0, 1, 1];
+  const viewWidth = Math.max(right - left, 1);
+  const viewHeight = Math.max(bottom - top, 1);
+  const width = Math.max(1, Math.round(frame.width || viewWidth));
+  const height = Math.max(1, Math.round(frame.height || viewHeight));
+
+  const defs = renderer.defs.length > 0 ? `<defs>${renderer.defs.join('')}</defs>` : '';
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" ` +
+    `viewBox="${num(left)} ${num(top)} ${num(viewWidth)} ${num(viewHeight)}" preserveAspectRatio="none">` +
+    `${defs}${renderer.elements.join('')}</svg>`;
+
+  const unsupported = Array.from(renderer.unsupported, ([name, count]) => (count > 1 ? `${name} (${count})` : name));
+
+  return { type, svg, width, height, unsupported };
+}
+
+/**
+ * Create a renderer with a default device context
+ */
+function createRenderer(): Renderer {
+  return {
+    dc: {
+      pen: { style: 0, width: 0, color: '#000000' },
+      brush: { style: 0, color: '#FFFFFF', hatch: 0 },
+      font: { height: -12, weight: 400, italic: false, underline: false, strikeOut: false, escapement: 0, face: 'Arial' },
+      textColor: '#000000',
+      backgroundColor: '#FFFFFF',
+      opaque: true,
+      textAlign: 0,
+      fillRule: 'evenodd',
+      mapMode: MM_TEXT,
+      windowOrg: [0, 0],
+      windowExt: [1, 1],
+      viewportOrg: [0, 0],
+      viewportExt: [1, 1],
+      transform: [1, 0, 0, 1, 0, 0],
+      position: [0, 0],
+      clip: null,
+      clockwise: false,
+    },
+    saved: [],
+    objects: [],
+    elements: [],
+    defs: [],
+    path: null,
+    completedPath: null,
+    pixelsPerMm: [96 / 25.4, 96 / 25.4],
+    pixelSize: 1,
+    bounds: null,
+    unsupported: new Map(),
+    nextId: 1,
+  };
+}
+
+/**
+ * Picture frame read from the metafile header
+ */
+interface MetafileFrame {
+  /** Bounds in device units (left, top, right, bottom) */
+  viewBox?: [number, number, number, number];
+  /** Size in pixels */
+  width?: number;
+  height?: number;
+}
+
+// ---------------------------------------------------------------------------
+// EMF
+// ---------------------------------------------------------------------------
+
+/**
+ * Replay the records of an EMF file
+ *
+ * @returns Picture frame, or null if the header is truncated
+ */
+function readEmf(view: DataView, renderer: Renderer): MetafileFrame | null {
+  const headerSize = view.getUint32(4, true);
+  if (headerSize < 88 || headerSize > view.byteLength) {
+    return null;
+  }
+
+  const frame: MetafileFrame = {};
+  let hasEmfPlus = false;
+  let offset = 0;
+
+  while (offset + 8 <= view.byteLength) {
+    const type = view.getUint32(offset, true);
+    const size = view.getUint32(offset + 4, true);
+    if (size < 8 || offset + size > view.byteLength) {
+      break;
+    }
+
+    const record = new DataView(view.buffer, view.byteOffset + offset, size);
+    if (type === 1) {
+      Object.assign(frame, readEmfHeader(record, renderer));
+    } else if (type === 14) {
+      break;
+    } else if (type === 70 && size >= 16 && record.getUint32(12, true) === 0x2b464d45) {
+      // EMR_GDICOMMENT holding EMF+ records; dual files have GDI records too
+      hasEmfPlus = true;
+    } else if (!EMF_IGNORED_RECORDS.includes(type) && type !== 70) {
+      try {
+        if (!playEmfRecord(type, record, renderer)) {
+          report(renderer, EMF_RECORD_NAMES[type] || `EMF record ${type}`);
+        }
+      } catch {
+        // Truncated record
+        report(renderer, EMF_RECORD_NAMES[type] || `EMF record ${type}`);
+      }
+    }
+
+    offset += size;
+  }
+
+  if (hasEmfPlus && renderer.elements.length === 0) {
+    report(renderer, 'EMF+ records');
+  }
+
+  return frame;
+}
+
+/**
+ * Read the EMF header: bounds, frame and reference device size
+ */
+function readEmfHeader(record: DataView, renderer: Renderer): MetafileFrame {
+  // A later header record (there should be none) may be short
+  if (record.byteLength < 88) {
+    return {};
+  }
+
+  const bounds = readRect(record, 8);
+  const frameRect = readRect(record, 24);
+
+  const deviceWidth = record.getInt32(72, true);
+  const deviceHeight = record.getInt32(76, true);
+  const millimetersWidth = record.getInt32(80, true);
+  const millimetersHeight = record.getInt32(84, true);
+  if (deviceWidth > 0 && millimetersWidth > 0 && deviceHeight > 0 && millimetersHeight > 0) {
+    renderer.pixelsPerMm = [deviceWidth / millimetersWidth, deviceHeight / millimetersHeight];
+  }
+
+  // The frame is in 0.01 mm and includes the right and bottom edges
+  const frameWidth = ((frameRect[2] - frameRect[0]) / 100) * (96 / 25.4);
+  const frameHeight = ((frameRect[3] - frameRect[1]) / 100) * (96 / 25.4);
+
+  let viewBox: [number, number, number, number] | undefined;
+  if (bounds[2] >= bounds[0] && bounds[3] >= bounds[1]) {
+    viewBox = [bounds[0], bounds[1], bounds[2] + 1, bounds[3] + 1];
+  } else if (frameWidth > 0 && frameHeight > 0) {
+    const [x, y] = renderer.pixelsPerMm;
+    viewBox = [
+      (frameRect[0] / 100) * x,
+      (frameRect[1] / 100) * y,
+      (frameRect[2] / 100) * x,
+      (frameRect[3] / 100) * y,
+    ];
+  }
+
+  if (viewBox && frameWidth > 0) {
+    renderer.pixelSize = (viewBox[2] - viewBox[0]) / frameWidth;
+  }
+
+  return {
+    viewBox,
+    width: frameWidth > 0 ? frameWidth : undefined,
+    height: frameHeight > 0 ? frameHeight : undefined,
+  };
+}
+
+/**
+ * Play one EMF record
+ *
+ * @returns False if the record is not supported
+ */
+function playEmfRecord(type: number, r: DataView, renderer: Renderer): boolean {
+  const dc = renderer.dc;
+  const i32 = (offset: number) => r.getInt32(offset, true);
+  const u32 = (offset: number) => r.getUint32(offset, true);
+
+  switch (type) {
+    // Polygons and lines with 32-bit (2-6) or 16-bit (85-89) points
+    case 2:
+    case 3:
+    case 4:
+    case 5:
+    case 6:
+    case 85:
+    case 86:
+    case 87:
+    case 88:
+    case 89: {
+      const small = type >= 85;
+      const points = readPoints(r, 28, u32(24), small);
+      switch (small ? type - 83 : type) {
+        case 2:
+          drawBezier(renderer, points, false);
+          break;
+        case 3:
+          drawPolyline(renderer, points, true);
+          break;
+        case 4:
+          drawPolyline(renderer, points, false);
+          break;
+        case 5:
+          drawBezier(renderer, points, true);
+          break;
+        default:
+          drawPolylineTo(renderer, points);
+          break;
+      }
+      return true;
+    }
+    case 7:
+    case 8:
+    case 90:
+    case 91: {
+      const small = type >= 90;
+      const polygonCount = u32(24);
+      const counts = Array.from({ length: polygonCount }, (_, i) => u32(32 + i * 4));
+      const points = readPoints(r, 32 + polygonCount * 4, u32(28), small);
+      drawPolyPolygon(renderer, points, counts, type === 8 || type === 91);
+      return true;
+    }
+    case 9:
+      dc.windowExt = [i32(8), i32(12)];
+      return true;
+    case 10:
+      dc.windowOrg = [i32(8), i32(12)];
+      return true;
+    case 11:
+      dc.viewportExt = [i32(8), i32(12)];
+      return true;
+    case 12:
+      dc.viewportOrg = [i32(8), i32(12)];
+      return true;
+    case 31:
+    case 32: {
+      // EMR_SCALEVIEWPORTEXTEX / EMR_SCALEWINDOWEXTEX: ext * num / denom
+      const ext = type === 31 ? dc.viewportExt : dc.windowExt;
+      if (i32(12) && i32(20)) {
+        ext[0] = (ext[0] * i32(8)) / i32(12);
+        ext[1] = (ext[1] * i32(16)) / i32(20);
+      }
+      return true;
+    }
+    case 15: {
+      // EMR_SETPIXELV
+      const [x, y] = [i32(8), i32(12)];
+      emitShape(renderer, polygonPath(renderer, [[x, y], [x + 1, y], [x + 1, y + 1], [x, y + 1]]), readColor(r, 16), 'none');
+      return true;
+    }
+    case 17:
+      dc.mapMode = u32(8);
+      return true;
+    case 18:
+      dc.opaque = u32(8) === 2;
+      return true;
+    case 19:
+      dc.fillRule = u32(8) === 2 ? 'nonzero' : 'evenodd';
+      return true;
+    case 22:
+      dc.textAlign = u32(8);
+      return true;
+    case 24:
+      dc.textColor = readColor(r, 8);
+      return true;
+    case 25:
+      dc.backgroundColor = readColor(r, 8);
+      return true;
+    case 27:
+      moveTo(renderer, i32(8), i32(12));
+      return true;
+    case 30:
+      intersectClipRect(renderer, readRect(r, 8));
+      return true;
+    case 33:
+      saveDC(renderer);
+      return true;
+    case 34:
+      restoreDC(renderer, i32(8));
+      return true;
+    case 35:
+      dc.transform = readXform(r, 8);
+      return true;
+    case 36: {
+      const xform = readXform(r, 8);
+      const mode = u32(32);
+      if (mode === 1) {
+        dc.transform = [1, 0, 0, 1, 0, 0];
+      } else if (mode === 2) {
+        dc.transform = multiplyXform(xform, dc.transform);
+      } else if (mode === 3) {
+        dc.transform = multiplyXform(dc.transform, xform);
+      } else if (mode === 4) {
+        dc.transform = xform;
+      }
+      return true;
+    }
+    case 37:
+      selectObject(renderer, u32(8));
+      return true;
+    case 38:
+      renderer.objects[u32(8)] = { kind: 'pen', pen: { style: u32(12), width: i32(16), color: readColor(r, 24) } };
+      return true;
+    case 95: {
+      // EMR_EXTCREATEPEN: cosmetic pens are one pixel wide
+      const style = u32(28);
+      const geometric = (style & 0x00010000) !== 0;
+      const brushStyle = u32(36);
+      renderer.objects[u32(8)] = {
+        kind: 'pen',
+        pen: { style: brushStyle === 1 ? 5 : style, width: geometric ? u32(32) : 0, color: readColor(r, 40) },
+      };
+      return true;
+    }
+    case 39:
+      renderer.objects[u32(8)] = { kind: 'brush', brush: { style: u32(12), color: readColor(r, 16), hatch: u32(20) } };
+      return true;
+    case 93:
+    case 94:
+      // Pattern brushes are drawn in gray
+      renderer.objects[u32(8)] = { kind: 'brush', brush: { style: 0, color: '#808080', hatch: 0 } };
+      return false;
+    case 40:
+      renderer.objects[u32(8)] = null;
+      return true;
+    case 82:
+      renderer.objects[u32(8)] = { kind: 'font', font: readLogFont(r, 12, true) };
+      return true;
+    case 42:
+      drawEllipse(renderer, readRect(r, 8));
+      return true;
+    case 43:
+      drawRectangle(renderer, readRect(r, 8));
+      return true;
+    case 44:
+      drawRoundRect(renderer, readRect(r, 8), i32(24), i32(28));
+      return true;
+    case 45:
+    case 46:
+    case 47:
+    case 55: {
+      const kind = type === 45 ? 'arc' : type === 46 ? 'chord' : type === 47 ? 'pie' : 'arcto';
+      drawArc(renderer, readRect(r, 8), [i32(24), i32(28)], [i32(32), i32(36)], kind);
+      return true;
+    }
+    case 54:
+      lineTo(renderer, i32(8), i32(12));
+      return true;
+    case 57:
+      dc.clockwise = u32(8) === 2;
+      return true;
+    case 59:
+      renderer.path = [];
+      return true;
+    case 60:
+      renderer.completedPath = renderer.path?.join(' ') || null;
+      renderer.path = null;
+      return true;
+    case 61:
+      renderer.path?.push('Z');
+      return true;
+    case 62:
+    case 63:
+    case 64: {
+      const d = renderer.path ? renderer.path.join(' ') : renderer.completedPath;
+      if (d) {
+        emitShape(renderer, d, type === 64 ? 'none' : getFill(renderer), type === 62 ? 'none' : undefined);
+      }
+      renderer.path = null;
+      renderer.completedPath = null;
+      return true;
+    }
+    case 67:
+      if (renderer.completedPath) {
+        setClip(renderer, `<path d="${renderer.completedPath}" clip-rule="${dc.fillRule}"/>`, u32(8) === 1);
+      }
+      renderer.completedPath = null;
+      return true;
+    case 75:
+      return selectClipRegion(renderer, r);
+    case 76:
+    case 77:
+    case 114:
+    case 116: {
+      // EMR_BITBLT, EMR_STRETCHBLT, EMR_ALPHABLEND, EMR_TRANSPARENTBLT
+      const dest: [number, number, number, number] = [i32(24), i32(28), i32(32), i32(36)];
+      const rop = type === 76 || type === 77 ? u32(40) : 0x00cc0020;
+      const bmi = readBytes(r, u32(84), u32(88));
+      const bits = readBytes(r, u32(92), u32(96));
+      if (bmi.length === 0) {
+        return fillPattern(renderer, dest, rop);
+      }
+      const source: [number, number, number, number] =
+        type === 76 ? [i32(44), i32(48), dest[2], dest[3]] : [i32(44), i32(48), i32(100), i32(104)];
+      drawBitmap(renderer, dest, source, bmi, bits, false);
+      return true;
+    }
+    case 80: {
+      // EMR_SETDIBITSTODEVICE: unscaled
+      const source: [number, number, number, number] = [i32(32), i32(36), i32(40), i32(44)];
+      const dest: [number, number, number, number] = [i32(24), i32(28), source[2], source[3]];
+      drawBitmap(renderer, dest, source, readBytes(r, u32(48), u32(52)), readBytes(r, u32(56), u32(60)), true);
+      return true;
+    }
+    case 81: {
+      // EMR_STRETCHDIBITS
+      const source: [number, number, number, number] = [i32(32), i32(36), i32(40), i32(44)];
+      const dest: [number, number, number, number] = [i32(24), i32(28), i32(72), i32(76)];
+      drawBitmap(renderer, dest, source, readBytes(r, u32(48), u32(52)), readBytes(r, u32(56), u32(60)), true);
+      return true;
+    }
+    case 83:
+    case 84: {
+      // EMR_EXTTEXTOUTA / EMR_EXTTEXTOUTW: EMRTEXT at 36
+      const count = u32(44);
+      const wide = type === 84;
+      const text = readString(r, u32(48), count, wide);
+      const options = u32(52);
+      const dx = u32(72) ? readSpacing(r, u32(72), count, (options & 0x2000) !== 0) : undefined;
+      if (options & 0x0002) {
+        fillOpaqueRect(renderer, readRect(r, 56));
+      }
+      drawText(renderer, i32(36), i32(40), text, dx);
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Select a clip region (EMR_EXTSELECTCLIPRGN); its rectangles are in device units
+ */
+function selectClipRegion(renderer: Renderer, r: DataView): boolean {
+  const dataSize = r.getUint32(8, true);
+  const mode = r.getUint32(12, true);
+
+  if (dataSize === 0) {
+    // RGN_COPY with no region resets clipping
+    renderer.dc.clip = null;
+    return mode === 5;
+  }
+
+  const count = r.getUint32(24, true);
+  const rects: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const [left, top, right, bottom] = readRect(r, 48 + i * 16);
+    rects.push(`<rect x="${left}" y="${top}" width="${right - left}" height="${bottom - top}"/>`);
+  }
+
+  // RGN_AND intersects; RGN_COPY replaces (OR, XOR and DIFF are treated as COPY)
+  setClip(renderer, rects.join(''), mode === 1);
+  return mode === 1 || mode === 5;
+}
+
+// ---------------------------------------------------------------------------
+// WMF
+// ---------------------------------------------------------------------------
+
+/**
+ * Replay the records of a WMF file
+ *
+ * @returns Picture frame, or null if the header is truncated
+ */
+function readWmf(view: DataView, renderer: Renderer): MetafileFrame | null {
+  const frame: MetafileFrame = {};
+  let offset = 0;
+
+  // Placeable header: bounding box in logical units and units per inch
+  if (view.getUint32(0, true) === 0x9ac6cdd7) {
+    const left = view.getInt16(6, true);
+    const top = view.getInt16(8, true);
+    const right = view.getInt16(10, true);
+    const bottom = view.getInt16(12, true);
+    const unitsPerInch = view.getUint16(14, true) || 1440;
+
+    frame.viewBox = [left, top, right, bottom];
+    frame.width = (Math.abs(right - left) / unitsPerInch) * 96;
+    frame.height = (Math.abs(bottom - top) / unitsPerInch) * 96;
+    renderer.pixelSize = unitsPerInch / 96;
+
+    // Logical units map onto the bounding box once the window is set
+    renderer.dc.viewportOrg = [left, top];
+    renderer.dc.viewportExt = [right - left, bottom - top];
+    offset = 22;
+  }
+
+  // META_HEADER: type, header size in words (9), ...
+  if (offset + 18 > view.byteLength || view.getUint16(offset + 2, true) !== 9) {
+    return null;
+  }
+  offset += 18;
+
+  while (offset + 6 <= view.byteLength) {
+    const size = view.getUint32(offset, true) * 2;
+    const func = view.getUint16(offset + 4, true);
+    if (func === 0 || size < 6 || offset + size > view.byteLength) {
+      break;
+    }
+
+    const record = new DataView(view.buffer, view.byteOffset + offset + 6, size - 6);
+    if (!WMF_IGNORED_RECORDS.includes(func)) {
+      try {
+        if (!playWmfRecord(func, record, renderer, frame)) {
+          report(renderer, WMF_RECORD_NAMES[func] || `WMF record 0x${func.toString(16).padStart(4, '0')}`);
+        }
+      } catch {
+        report(renderer, WMF_RECORD_NAMES[func] || `WMF record 0x${func.toString(16).padStart(4, '0')}`);
+      }
+    }
+
+    offset += size;
+  }
+
+  return frame;
+}
+
+/**
+ * Play one WMF record
+ *
+ * Most WMF records list their parameters in reverse order (y before x,
+ * bottom-right before top-left).
+ *
+ * @param p - Record parameters (after size and function)
+ * @returns False if the record is not supported
+ */
+function playWmfRecord(func: number, p: DataView, renderer: Renderer, frame: MetafileFrame): boolean {
+  const dc = renderer.dc;
+  const i16 = (offset: number) => p.getInt16(offset, true);
+  const u16 = (offset: number) => p.getUint16(offset, true);
+  const rect = (offset: number): [number, number, number, number] => [
+    i16(offset + 6),
+    i16(offset + 4),
+    i16(offset + 2),
+    i16(offset),
+  ];
+
+  switch (func) {
+    case 0x020b:
+      dc.windowOrg = [i16(2), i16(0)];
+      return true;
+    case 0x020c:
+      dc.windowExt = [i16(2), i16(0)];
+      // Without a placeable header the window is the picture
+      if (!frame.viewBox) {
+        dc.viewportExt = [...dc.windowExt];
+        dc.viewportOrg = [0, 0];
+      }
+      dc.mapMode = MM_ANISOTROPIC;
+      return true;
+    case 0x020f:
+      dc.windowOrg = [dc.windowOrg[0] + i16(2), dc.windowOrg[1] + i16(0)];
+      return true;
+    case 0x0410:
+      // META_SCALEWINDOWEXT: yDenom, yNum, xDenom, xNum
+      if (i16(4) && i16(0)) {
+        dc.windowExt = [(dc.windowExt[0] * i16(6)) / i16(4), (dc.windowExt[1] * i16(2)) / i16(0)];
+      }
+      return true;
+    case 0x020d:
+    case 0x020e:
+    case 0x0211:
+    case 0x0412:
+      // The viewport is the picture frame; files rarely move it
+      return true;
+    case 0x0103:
+      // Pictures are scaled to their frame whatever the mapping mode
+      return true;
+    case 0x0102:
+      dc.opaque = u16(0) === 2;
+      return true;
+    case 0x0106:
+      dc.fillRule = u16(0) === 2 ? 'nonzero' : 'evenodd';
+      return true;
+    case 0x012e:
+      dc.textAlign = u16(0);
+      return true;
+    case 0x0209:
+      dc.textColor = readColor(p, 0);
+      return true;
+    case 0x0201:
+      dc.backgroundColor = readColor(p, 0);
+      return true;
+    case 0x0214:
+      moveTo(renderer, i16(2), i16(0));
+      return true;
+    case 0x0213:
+      lineTo(renderer, i16(2), i16(0));
+      return true;
+    case 0x0324:
+    case 0x0325:
+      drawPolyline(renderer, readPoints(p, 2, i16(0), true), func === 0x0324);
+      return true;
+    case 0x0538: {
+      const polygonCount = u16(0);
+      const counts = Array.from({ length: polygonCount }, (_, i) => u16(2 + i * 2));
+      const total = counts.reduce((sum, count) => sum + count, 0);
+      drawPolyPolygon(renderer, readPoints(p, 2 + polygonCount * 2, total, true), counts, true);
+      return true;
+    }
+    case 0x0418:
+      drawEllipse(renderer, rect(0));
+      return true;
+    case 0x041b:
+      drawRectangle(renderer, rect(0));
+      return true;
+    case 0x061c:
+      drawRoundRect(renderer, rect(4), i16(2), i16(0));
+      return true;
+    case 0x0817:
+    case 0x081a:
+    case 0x0830: {
+      const kind = func === 0x0817 ? 'arc' : func === 0x081a ? 'pie' : 'chord';
+      drawArc(renderer, rect(8), [i16(6), i16(4)], [i16(2), i16(0)], kind);
+      return true;
+    }
+    case 0x041f: {
+      // META_SETPIXEL
+      const [x, y] = [i16(6), i16(4)];
+      emitShape(renderer, polygonPath(renderer, [[x, y], [x + 1, y], [x + 1, y + 1], [x, y + 1]]), readColor(p, 0), 'none');
+      return true;
+    }
+    case 0x0416:
+      intersectClipRect(renderer, rect(0));
+      return true;
+    case 0x001e:
+      saveDC(renderer);
+      return true;
+    case 0x0127:
+      restoreDC(renderer, i16(0));
+      return true;
+    case 0x02fa:
+      addWmfObject(renderer, { kind: 'pen', pen: { style: u16(0), width: i16(2), color: readColor(p, 6) } });
+      return true;
+    case 0x02fc:
+      addWmfObject(renderer, { kind: 'brush', brush: { style: u16(0), color: readColor(p, 2), hatch: u16(6) } });
+      return true;
+    case 0x02fb:
+      addWmfObject(renderer, { kind: 'font', font: readLogFont(p, 0, false) });
+      return true;
+    case 0x00f7:
+    case 0x06ff:
+      // Palettes and regions take an object slot
+      addWmfObject(renderer, { kind: 'other' });
+      return true;
+    case 0x01f9:
+    case 0x0142:
+      // Pattern brushes are drawn in gray
+      addWmfObject(renderer, { kind: 'brush', brush: { style: 0, color: '#808080', hatch: 0 } });
+      return false;
+    case 0x012d:
+      selectObject(renderer, u16(0));
+      return true;
+    case 0x01f0:
+      renderer.objects[u16(0)] = null;
+      return true;
+    case 0x0521: {
+      // META_TEXTOUT: length, string (padded to words), y, x
+      const count = i16(0);
+      const padded = count + (count % 2);
+      drawText(renderer, i16(4 + padded), i16(2 + padded), readString(p, 2, count, false));
+      return true;
+    }
+    case 0x0a32: {
+      // META_EXTTEXTOUT: y, x, length, options, [rectangle], string, [dx]
+      const count = i16(4);
+      const options = u16(6);
+      let offset = 8;
+      if (options & 0x0006) {
+        if (options & 0x0002) {
+          fillOpaqueRect(renderer, [i16(8), i16(10), i16(12), i16(14)]);
+        }
+        offset += 8;
+      }
+      const text = readString(p, offset, count, false);
+      offset += count + (count % 2);
+      const dx = offset + count * 2 <= p.byteLength
+        ? Array.from({ length: count }, (_, i) => i16(offset + i * 2))
+        : undefined;
+      drawText(renderer, i16(2), i16(0), text, dx);
+      return true;
+    }
+    case 0x061d: {
+      // META_PATBLT: rop, height, width, y, x
+      const dest: [number, number, number, number] = [i16(10), i16(8), i16(6), i16(4)];
+      return fillPattern(renderer, dest, p.getUint32(0, true));
+    }
+    case 0x0f43: {
+      // META_STRETCHDIB: rop, usage, source (h, w, y, x), destination (h, w, y, x), DIB
+      const source: [number, number, number, number] = [i16(12), i16(10), i16(8), i16(6)];
+      const dest: [number, number, number, number] = [i16(20), i16(18), i16(16), i16(14)];
+      drawDib(renderer, dest, source, readBytes(p, 22, p.byteLength - 22));
+      return true;
+    }
+    case 0x0b41:
+    case 0x0940: {
+      // META_DIBSTRETCHBLT / META_DIBBITBLT; without a bitmap they fill with the brush
+      const stretch = func === 0x0b41;
+      const withoutBitmap = p.byteLength + 6 === ((func >> 8) + 3) * 2;
+      const rop = p.getUint32(0, true);
+      if (withoutBitmap) {
+        const base = stretch ? 14 : 10;
+        return fillPattern(renderer, [i16(base + 6), i16(base + 4), i16(base + 2), i16(base)], rop);
+      }
+      if (stretch) {
+        const source: [number, number, number, number] = [i16(10), i16(8), i16(6), i16(4)];
+        drawDib(renderer, [i16(18), i16(16), i16(14), i16(12)], source, readBytes(p, 20, p.byteLength - 20));
+      } else {
+        const [height, width] = [i16(8), i16(10)];
+        drawDib(renderer, [i16(14), i16(12), width, height], [i16(6), i16(4), width, height], readBytes(p, 16, p.byteLength - 16));
+      }
+      return true;
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Put an object in the lowest free WMF object slot
+ */
+function addWmfObject(renderer: Renderer, object: GdiObject): void {
+  let slot = renderer.objects.findIndex((existing) => !existing);
+  if (slot < 0) {
+    slot = renderer.objects.length;
+  }
+  renderer.objects[slot] = object;
+}
+
+/**
+ * Draw a device-independent bitmap whose header and bits are in one block (WMF)
+ */
+function drawDib(
+  renderer: Renderer,
+  dest: [number, number, number, number],
+  source: [number, number, number, number],
+  dib: Uint8Array
+): void {
+  const headerSize = getDibHeaderSize(dib);
+  drawBitmap(renderer, dest, source, dib.subarray(0, headerSize), dib.subarray(headerSize), true);
+}
+
+// ---------------------------------------------------------------------------
+// Device context
+// ---------------------------------------------------------------------------
+
+/**
+ * Count a record that was not drawn
+ */
+function report(renderer: Renderer, name: string): void {
+  renderer.unsupported.set(name, (renderer.unsupported.get(name) || 0) + 1);
+}
+
+/**
+ * Select a pen, brush or font (EMF stock objects have the high bit set)
+ */
+function selectObject(renderer: Renderer, handle: number): void {
+  const object = handle & 0x80000000 ? STOCK_OBJECTS[handle & 0x7fffffff] : renderer.objects[handle];
+
+  if (object?.kind === 'pen') {
+    renderer.dc.pen = object.pen;
+  } else if (object?.kind === 'brush') {
+    renderer.dc.brush = object.brush;
+  } else if (object?.kind === 'font') {
+    renderer.dc.font = object.font;
+  }
+}
+
+/**
+ * Save the device context
+ */
+function saveDC(renderer: Renderer): void {
+  const dc = renderer.dc;
+  renderer.saved.push({
+    ...dc,
+    windowOrg: [...dc.windowOrg],
+    windowExt: [...dc.windowExt],
+    viewportOrg: [...dc.viewportOrg],
+    viewportExt: [...dc.viewportExt],
+    transform: [...dc.transform],
+    position: [...dc.position],
+  });
+}
+
+/**
+ * Restore a saved device context (negative = relative to the latest)
+ */
+function restoreDC(renderer: Renderer, index: number): void {
+  const position = index < 0 ? renderer.saved.length + index : index - 1;
+  if (position >= 0 && position < renderer.saved.length) {
+    renderer.dc = renderer.saved[position];
+    renderer.saved.length = position;
+  }
+}
+
+/**
+ * Convert a logical point to device units
+ */
+function toDevice(renderer: Renderer, x: number, y: number): [number, number] {
+  const dc = renderer.dc;
+  const [a, b, c, d, e, f] = dc.transform;
+  const worldX = x * a + y * c + e;
+  const worldY = x * b + y * d + f;
+  const [scaleX, scaleY] = getPageScale(renderer);
+
+  const deviceX = (worldX - dc.windowOrg[0]) * scaleX + dc.viewportOrg[0];
+  const deviceY = (worldY - dc.windowOrg[1]) * scaleY + dc.viewportOrg[1];
+  extendBounds(renderer, deviceX, deviceY);
+  return [deviceX, deviceY];
+}
+
+/**
+ * Get the scale from page (world) units to device units
+ */
+function getPageScale(renderer: Renderer): [number, number] {
+  const dc = renderer.dc;
+
+  if (dc.mapMode === MM_ISOTROPIC || dc.mapMode === MM_ANISOTROPIC) {
+    let scaleX = dc.windowExt[0] ? dc.viewportExt[0] / dc.windowExt[0] : 1;
+    let scaleY = dc.windowExt[1] ? dc.viewportExt[1] / dc.windowExt[1] : 1;
+    if (dc.mapMode === MM_ISOTROPIC) {
+      const scale = Math.min(Math.abs(scaleX), Math.abs(scaleY));
+      scaleX = Math.sign(scaleX || 1) * scale;
+      scaleY = Math.sign(scaleY || 1) * scale;
+    }
+    return [scaleX, scaleY];
+  }
+
+  const unit = METRIC_UNITS[dc.mapMode];
+  if (unit) {
+    // Metric modes have y pointing up
+    return [unit * renderer.pixelsPerMm[0], -unit * renderer.pixelsPerMm[1]];
+  }
+
+  return [1, 1];
+}
+
+/**
+ * Convert a logical length to device units
+ */
+function lengthToDevice(renderer: Renderer, length: number, vertical: boolean = false): number {
+  const [a, b, c, d] = renderer.dc.transform;
+  const [scaleX, scaleY] = getPageScale(renderer);
+  const world = vertical ? Math.hypot(c, d) : Math.hypot(a, b);
+  return Math.abs(length * world * (vertical ? scaleY : scaleX));
+}
+
+/**
+ * Grow the drawing bounds by a device point
+ */
+function extendBounds(renderer: Renderer, x: number, y: number): void {
+  const bounds = renderer.bounds;
+  if (!bounds) {
+    renderer.bounds = [x, y, x, y];
+    return;
+  }
+  bounds[0] = Math.min(bounds[0], x);
+  bounds[1] = Math.min(bounds[1], y);
+  bounds[2] = Math.max(bounds[2], x);
+  bounds[3] = Math.max(bounds[3], y);
+}
+
+/**
+ * Multiply two world transforms (first applied first)
+ */
+function multiplyXform(first: number[], second: number[]): number[] {
+  const [a1, b1, c1, d1, e1, f1] = first;
+  const [a2, b2, c2, d2, e2, f2] = second;
+  return [
+    a1 * a2 + b1 * c2,
+    a1 * b2 + b1 * d2,
+    c1 * a2 + d1 * c2,
+    c1 * b2 + d1 * d2,
+    e1 * a2 + f1 * c2 + e2,
+    e1 * b2 + f1 * d2 + f2,
+  ];
+}
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+/**
+ * Format a logical point as device coordinates for a path
+ */
+function point(renderer: Renderer, x: number, y: number): string {
+  const [deviceX, deviceY] = toDevice(renderer, x, y);
+  return `${num(deviceX)} ${num(deviceY)}`;
+}
+
+/**
+ * Closed polygon path through logical points
+ */
+function polygonPath(renderer: Renderer, points: number[][]): string {
+  return `M${points.map(([x, y]) => point(renderer, x, y)).join(' L')} Z`;
+}
+
+/**
+ * Add a shape to the open path, or draw it
+ *
+ * @param fill - Paint for the fill, or 'none'
+ * @param stroke - 'none' to leave out the outline; the pen otherwise
+ */
+function emitShape(renderer: Renderer, d: string, fill: string, stroke?: 'none'): void {
+  if (renderer.path) {
+    renderer.path.push(d);
+    return;
+  }
+
+  const attributes = [`d="${d}"`, `fill="${fill}"`];
+  if (fill !== 'none') {
+    attributes.push(`fill-rule="${renderer.dc.fillRule}"`);
+  }
+  attributes.push(...(stroke === 'none' ? ['stroke="none"'] : getStroke(renderer)));
+  if (renderer.dc.clip) {
+    attributes.push(`clip-path="url(#${renderer.dc.clip})"`);
+  }
+
+  renderer.elements.push(`<path ${attributes.join(' ')}/>`);
+}
+
+/**
+ * Get the fill paint of the current brush
+ */
+function getFill(renderer: Renderer): string {
+  const brush = renderer.dc.brush;
+
+  if (brush.style === 1) {
+    return 'none';
+  }
+  if (brush.style === 2) {
+    return `url(#${createHatch(renderer, brush)})`;
+  }
+  return brush.color;
+}
+
+/**
+ * Get the stroke attributes of the current pen
+ */
+function getStroke(renderer: Renderer): string[] {
+  const pen = renderer.dc.pen;
+  const dashStyle = pen.style & 0x0f;
+  if (dashStyle === 5) {
+    return ['stroke="none"'];
+  }
+
+  // Pens of width 0 are one pixel wide
+  const width = Math.max(lengthToDevice(renderer, pen.width), renderer.pixelSize);
+  const attributes = [`stroke="${pen.color}"`, `stroke-width="${num(width)}"`];
+
+  const dash = DASH_PATTERNS[dashStyle];
+  if (dash) {
+    attributes.push(`stroke-dasharray="${dash.map((part) => num(part * width * 2)).join(' ')}"`);
+  }
+
+  const cap = pen.style & 0x0f00;
+  attributes.push(`stroke-linecap="${cap === 0x0100 ? 'square' : cap === 0x0200 ? 'butt' : 'round'}"`);
+  const join = pen.style & 0xf000;
+  attributes.push(`stroke-linejoin="${join === 0x1000 ? 'bevel' : join === 0x2000 ? 'miter' : 'round'}"`);
+
+  return attributes;
+}
+
+/**
+ * Define a hatch pattern for a hatched brush
+ *
+ * @returns Pattern ID
+ */
+function createHatch(renderer: Renderer, brush: Brush): string {
+  const id = `hatch-${renderer.nextId++}`;
+  const background = renderer.dc.opaque ? `<rect width="8" height="8" fill="${renderer.dc.backgroundColor}"/>` : '';
+
+  // Hatches are 8 pixels apart whatever the device resolution
+  const scale = renderer.pixelSize !== 1 ? ` patternTransform="scale(${num(renderer.pixelSize)})"` : '';
+
+  renderer.defs.push(
+    `<pattern id="${id}" width="8" height="8" patternUnits="userSpaceOnUse"${scale}>${background}` +
+      `<path d="${HATCH_PATHS[brush.hatch] || HATCH_PATHS[0]}" stroke="${brush.color}" stroke-width="1"/></pattern>`
+  );
+  return id;
+}
+
+/**
+ * Set the current position
+ */
+function moveTo(renderer: Renderer, x: number, y: number): void {
+  renderer.dc.position = [x, y];
+  renderer.path?.push(`M${point(renderer, x, y)}`);
+}
+
+/**
+ * Draw a line from the current position
+ */
+function lineTo(renderer: Renderer, x: number, y: number): void {
+  const [fromX, fromY] = renderer.dc.position;
+  renderer.dc.position = [x, y];
+
+  if (renderer.path) {
+    if (renderer.path.length === 0) {
+      renderer.path.push(`M${point(renderer, fromX, fromY)}`);
+    }
+    renderer.path.push(`L${point(renderer, x, y)}`);
+    return;
+  }
+
+  emitShape(renderer, `M${point(renderer, fromX, fromY)} L${point(renderer, x, y)}`, 'none');
+}
+
+/**
+ * Draw a polyline or polygon
+ */
+function drawPolyline(renderer: Renderer, points: number[][], closed: boolean): void {
+  if (points.length === 0) {
+    return;
+  }
+  const d = `M${points.map(([x, y]) => point(renderer, x, y)).join(' L')}${closed ? ' Z' : ''}`;
+  emitShape(renderer, d, closed ? getFill(renderer) : 'none');
+}
+
+/**
+ * Draw lines from the current position through the points
+ */
+function drawPolylineTo(renderer: Renderer, points: number[][]): void {
+  if (points.length === 0) {
+    return;
+  }
+  if (renderer.path && renderer.path.length > 0) {
+    // Continue the open figure
+    for (const [x, y] of points) {
+      renderer.path.push(`L${point(renderer, x, y)}`);
+    }
+  } else {
+    drawPolyline(renderer, [renderer.dc.position, ...points], false);
+  }
+  renderer.dc.position = [points[points.length - 1][0], points[points.length - 1][1]];
+}
+
+/**
+ * Draw several polygons (or polylines) as one shape
+ */
+function drawPolyPolygon(renderer: Renderer, points: number[][], counts: number[], closed: boolean): void {
+  const subpaths: string[] = [];
+  let index = 0;
+
+  for (const count of counts) {
+    const polygon = points.slice(index, index + count);
+    index += count;
+    if (polygon.length > 0) {
+      subpaths.push(`M${polygon.map(([x, y]) => point(renderer, x, y)).join(' L')}${closed ? ' Z' : ''}`);
+    }
+  }
+
+  if (subpaths.length > 0) {
+    emitShape(renderer, subpaths.join(' '), closed ? getFill(renderer) : 'none');
+  }
+}
+
+/**
+ * Draw Bézier curves (three points per curve), from the first point or the current position
+ */
+function drawBezier(renderer: Renderer, points: number[][], fromCurrent: boolean): void {
+  const all = fromCurrent ? [renderer.dc.position, ...points] : points;
+  if (all.length < 4) {
+    return;
+  }
+
+  const segments = [`M${point(renderer, all[0][0], all[0][1])}`];
+  for (let i = 1; i + 2 < all.length; i += 3) {
+    segments.push(`C${[all[i], all[i + 1], all[i + 2]].map(([x, y]) => point(renderer, x, y)).join(' ')}`);
+  }
+
+  if (renderer.path && fromCurrent && renderer.path.length > 0) {
+    // Continue the open figure
+    segments.shift();
+  }
+  emitShape(renderer, segments.join(' '), 'none');
+
+  if (fromCurrent) {
+    const last = all[all.length - 1];
+    renderer.dc.position = [last[0], last[1]];
+  }
+}
+
+/**
+ * Draw a rectangle
+ */
+function drawRectangle(renderer: Renderer, [left, top, right, bottom]: number[]): void {
+  emitShape(renderer, polygonPath(renderer, [[left, top], [right, top], [right, bottom], [left, bottom]]), getFill(renderer));
+}
+
+/**
+ * Draw a rectangle with rounded corners (corner ellipse width and height)
+ */
+function drawRoundRect(renderer: Renderer, [left, top, right, bottom]: number[], width: number, height: number): void {
+  const rx = Math.min(Math.abs(width) / 2, Math.abs(right - left) / 2);
+  const ry = Math.min(Math.abs(height) / 2, Math.abs(bottom - top) / 2);
+  const corner = (cx: number, cy: number, start: number) =>
+    arcSegments(renderer, cx, cy, rx, ry, start, Math.PI / 2).join(' ');
+
+  const d = [
+    `M${point(renderer, left + rx, top)}`,
+    `L${point(renderer, right - rx, top)}`,
+    corner(right - rx, top + ry, -Math.PI / 2),
+    `L${point(renderer, right, bottom - ry)}`,
+    corner(right - rx, bottom - ry, 0),
+    `L${point(renderer, left + rx, bottom)}`,
+    corner(left + rx, bottom - ry, Math.PI / 2),
+    `L${point(renderer, left, top + ry)}`,
+    corner(left + rx, top + ry, Math.PI),
+    'Z',
+  ];
+  emitShape(renderer, d.join(' '), getFill(renderer));
+}
+
+/**
+ * Draw an ellipse inscribed in a rectangle
+ */
+function drawEllipse(renderer: Renderer, [left, top, right, bottom]: number[]): void {
+  const [cx, cy] = [(left + right) / 2, (top + bottom) / 2];
+  const [rx, ry] = [Math.abs(right - left) / 2, Math.abs(bottom - top) / 2];
+
+  const d = `M${point(renderer, cx + rx, cy)} ${arcSegments(renderer, cx, cy, rx, ry, 0, 2 * Math.PI).join(' ')} Z`;
+  emitShape(renderer, d, getFill(renderer));
+}
+
+/**
+ * Draw an arc, chord or pie of the ellipse in a rectangle
+ *
+ * The arc runs from the point where the radial through start meets the
+ * ellipse to the one through end, counterclockwise unless the arc
+ * direction is clockwise.
+ */
+function drawArc(
+  renderer: Renderer,
+  [left, top, right, bottom]: number[],
+  start: number[],
+  end: number[],
+  kind: 'arc' | 'chord' | 'pie' | 'arcto'
+): void {
+  const [cx, cy] = [(left + right) / 2, (top + bottom) / 2];
+  const [rx, ry] = [Math.abs(right - left) / 2 || 1, Math.abs(bottom - top) / 2 || 1];
+  const startAngle = Math.atan2((start[1] - cy) / ry, (start[0] - cx) / rx);
+  const endAngle = Math.atan2((end[1] - cy) / ry, (end[0] - cx) / rx);
+
+  // Angles grow clockwise on screen (y points down)
+  const turn = (angle: number) => ((angle % (2 * Math.PI)) + 2 * Math.PI) % (2 * Math.PI) || 2 * Math.PI;
+  const sweep = renderer.dc.clockwise ? turn(endAngle - startAngle) : -turn(startAngle - endAngle);
+
+  const startX = cx + rx * Math.cos(startAngle);
+  const startY = cy + ry * Math.sin(startAngle);
+  const arc = arcSegments(renderer, cx, cy, rx, ry, startAngle, sweep).join(' ');
+
+  let d: string;
+  switch (kind) {
+    case 'chord':
+      d = `M${point(renderer, startX, startY)} ${arc} Z`;
+      break;
+    case 'pie':
+      d = `M${point(renderer, cx, cy)} L${point(renderer, startX, startY)} ${arc} Z`;
+      break;
+    case 'arcto': {
+      const [fromX, fromY] = renderer.dc.position;
+      d = `L${point(renderer, startX, startY)} ${arc}`;
+      if (!renderer.path || renderer.path.length === 0) {
+        d = `M${point(renderer, fromX, fromY)} ${d}`;
+      }
+      const endAt = startAngle + sweep;
+      renderer.dc.position = [cx + rx * Math.cos(endAt), cy + ry * Math.sin(endAt)];
+      break;
+    }
+    default:
+      d = `M${point(renderer, startX, startY)} ${arc}`;
+      break;
+  }
+
+  emitShape(renderer, d, kind === 'chord' || kind === 'pie' ? getFill(renderer) : 'none');
+}
+
+/**
+ * Cubic Bézier segments (at most 90° each) approximating an elliptical arc
+ *
+ * Points are computed in logical units and transformed, so the arc
+ * follows rotations and skews of the world transform.
+ */
+function arcSegments(
+  renderer: Renderer,
+  cx: number,
+  cy: number,
+  rx: number,
+  ry: number,
+  start: number,
+  sweep: number
+): string[] {
+  const count = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+  const step = sweep / count;
+  const k = (4 / 3) * Math.tan(step / 4);
+  const segments: string[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const a1 = start + i * step;
+    const a2 = a1 + step;
+    const [x1, y1] = [cx + rx * Math.cos(a1), cy + ry * Math.sin(a1)];
+    const [x2, y2] = [cx + rx * Math.cos(a2), cy + ry * Math.sin(a2)];
+
+    segments.push(
+      `C${point(renderer, x1 - k * rx * Math.sin(a1), y1 + k * ry * Math.cos(a1))} ` +
+        `${point(renderer, x2 + k * rx * Math.sin(a2), y2 - k * ry * Math.cos(a2))} ${point(renderer, x2, y2)}`
+    );
+  }
+
+  return segments;
+}
+
+/**
+ * Fill a rectangle for a bitmap record without a bitmap (pattern or constant fill)
+ *
+ * @returns False for raster operations other than pattern, black and white fills
+ */
+function fillPattern(renderer: Renderer, [x, y, width, height]: number[], rop: number): boolean {
+  const fill = rop === ROP_PATCOPY ? getFill(renderer) : rop === ROP_BLACKNESS ? '#000000' : rop === ROP_WHITENESS ? '#FFFFFF' : null;
+  if (!fill) {
+    return false;
+  }
+  emitShape(renderer, polygonPath(renderer, [[x, y], [x + width, y], [x + width, y + height], [x, y + height]]), fill, 'none');
+  return true;
+}
+
+/**
+ * Fill the background rectangle of opaque text
+ */
+function fillOpaqueRect(renderer: Renderer, [left, top, right, bottom]: number[]): void {
+  if (right > left && bottom > top) {
+    emitShape(renderer, polygonPath(renderer, [[left, top], [right, top], [right, bottom], [left, bottom]]), renderer.dc.backgroundColor, 'none');
+  }
+}
+
+/**
+ * Set or intersect the clip path
+ *
+ * @param shapes - Clip shapes in device units
+ * @param intersect - Intersect with the current clip instead of replacing it
+ */
+function setClip(renderer: Renderer, shapes: string, intersect: boolean): void {
+  const id = `clip-${renderer.nextId++}`;
+  const parent = intersect && renderer.dc.clip ? ` clip-path="url(#${renderer.dc.clip})"` : '';
+  renderer.defs.push(`<clipPath id="${id}" clipPathUnits="userSpaceOnUse"${parent}>${shapes}</clipPath>`);
+  renderer.dc.clip = id;
+}
+
+/**
+ * Intersect the clip region with a logical rectangle
+ */
+function intersectClipRect(renderer: Renderer, [left, top, right, bottom]: number[]): void {
+  const d = polygonPath(renderer, [[left, top], [right, top], [right, bottom], [left, bottom]]);
+  setClip(renderer, `<path d="${d}"/>`, true);
+}
+
+/**
+ * Draw text at a logical point
+ *
+ * @param dx - Advance of each character in logical units
+ */
+function drawText(renderer: Renderer, x: number, y: number, text: string, dx?: number[]): void {
+  const dc = renderer.dc;
+  if (dc.textAlign & TA_UPDATECP) {
+    [x, y] = dc.position;
+  }
+  if (!text.replace(/\0/g, '').trim()) {
+    return;
+  }
+
+  const font = dc.font;
+  // Positive heights are cell heights, which include internal leading
+  const size = lengthToDevice(renderer, font.height < 0 ? -font.height : font.height * 0.85, true) || 12;
+
+  // Positions of the characters, when the record gives their advances
+  const total = dx ? dx.reduce((sum, advance) => sum + advance, 0) : 0;
+  const horizontal = dc.textAlign & TA_CENTER;
+  let anchor = horizontal === TA_CENTER ? 'middle' : horizontal === TA_RIGHT ? 'end' : 'start';
+  let startX = x;
+  if (dx && anchor !== 'start') {
+    startX = anchor === 'end' ? x - total : x - total / 2;
+    anchor = 'start';
+  }
+
+  const [deviceX, deviceY] = toDevice(renderer, startX, y);
+
+  // SVG places text on its baseline
+  const vertical = dc.textAlign & TA_BASELINE;
+  const baselineShift = vertical === TA_BASELINE ? 0 : vertical === TA_BOTTOM ? -size * 0.21 : size * 0.9;
+
+  const attributes = [`y="${num(deviceY + baselineShift)}"`];
+  const rotation = font.escapement ? -font.escapement / 10 : 0;
+  if (dx && !rotation) {
+    let advance = 0;
+    const positions = Array.from(text, (_, i) => {
+      const position = toDevice(renderer, startX + advance, y)[0];
+      advance += dx[i] || 0;
+      return num(position);
+    });
+    attributes.unshift(`x="${positions.join(' ')}"`);
+  } else {
+    attributes.unshift(`x="${num(deviceX)}"`);
+  }
+
+  if (anchor !== 'start') {
+    attributes.push(`text-anchor="${anchor}"`);
+  }
+  attributes.push(`font-family="${escapeXml(font.face || 'Arial')}"`, `font-size="${num(size)}"`, `fill="${dc.textColor}"`);
+  if (font.weight >= 600) {
+    attributes.push('font-weight="bold"');
+  }
+  if (font.italic) {
+    attributes.push('font-style="italic"');
+  }
+  const decorations = [font.underline ? 'underline' : '', font.strikeOut ? 'line-through' : ''].filter((value) => value);
+  if (decorations.length > 0) {
+    attributes.push(`text-decoration="${decorations.join(' ')}"`);
+  }
+  if (rotation) {
+    attributes.push(`transform="rotate(${num(rotation)} ${num(deviceX)} ${num(deviceY)})"`);
+  }
+  if (dc.clip) {
+    attributes.push(`clip-path="url(#${dc.clip})"`);
+  }
+
+  renderer.elements.push(`<text ${attributes.join(' ')} xml:space="preserve">${escapeXml(text.replace(/\0/g, ''))}</text>`);
+
+  if (dc.textAlign & TA_UPDATECP) {
+    dc.position = [x + total, y];
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Bitmaps
+// ---------------------------------------------------------------------------
+
+/**
+ * Draw a bitmap into a logical rectangle
+ *
+ * @param dest - Destination x, y, width, height (logical units)
+ * @param source - Source x, y, width, height (bitmap pixels)
+ * @param bmi - BITMAPINFO (header and color table)
+ * @param bits - Pixel data
+ * @param bottomUpSource - Source y counts from the bottom of bottom-up bitmaps (DIB records)
+ */
+function drawBitmap(
+  renderer: Renderer,
+  [x, y, width, height]: number[],
+  source: number[],
+  bmi: Uint8Array,
+  bits: Uint8Array,
+  bottomUpSource: boolean
+): void {
+  if (bmi.length < 12) {
+    return;
+  }
+
+  const header = new DataView(bmi.buffer, bmi.byteOffset, bmi.byteLength);
+  const core = header.getUint32(0, true) === 12;
+  const bitmapWidth = Math.abs(core ? header.getUint16(4, true) : header.getInt32(4, true));
+  const signedHeight = core ? header.getUint16(6, true) : header.getInt32(8, true);
+  const bitmapHeight = Math.abs(signedHeight);
+  const compression = core ? 0 : header.getUint32(16, true);
+
+  // JPEG and PNG data is stored as is; other bitmaps become BMP files
+  let href: string;
+  if (compression === 4 || compression === 5) {
+    href = `data:image/${compression === 4 ? 'jpeg' : 'png'};base64,${bytesToBase64(bits)}`;
+  } else {
+    href = `data:image/bmp;base64,${bytesToBase64(createBmpFile(bmi, bits))}`;
+  }
+
+  const [x1, y1] = toDevice(renderer, x, y);
+  const [x2, y2] = toDevice(renderer, x + width, y + height);
+  const [sourceX, sourceY, sourceWidth, sourceHeight] = source;
+  const cropY = bottomUpSource && signedHeight > 0 ? bitmapHeight - sourceY - sourceHeight : sourceY;
+
+  const flip = [x2 < x1 ? -1 : 1, y2 < y1 ? -1 : 1];
+  const left = Math.min(x1, x2);
+  const top = Math.min(y1, y2);
+  const image = `<image width="${bitmapWidth}" height="${bitmapHeight}" preserveAspectRatio="none" href="${href}"/>`;
+
+  const cropped =
+    `<svg x="${num(left)}" y="${num(top)}" width="${num(Math.abs(x2 - x1))}" height="${num(Math.abs(y2 - y1))}" ` +
+    `viewBox="${sourceX} ${cropY} ${sourceWidth || bitmapWidth} ${sourceHeight || bitmapHeight}" preserveAspectRatio="none">${image}</svg>`;
+
+  const transform = flip[0] < 0 || flip[1] < 0
+    ? ` transform="translate(${num(flip[0] < 0 ? 2 * left + Math.abs(x2 - x1) : 0)} ${num(flip[1] < 0 ? 2 * top + Math.abs(y2 - y1) : 0)}) scale(${flip[0]} ${flip[1]})"`
+    : '';
+  const clip = renderer.dc.clip ? ` clip-path="url(#${renderer.dc.clip})"` : '';
+
+  renderer.elements.push(transform || clip ? `<g${transform}${clip}>${cropped}</g>` : cropped);
+}
+
+/**
+ * Get the size of a DIB's header and color table
+ */
+function getDibHeaderSize(dib: Uint8Array): number {
+  if (dib.length < 12) {
+    return dib.length;
+  }
+
+  const view = new DataView(dib.buffer, dib.byteOffset, dib.byteLength);
+  const headerSize = view.getUint32(0, true);
+  if (headerSize === 12) {
+    // BITMAPCOREHEADER with RGBTRIPLE colors
+    const bitCount = view.getUint16(10, true);
+    return 12 + (bitCount <= 8 ? (1 << bitCount) * 3 : 0);
+  }
+
+  const bitCount = view.getUint16(14, true);
+  const compression = view.getUint32(16, true);
+  const colorsUsed = view.getUint32(32, true);
+  const colors = colorsUsed || (bitCount <= 8 ? 1 << bitCount : 0);
+  // BI_BITFIELDS masks follow a BITMAPINFOHEADER
+  const masks = compression === 3 && headerSize === 40 ? 12 : 0;
+
+  return Math.min(dib.length, headerSize + masks + colors * 4);
+}
+
+/**
+ * Wrap a DIB in a BMP file header
+ */
+function createBmpFile(bmi: Uint8Array, bits: Uint8Array): Uint8Array {
+  const file = new Uint8Array(14 + bmi.length + bits.length);
+  const view = new DataView(file.buffer);
+
+  file[0] = 0x42; // "BM"
+  file[1] = 0x4d;
+  view.setUint32(2, file.length, true);
+  view.setUint32(10, 14 + bmi.length, true);
+  file.set(bmi, 14);
+  file.set(bits, 14 + bmi.length);
+
+  return file;
+}
+
+// ---------------------------------------------------------------------------
+// Record fields
+// ---------------------------------------------------------------------------
+
+/**
+ * Read a rectangle (left, top, right, bottom) of 32-bit integers
+ */
+function readRect(r: DataView, offset: number): [number, number, number, number] {
+  return [r.getInt32(offset, true), r.getInt32(offset + 4, true), r.getInt32(offset + 8, true), r.getInt32(offset + 12, true)];
+}
+
+/**
+ * Read points of 32-bit or 16-bit coordinates
+ */
+function readPoints(r: DataView, offset: number, count: number, small: boolean): number[][] {
+  const size = small ? 2 : 4;
+  const points: number[][] = [];
+
+  for (let i = 0; i < count; i++) {
+    const at = offset + i * size * 2;
+    points.push(small
+      ? [r.getInt16(at, true), r.getInt16(at + 2, true)]
+      : [r.getInt32(at, true), r.getInt32(at + 4, true)]);
+  }
+
+  return points;
+}
+
+/**
+ * Read a world transform (XFORM)
+ */
+function readXform(r: DataView, offset: number): number[] {
+  return Array.from({ length: 6 }, (_, i) => r.getFloat32(offset + i * 4, true));
+}
+
+/**
+ * Read a COLORREF as a CSS color
+ */
+function readColor(r: DataView, offset: number): string {
+  const hex = (i: number) => r.getUint8(offset + i).toString(16).padStart(2, '0').toUpperCase();
+  return `#${hex(0)}${hex(1)}${hex(2)}`;
+}
+
+/**
+ * Read bytes at an offset of the record
+ */
+function readBytes(r: DataView, offset: number, length: number): Uint8Array {
+  if (!length || offset + length > r.byteLength) {
+    return new Uint8Array(0);
+  }
+  return new Uint8Array(r.buffer, r.byteOffset + offset, length);
+}
+
+/**
+ * Read a string of UTF-16 or ANSI characters
+ */
+function readString(r: DataView, offset: number, count: number, wide: boolean): string {
+  const bytes = readBytes(r, offset, count * (wide ? 2 : 1));
+  return new TextDecoder(wide ? 'utf-16le' : 'windows-1252').decode(bytes);
+}
+
+/**
+ * Read character advances; with ETO_PDY they come in x/y pairs
+ */
+function readSpacing(r: DataView, offset: number, count: number, pairs: boolean): number[] {
+  const step = pairs ? 8 : 4;
+  const spacing: number[] = [];
+  for (let i = 0; i < count && offset + i * step + 4 <= r.byteLength; i++) {
+    spacing.push(r.getInt32(offset + i * step, true));
+  }
+  return spacing;
+}
+
+/**
+ * Read a LOGFONT (32-bit fields and a UTF-16 face name in EMF, 16-bit and ANSI in WMF)
+ */
+function readLogFont(r: DataView, offset: number, emf: boolean): Font {
+  const field = (index: number) => (emf ? r.getInt32(offset + index * 4, true) : r.getInt16(offset + index * 2, true));
+  const flags = offset + (emf ? 20 : 10);
+  const faceOffset = offset + (emf ? 28 : 18);
+
+  const face = emf
+    ? readString(r, faceOffset, Math.min(32, (r.byteLength - faceOffset) >> 1), true)
+    : readString(r, faceOffset, Math.min(32, r.byteLength - faceOffset), false);
+
+  return {
+    height: field(0),
+    escapement: field(2),
+    weight: field(4),
+    italic: r.getUint8(flags) !== 0,
+    underline: r.getUint8(flags + 1) !== 0,
+    strikeOut: r.getUint8(flags + 2) !== 0,
+    face: face.split('\0')[0].trim(),
+  };
+}
+
+/**
+ * Format a number for SVG output
+ */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
@@ -0,0 +1,142 @@
+/**
+ * RST Word Add-in - MyST Escaping
+ * Escapes literal document text so it is not mistaken for Markdown markup
+ *
+ * Like the RST escaping, only characters that could start markup in their
+ * position are escaped: "2 * 3" and "snake_case" stay as they are, while
+ * "*args", "[1](x)" and "<div>" are escaped.
+ *
+ * @see https://spec.commonmark.org/0.31.2/#backslash-escapes
+ * @see https://myst-parser.readthedocs.io/en/latest/syntax/typography.html
+ */
+
+/**
+ * Line-start constructs that would turn a paragraph into another block
+ */
+const LINE_START_PATTERNS: RegExp[] = [
+  // ATX headings
+  /^#{1,6}(?=\s|$)/,
+  // Block quotes
+  /^>/,
+  // Bullet lists and thematic breaks
+  /^[-+*](?=\s|$)/,
+  // Setext heading underlines
+  /^=+\s*$/,
+  // Fences (backticks are escaped inline) and MyST colon fences
+  /^(?:~{3,}|:{3,})/,
+  // MyST targets: "(label)="
+  /^\(.*\)=\s*$/,
+  // MyST comments and block breaks
+  /^(?:%|\+{3})/,
+  // Field lists and definition list items
+  /^:(?:[^:\s][^:]*:)?(?=\s|$)/,
+];
+
+/**
+ * Ordered list markers, escaped at the delimiter ("1986\. was a year")
+ */
+const ORDERED_MARKER_PATTERN = /^(\d{1,9})([.)])(?=\s|$)/;
+
+/**
+ * Check if a character is whitespace or a text boundary
+ */
+function isSpace(char: string): boolean {
+  return !char || /\s/.test(char);
+}
+
+/**
+ * Check if an emphasis character can open or close emphasis here
+ *
+ * A run surrounded by whitespace cannot; "_" inside a word cannot either.
+ */
+function canDelimit(char: string, before: string, after: string): boolean {
+  if (isSpace(before) && isSpace(after)) {
+    return false;
+  }
+  if (char === '_' && /[\p{L}\p{N}]/u.test(before) && /[\p{L}\p{N}]/u.test(after)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Escape a run of literal text for use in MyST inline content
+ *
+ * @param text - Literal text (no markup)
+ * @param preceding - Output text that comes before the run
+ * @param following - Text that comes after the run
+ * @returns Text with backslash escapes added where needed
+ */
+export function escapeMystInline(text: string, preceding: string = '', following: string = ''): string {
+  let result = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    const before = i > 0 ? text[i - 1] : preceding.slice(-1);
+    const after = i + 1 < text.length ? text[i + 1] : following.charAt(0);
+    const rest = text.slice(i + 1) + following;
+
+    let escape = false;
+    switch (char) {
+      case '\\':
+      case '`':
+      case '[':
+        escape = true;
+        break;
+      case '*':
+      case '_':
+        escape = canDelimit(char, before, after);
+        break;
+      case '<':
+        // Autolinks and raw HTML
+        escape = /^[a-zA-Z/!?]/.test(rest);
+        break;
+      case '&':
+        // Entity and character references
+        escape = /^(?:#\d+|#x[\da-fA-F]+|\w+);/.test(rest);
+        break;
+      case '{':
+        // MyST roles: {name}`content`
+        escape = /^[\w:.+-]+\}`/.test(rest);
+        break;
+    }
+
+    result += escape ? '\\' + char : char;
+  }
+
+  return result;
+}
+
+/**
+ * Escape constructs that are only significant at the start of a line
+ *
+ * @param text - Text that may already contain inline markup
+ * @returns Text with line-start constructs escaped
+ */
+export function escapeMystLineStarts(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => {
+      const indent = line.match(/^\s*/)?.[0] || '';
+      const rest = line.slice(indent.length);
+
+      if (ORDERED_MARKER_PATTERN.test(rest)) {
+        return indent + rest.replace(ORDERED_MARKER_PATTERN, '$1\\$2');
+      }
+      if (LINE_START_PATTERNS.some((pattern) => pattern.test(rest))) {
+        return `${indent}\\${rest}`;
+      }
+      return line;
+    })
+    .join('\n');
+}
+
+/**
+ * Escape plain literal text for use as a complete MyST text block
+ *
+ * @param text - Literal text (no markup)
+ * @returns Escaped text
+ */
+export function escapeMystText(text: string): string {
+  return escapeMystLineStarts(escapeMystInline(text));
+}
@@ -0,0 +1,631 @@
+/**
+ * RST Word Add-in - OOXML Helpers
+ * Reads parts out of the flat OPC package returned by Word's getOoxml()
+ *
+ * getOoxml() returns a single XML document (pkg:package) in which every
+ * part of the .docx (document.xml, footnotes.xml, media, ...) is embedded
+ * as a pkg:part element.
+ */
+
+import { ExtractedImage } from '../converter/types';
+import { isShapeDrawing, renderDrawingSvg } from './drawingml-svg';
+import { textToBase64 } from './base64';
+import { EMU_PER_PIXEL, hasAncestor } from './xml';
+
+/**
+ * Footnote and endnote text recovered from the OOXML package
+ */
+export interface OoxmlNotes {
+  /** Footnote text in reference order (index 0 = first footnote) */
+  footnotes: string[];
+  /** Endnote text in reference order (index 0 = first endnote) */
+  endnotes: string[];
+}
+
+/**
+ * Relationship of a package part to another part or an external resource
+ */
+export interface OoxmlRelationship {
+  /** Target part name (e.g., "/word/media/image1.png") or external URL */
+  target: string;
+  /** Whether the target is outside the package (hyperlinks, linked pictures) */
+  external: boolean;
+}
+
+/**
+ * Picture of document.xml with the data of its media part
+ *
+ * Drawings made of shapes are pictures too: they are rendered to SVG and
+ * have no media part.
+ */
+export interface OoxmlPicture {
+  /** Relationship ID of the picture (r:embed or r:id); empty for shapes */
+  relationshipId: string;
+  /** Media part name (e.g., "/word/media/image1.png"); empty for shapes */
+  partName: string;
+  /** Drawing name (e.g., "Group 3") of rendered shapes */
+  drawingName?: string;
+  /** Content type of the media part (e.g., "image/png") */
+  contentType: string;
+  /** File extension for the data (e.g., "png", "svg") */
+  format: string;
+  /** Media part data as base64 */
+  base64Data: string;
+  /** Displayed width in pixels */
+  width?: number;
+  /** Displayed height in pixels */
+  height?: number;
+  /** Alt text (description or title) */
+  altText?: string;
+  /** Parts of rendered shapes that were approximated or left out */
+  warnings?: string[];
+}
+
+/**
+ * Package data the pictures of a drawing are read from
+ */
+export interface OoxmlPictureSource {
+  /** Parsed OOXML package */
+  pkg: Document;
+  /** Relationships of the part holding the drawings */
+  relationships: Map<string, OoxmlRelationship>;
+  /** Theme colors by scheme name, for rendering shapes */
+  themeColors: Record<string, string>;
+}
+
+/**
+ * Largest size difference, in pixels, of a picture and the image it is matched to
+ */
+const SIZE_TOLERANCE = 2;
+
+/**
+ * Parse a flat OOXML package string
+ *
+ * @param ooxml - OOXML string from body.getOoxml()
+ * @returns Parsed XML document or null if it is not well-formed
+ */
+export function parseOoxmlPackage(ooxml: string): Document | null {
+  if (!ooxml) {
+    return null;
+  }
+
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(ooxml, 'application/xml');
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return null;
+  }
+
+  return doc;
+}
+
+/**
+ * Get the XML content of a package part
+ *
+ * @param pkg - Parsed OOXML package
+ * @param partName - Part name (e.g., "/word/document.xml")
+ * @returns Root element of the part's XML data, or null if not present
+ */
+export function getOoxmlPart(pkg: Document, partName: string): Element | null {
+  const xmlData = findOoxmlPart(pkg, partName)?.getElementsByTagName('pkg:xmlData')[0];
+  return xmlData?.firstElementChild || null;
+}
+
+/**
+ * Get the package part element with a name
+ */
+function findOoxmlPart(pkg: Document, partName: string): Element | null {
+  const parts = pkg.getElementsByTagName('pkg:part');
+
+  for (let i = 0; i < parts.length; i++) {
+    if (parts[i].getAttribute('pkg:name') === partName) {
+      return parts[i];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get the binary content of a package part
+ *
+ * @param pkg - Parsed OOXML package
+ * @param partName - Part name (e.g., "/word/media/image1.png")
+ * @returns Base64 data and content type, or null if not present
+ */
+export function getOoxmlBinaryPart(
+  pkg: Document,
+  partName: string
+): { base64Data: string; contentType: string } | null {
+  const part = findOoxmlPart(pkg, partName);
+  const data = part?.getElementsByTagName('pkg:binaryData')[0];
+  if (!part || !data) {
+    return null;
+  }
+
+  return {
+    base64Data: (data.textContent || '').replace(/\s/g, ''),
+    contentType: part.getAttribute('pkg:contentType') || '',
+  };
+}
+
+/**
+ * Get the relationships of a package part
+ *
+ * Targets of internal relationships are resolved to part names.
+ *
+ * @param pkg - Parsed OOXML package
+ * @param partName - Part whose relationships to read (default: "/word/document.xml")
+ * @returns Relationships by ID
+ */
+export function getOoxmlRelationships(
+  pkg: Document,
+  partName: string = '/word/document.xml'
+): Map<string, OoxmlRelationship> {
+  const relationships = new Map<string, OoxmlRelationship>();
+
+  const folder = partName.slice(0, partName.lastIndexOf('/') + 1);
+  const file = partName.slice(folder.length);
+  const rels = getOoxmlPart(pkg, `${folder}_rels/${file}.rels`);
+  if (!rels) {
+    return relationships;
+  }
+
+  const elements = rels.getElementsByTagName('Relationship');
+  for (let i = 0; i < elements.length; i++) {
+    const rel = elements[i];
+    const target = rel.getAttribute('Target') || '';
+    const external = rel.getAttribute('TargetMode') === 'External';
+
+    relationships.set(rel.getAttribute('Id') || '', {
+      target: external ? target : resolvePartName(folder, target),
+      external,
+    });
+  }
+
+  return relationships;
+}
+
+/**
+ * Resolve a relative relationship target against the source part's folder
+ */
+function resolvePartName(folder: string, target: string): string {
+  const segments = (target.startsWith('/') ? target : folder + target).split('/');
+  const resolved: string[] = [];
+
+  for (const segment of segments) {
+    if (segment === '..') {
+      resolved.pop();
+    } else if (segment && segment !== '.') {
+      resolved.push(segment);
+    }
+  }
+
+  return '/' + resolved.join('/');
+}
+
+/**
+ * Get the colors of the document's theme
+ *
+ * @param pkg - Parsed OOXML package
+ * @returns Hex colors by scheme name (e.g., accent1 -> "4472C4"); empty without a theme
+ */
+export function getOoxmlThemeColors(pkg: Document): Record<string, string> {
+  const colors: Record<string, string> = {};
+  const scheme = getOoxmlPart(pkg, '/word/theme/theme1.xml')?.getElementsByTagName('a:clrScheme')[0];
+  if (!scheme) {
+    return colors;
+  }
+
+  for (const entry of Array.from(scheme.children)) {
+    const color = entry.firstElementChild;
+    const value = color?.getAttribute('lastClr') || color?.getAttribute('val');
+    if (value && /^[0-9a-f]{6}$/i.test(value)) {
+      colors[entry.tagName.replace(/^a:/, '')] = value.toUpperCase();
+    }
+  }
+
+  return colors;
+}
+
+/**
+ * Get the plain text of a WordprocessingML fragment
+ *
+ * Paragraphs are separated by blank lines, w:br by newlines and w:tab by
+ * a single space.
+ *
+ * @param element - WordprocessingML element (e.g., w:footnote)
+ * @returns Text content
+ */
+export function getWordprocessingText(element: Element): string {
+  const paragraphs: string[] = [];
+
+  const paraElements = element.getElementsByTagName('w:p');
+  for (let i = 0; i < paraElements.length; i++) {
+    let text = '';
+    const nodes = paraElements[i].getElementsByTagName('*');
+
+    for (let j = 0; j < nodes.length; j++) {
+      const node = nodes[j];
+      switch (node.tagName) {
+        case 'w:t':
+          text += node.textContent || '';
+          break;
+        case 'w:br':
+          text += '\n';
+          break;
+        case 'w:tab':
+          text += ' ';
+          break;
+      }
+    }
+
+    if (text.trim()) {
+      paragraphs.push(text.trim());
+    }
+  }
+
+  return paragraphs.join('\n\n');
+}
+
+/**
+ * Extract footnote and endnote text from an OOXML package
+ *
+ * Notes are returned in the order they are referenced from document.xml,
+ * which matches the numbering Word uses for the _ftnN / _ednN anchors in
+ * its HTML output.
+ *
+ * @param ooxml - OOXML string from body.getOoxml()
+ * @returns Footnote and endnote text in reference order
+ */
+export function extractNotesFromOoxml(ooxml: string): OoxmlNotes {
+  const notes: OoxmlNotes = { footnotes: [], endnotes: [] };
+
+  const pkg = parseOoxmlPackage(ooxml);
+  if (!pkg) {
+    return notes;
+  }
+
+  const document = getOoxmlPart(pkg, '/word/document.xml');
+  if (!document) {
+    return notes;
+  }
+
+  notes.footnotes = collectNotes(
+    document,
+    getOoxmlPart(pkg, '/word/footnotes.xml'),
+    'w:footnoteReference',
+    'w:footnote'
+  );
+  notes.endnotes = collectNotes(
+    document,
+    getOoxmlPart(pkg, '/word/endnotes.xml'),
+    'w:endnoteReference',
+    'w:endnote'
+  );
+
+  return notes;
+}
+
+/**
+ * Collect note text for each reference in document order
+ */
+function collectNotes(
+  document: Element,
+  notesPart: Element | null,
+  referenceTag: string,
+  noteTag: string
+): string[] {
+  if (!notesPart) {
+    return [];
+  }
+
+  // Index note bodies by id, skipping separator notes
+  const bodies = new Map<string, string>();
+  const noteElements = notesPart.getElementsByTagName(noteTag);
+  for (let i = 0; i < noteElements.length; i++) {
+    const note = noteElements[i];
+    const noteType = note.getAttribute('w:type');
+    if (noteType && noteType !== 'normal') {
+      continue;
+    }
+    bodies.set(note.getAttribute('w:id') || '', getWordprocessingText(note));
+  }
+
+  const result: string[] = [];
+  const references = document.getElementsByTagName(referenceTag);
+  for (let i = 0; i < references.length; i++) {
+    const id = references[i].getAttribute('w:id') || '';
+    result.push(bodies.get(id) || '');
+  }
+
+  return result;
+}
+
+/**
+ * Extract the pictures of document.xml in document order
+ *
+ * DrawingML pictures (w:drawing) and VML images (v:imagedata) are
+ * included; the VML fallback Word writes next to DrawingML content
+ * (mc:Fallback) is not, nor are linked pictures without data. Drawings
+ * made of shapes (text boxes, connectors, groups) are rendered to SVG, as
+ * one picture per drawing; charts and SmartArt are left out.
+ *
+ * @param ooxml - OOXML string from body.getOoxml()
+ * @returns Pictures with the data of their media parts
+ */
+export function extractOoxmlPictures(ooxml: string): OoxmlPicture[] {
+  const pkg = parseOoxmlPackage(ooxml);
+  const document = pkg ? getOoxmlPart(pkg, '/word/document.xml') : null;
+  if (!pkg || !document) {
+    return [];
+  }
+
+  const source: OoxmlPictureSource = {
+    pkg,
+    relationships: getOoxmlRelationships(pkg),
+    themeColors: getOoxmlThemeColors(pkg),
+  };
+
+  return getPictureElements(document)
+    .map((node) => readOoxmlPicture(node, source))
+    .filter((picture): picture is OoxmlPicture => !!picture?.base64Data);
+}
+
+/**
+ * Get the pictures of an element: DrawingML drawings and VML images
+ *
+ * Shape drawings count as pictures (they are rendered to SVG). The VML
+ * fallback of DrawingML content and drawings inside text boxes are left
+ * out.
+ *
+ * @param container - Element to search (e.g., a paragraph or document.xml)
+ * @returns w:drawing and v:imagedata elements in document order
+ */
+export function getPictureElements(container: Element): Element[] {
+  const pictures: Element[] = [];
+  const nodes = container.getElementsByTagName('*');
+
+  for (let i = 0; i < nodes.length; i++) {
+    const node = nodes[i];
+    if (node.tagName !== 'w:drawing' && node.tagName !== 'v:imagedata') {
+      continue;
+    }
+    // Drawings inside text boxes are part of the shape around them
+    if (hasAncestor(node, 'mc:Fallback', container) || hasAncestor(node, 'w:drawing', container)) {
+      continue;
+    }
+    if (getPictureRelationshipId(node) || (node.tagName === 'w:drawing' && isShapeDrawing(node))) {
+      pictures.push(node);
+    }
+  }
+
+  return pictures;
+}
+
+/**
+ * Read the picture of a drawing or VML image
+ *
+ * Pictures come from their media part; drawings made of shapes are
+ * rendered to SVG.
+ *
+ * @param node - w:drawing or v:imagedata element
+ * @param source - Package the picture is read from
+ * @returns Picture (without data if its media part is missing), or null
+ *          for linked pictures and shapes that cannot be rendered
+ */
+export function readOoxmlPicture(node: Element, source: OoxmlPictureSource): OoxmlPicture | null {
+  const getImage = (relationshipId: string) => {
+    const rel = source.relationships.get(relationshipId);
+    return rel && !rel.external ? getOoxmlBinaryPart(source.pkg, rel.target) : null;
+  };
+
+  if (node.tagName === 'w:drawing' && isShapeDrawing(node)) {
+    const rendered = renderDrawingSvg(node, { themeColors: source.themeColors, getImage });
+    if (!rendered) {
+      return null;
+    }
+
+    const docPr = node.getElementsByTagName('wp:docPr')[0];
+    return {
+      relationshipId: '',
+      partName: '',
+      drawingName: docPr?.getAttribute('name') || 'Drawing',
+      contentType: 'image/svg+xml',
+      format: 'svg',
+      base64Data: textToBase64(rendered.svg),
+      ...getDrawingProperties(node),
+      warnings: rendered.warnings,
+    };
+  }
+
+  const relationshipId = getPictureRelationshipId(node) || '';
+  const rel = source.relationships.get(relationshipId);
+  if (!rel || rel.external) {
+    return null;
+  }
+
+  const data = getImage(relationshipId);
+  return {
+    relationshipId,
+    partName: rel.target,
+    contentType: data?.contentType || '',
+    base64Data: data?.base64Data || '',
+    format: getPartFormat(rel.target),
+    ...(node.tagName === 'w:drawing' ? getDrawingProperties(node) : getVmlProperties(node)),
+  };
+}
+
+/**
+ * Get the relationship ID of the media part of a drawing or VML image
+ */
+function getPictureRelationshipId(node: Element): string | null {
+  if (node.tagName === 'v:imagedata') {
+    return node.getAttribute('r:id') || node.getAttribute('r:embed');
+  }
+  if (isShapeDrawing(node)) {
+    return null;
+  }
+  const blip = node.getElementsByTagName('a:blip')[0];
+  return blip?.getAttribute('r:embed') || blip?.getAttribute('r:link') || null;
+}
+
+/**
+ * Get the file extension of a media part, as images use it
+ */
+function getPartFormat(partName: string): string {
+  const extension = (partName.match(/\.(\w+)$/)?.[1] || 'png').toLowerCase();
+  return extension === 'jpeg' ? 'jpg' : extension;
+}
+
+/**
+ * Get the displayed size and alt text of a DrawingML picture from its wp:inline or wp:anchor
+ */
+function getDrawingProperties(drawing: Element): Pick<OoxmlPicture, 'width' | 'height' | 'altText'> {
+  const container = drawing.getElementsByTagName('wp:inline')[0] || drawing.getElementsByTagName('wp:anchor')[0];
+  if (!container) {
+    return {};
+  }
+
+  const extent = container.getElementsByTagName('wp:extent')[0];
+  const docPr = container.getElementsByTagName('wp:docPr')[0];
+  const width = Math.round(parseInt(extent?.getAttribute('cx') || '0') / EMU_PER_PIXEL);
+  const height = Math.round(parseInt(extent?.getAttribute('cy') || '0') / EMU_PER_PIXEL);
+
+  return {
+    width: width || undefined,
+    height: height || undefined,
+    altText: docPr?.getAttribute('descr') || docPr?.getAttribute('title') || undefined,
+  };
+}
+
+/**
+ * Get the displayed size and alt text of a VML image from its v:shape
+ */
+function getVmlProperties(imagedata: Element): Pick<OoxmlPicture, 'width' | 'height' | 'altText'> {
+  const shape = imagedata.parentElement;
+  const style = shape?.getAttribute('style') || '';
+
+  // VML sizes are in points
+  const size = (name: string) => {
+    const match = style.match(new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([\\d.]+)pt`));
+    return match ? Math.round((parseFloat(match[1]) * 96) / 72) || undefined : undefined;
+  };
+
+  return {
+    width: size('width'),
+    height: size('height'),
+    altText: shape?.getAttribute('alt') || imagedata.getAttribute('o:title') || undefined,
+  };
+}
+
+/**
+ * Compare an image with a picture
+ *
+ * @returns 'match' if alt text or size agree, 'conflict' if either
+ *          differs, 'unknown' if there is nothing to compare
+ */
+function compareImage(image: ExtractedImage, picture: OoxmlPicture): 'match' | 'conflict' | 'unknown' {
+  let result: 'match' | 'unknown' = 'unknown';
+
+  const alt = image.altText?.trim();
+  const pictureAlt = picture.altText?.trim();
+  if (alt && pictureAlt) {
+    if (alt !== pictureAlt) {
+      return 'conflict';
+    }
+    result = 'match';
+  }
+
+  if (image.width && image.height && picture.width && picture.height) {
+    if (
+      Math.abs(image.width - picture.width) > SIZE_TOLERANCE ||
+      Math.abs(image.height - picture.height) > SIZE_TOLERANCE
+    ) {
+      return 'conflict';
+    }
+    result = 'match';
+  }
+
+  return result;
+}
+
+/**
+ * Fill in image data from the pictures of the OOXML package
+ *
+ * Images are matched to pictures in document order. Pictures that have
+ * no image (charts, pictures Word left out of the HTML) are
+ * skipped: an image takes the next picture whose size or alt text
+ * agrees with it, or, failing that, the next picture that does not
+ * disagree. Images that already have data only move the position
+ * forward when they match.
+ *
+ * @param images - Images from the HTML, in document order
+ * @param pictures - Pictures from extractOoxmlPictures()
+ * @returns Warnings for images matched by position only or not at all
+ */
+export function matchOoxmlPictures(images: ExtractedImage[], pictures: OoxmlPicture[]): string[] {
+  const warnings: string[] = [];
+  let next = 0;
+
+  for (let index = 0; index < images.length; index++) {
+    const image = images[index];
+    const remaining = pictures.slice(next);
+    const results = remaining.map((picture) => compareImage(image, picture));
+
+    const matched = results.indexOf('match');
+    if (matched >= 0) {
+      next += matched + 1;
+      if (!image.base64Data) {
+        fillImageData(image, remaining[matched], warnings);
+      }
+      continue;
+    }
+
+    if (image.base64Data) {
+      continue;
+    }
+
+    const possible = results.indexOf('unknown');
+    if (possible >= 0) {
+      next += possible + 1;
+      fillImageData(image, remaining[possible], warnings);
+      warnings.push(`${describeImage(image, index)} was matched to ${describePicture(remaining[possible])} by position only; check that it is the right picture`);
+    } else {
+      warnings.push(`${describeImage(image, index)} matches no picture of the document; it has no data`);
+    }
+  }
+
+  return warnings;
+}
+
+/**
+ * Copy the data of a picture into an image
+ *
+ * The image takes the picture's format, since the HTML only guessed it
+ * (shapes become SVG). The file name follows when images are named.
+ */
+function fillImageData(image: ExtractedImage, picture: OoxmlPicture, warnings: string[]): void {
+  image.base64Data = picture.base64Data;
+  image.format = picture.format;
+  image.originalName = image.originalName || picture.partName || undefined;
+  warnings.push(...(picture.warnings || []));
+}
+
+/**
+ * Describe an image in warnings
+ *
+ * File names are not final until the images are named, so the image is
+ * described by its position and alt text.
+ */
+function describeImage(image: ExtractedImage, index: number): string {
+  const alt = image.altText?.trim();
+  return alt ? `Image ${index + 1} ("${alt}")` : `Image ${index + 1}`;
+}
+
+/**
+ * Describe a picture in warnings
+ */
+function describePicture(picture: OoxmlPicture): string {
+  return picture.drawingName ? `drawing "${picture.drawingName}"` : picture.partName;
+}
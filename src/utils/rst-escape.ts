@@ -0,0 +1,170 @@
+/**
+ * RST Word Add-in - RST Escaping
+ * Escapes literal document text so it is not mistaken for RST markup
+ *
+ * Escaping follows the docutils inline markup recognition rules, so only
+ * characters that could actually start or end markup are escaped:
+ * "2 * 3" and "snake_case" stay as they are, while "*args", "|pipe|" and
+ * "file_name_" are escaped.
+ *
+ * @see https://docutils.sourceforge.io/docs/ref/rst/restructuredtext.html#inline-markup-recognition-rules
+ */
+
+/**
+ * ASCII characters allowed before an inline markup start-string
+ */
+const START_PRECEDING = /[\s\-:/'"<([{]/;
+
+/**
+ * ASCII characters allowed after an inline markup end-string
+ */
+const END_FOLLOWING = /[\s\-.,:;!?\\/'")\]}>]/;
+
+/**
+ * Characters that open inline markup (emphasis, literals, interpreted
+ * text, substitution references)
+ */
+const MARKUP_CHARS = ['*', '`', '|'];
+
+/**
+ * Line-start constructs that would turn a paragraph into another block
+ */
+const LINE_START_PATTERNS: RegExp[] = [
+  // Enumerated lists: "1. ", "a) ", "iv. ", "#. "
+  /^(?:\d+|[a-zA-Z]|[ivxlcdm]+|[IVXLCDM]+|#)[.)](?=\s|$)/,
+  // Parenthesized enumerators: "(1) ", "(a) "
+  /^\((?:\d+|[a-zA-Z]|[ivxlcdm]+|[IVXLCDM]+|#)\)(?=\s|$)/,
+  // Bullet lists and line blocks
+  /^[-*+•‣⁃|](?=\s|$)/,
+  // Explicit markup (comments, directives, targets, footnotes)
+  /^\.\.(?=\s|$)/,
+  // Field lists: ":name: value"
+  /^:[^:\s][^:]*:(?=\s|$)/,
+  // Doctest blocks
+  /^>>>(?=\s|$)/,
+  // Transitions: a line of 4+ repeated punctuation characters
+  /^([!-/:-@[-`{-~])\1{3,}\s*$/,
+];
+
+/**
+ * Check if a character is a non-ASCII punctuation character
+ */
+function isUnicodePunctuation(char: string): boolean {
+  return char.charCodeAt(0) > 0x7f && /\p{P}/u.test(char);
+}
+
+/**
+ * Check if a character may precede an inline markup start-string
+ */
+function canPrecedeStart(char: string): boolean {
+  return !char || START_PRECEDING.test(char) || isUnicodePunctuation(char);
+}
+
+/**
+ * Check if a character may follow an inline markup end-string
+ */
+function canFollowEnd(char: string): boolean {
+  return !char || END_FOLLOWING.test(char) || isUnicodePunctuation(char);
+}
+
+/**
+ * Escape a run of literal text for use in RST inline content
+ *
+ * The characters around the run matter for the recognition rules, so
+ * callers that splice text between generated markup pass the neighbouring
+ * characters. An empty neighbour is treated as a text boundary, which
+ * errs on the side of escaping.
+ *
+ * @param text - Literal text (no RST markup)
+ * @param preceding - Output text that comes before the run
+ * @param following - Text that comes after the run
+ * @returns Text with backslash escapes added where needed
+ */
+export function escapeInlineText(text: string, preceding: string = '', following: string = ''): string {
+  let result = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    // Backslash is always the escape character
+    if (char === '\\') {
+      result += '\\\\';
+      i++;
+      continue;
+    }
+
+    if (!MARKUP_CHARS.includes(char) && char !== '_') {
+      result += char;
+      i++;
+      continue;
+    }
+
+    // Look at the whole run ("**", "``", "__") as a single start/end-string
+    let end = i;
+    while (end < text.length && text[end] === char) {
+      end++;
+    }
+    const run = text.slice(i, end);
+    const before = i > 0 ? text[i - 1] : preceding.slice(-1);
+    const after = end < text.length ? text[end] : following.charAt(0);
+
+    const opensMarkup = canPrecedeStart(before) && !!after && !/\s/.test(after);
+    const closesMarkup = !!before && !/\s/.test(before) && canFollowEnd(after);
+
+    // "_" only matters as a reference suffix (word_, `text`_, [1]_)
+    const escape = char === '_' ? closesMarkup : opensMarkup || closesMarkup;
+
+    result += escape ? run.split('').map((c) => '\\' + c).join('') : run;
+    i = end;
+  }
+
+  return result;
+}
+
+/**
+ * Escape constructs that are only significant at the start of a line
+ *
+ * Each line is checked for list markers, explicit markup, field markers
+ * and similar. A trailing "::" on the last line is escaped so the next
+ * block does not become a literal block.
+ *
+ * @param text - Text that may already contain inline markup
+ * @returns Text with line-start constructs escaped
+ */
+export function escapeLineStarts(text: string): string {
+  const lines = text.split('\n').map((line) => {
+    const indent = line.match(/^\s*/)?.[0] || '';
+    const rest = line.slice(indent.length);
+
+    if (LINE_START_PATTERNS.some((pattern) => pattern.test(rest))) {
+      return `${indent}\\${rest}`;
+    }
+    return line;
+  });
+
+  const last = lines.length - 1;
+  lines[last] = lines[last].replace(/::(\s*)$/, ':\\:$1');
+
+  return lines.join('\n');
+}
+
+/**
+ * Escape plain literal text for use as a complete RST text block
+ *
+ * @param text - Literal text (no RST markup)
+ * @returns Escaped text
+ */
+export function escapeLiteralText(text: string): string {
+  return escapeLineStarts(escapeInlineText(text));
+}
+
+/**
+ * Remove RST backslash escapes from text
+ *
+ * @param text - Escaped text (e.g., heading text)
+ * @returns Text as it reads in the document
+ */
+export function unescapeText(text: string): string {
+  return text.replace(/\\(.)/g, '$1');
+}
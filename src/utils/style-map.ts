@@ -0,0 +1,197 @@
+/**
+ * RST Word Add-in - Style Mapping
+ * Matches Word style names against a configured style map
+ *
+ * Style maps let documents built on an existing template (e.g., with a
+ * "Warning Box" paragraph style) produce directives, roles, headings and
+ * code blocks without renaming their styles to rst_*.
+ */
+
+import { StyleMapping, StyleMappingType } from '../converter/types';
+
+/**
+ * Kind of Word style a mapping is looked up for
+ */
+export type StyleKind = 'paragraph' | 'character';
+
+/**
+ * Mapping types that apply to each kind of style
+ */
+const MAPPING_TYPES: Record<StyleKind, StyleMappingType[]> = {
+  paragraph: ['directive', 'heading', 'code-block', 'drop'],
+  character: ['role', 'drop'],
+};
+
+/**
+ * Optional mapping fields that hold text
+ */
+const STRING_FIELDS = ['directive', 'argument', 'role', 'language'] as const;
+
+/**
+ * Compiled style patterns, keyed by pattern
+ */
+const patternCache = new Map<string, RegExp>();
+
+/**
+ * Normalize a style name for comparison
+ *
+ * Word drops spaces from style names in class attributes and may strip
+ * underscores, so these and case are ignored.
+ *
+ * @param name - Style name or class
+ * @returns Normalized name
+ */
+export function normalizeStyleName(name: string): string {
+  return name.toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+/**
+ * Compile a style pattern with "*" and "?" wildcards
+ */
+function compileStylePattern(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const source = Array.from(normalizeStyleName(pattern), (char) => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }).join('');
+    regex = new RegExp(`^${source}$`);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+/**
+ * Check if a style name matches a style pattern
+ *
+ * @param name - Style name
+ * @param pattern - Style name, may contain "*" and "?" wildcards
+ * @returns True if the name matches
+ */
+export function matchesStylePattern(name: string, pattern: string): boolean {
+  return compileStylePattern(pattern).test(normalizeStyleName(name));
+}
+
+/**
+ * Describe what is wrong with a style mapping
+ *
+ * @param mapping - Style mapping
+ * @returns Problem description, or null if the mapping is usable
+ */
+export function getStyleMappingProblem(mapping: StyleMapping): string | null {
+  if (typeof mapping.style !== 'string' || !mapping.style.trim()) {
+    return 'Style mapping without a style name';
+  }
+
+  // Mappings edited as JSON can hold values of any type
+  const field = STRING_FIELDS.find((name) => mapping[name] !== undefined && typeof mapping[name] !== 'string');
+  if (field) {
+    return `Style mapping "${mapping.style}" needs text for "${field}"`;
+  }
+  if (mapping.options !== undefined && !isStringRecord(mapping.options)) {
+    return `Style mapping "${mapping.style}" needs "options" to map option names to text`;
+  }
+  if (mapping.level !== undefined && !Number.isInteger(mapping.level)) {
+    return `Style mapping "${mapping.style}" needs a whole number for "level"`;
+  }
+
+  switch (mapping.type) {
+    case 'directive':
+      return mapping.directive ? null : `Style mapping "${mapping.style}" has no directive name`;
+    case 'role':
+      return mapping.role ? null : `Style mapping "${mapping.style}" has no role name`;
+    case 'heading':
+      return mapping.level !== undefined && mapping.level >= 1 && mapping.level <= 6
+        ? null
+        : `Style mapping "${mapping.style}" needs a heading level from 1 to 6`;
+    case 'code-block':
+    case 'drop':
+      return null;
+    default:
+      return `Style mapping "${mapping.style}" has unknown type "${mapping.type}"`;
+  }
+}
+
+/**
+ * Check if a value is an object whose values are all strings
+ */
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return !!value && typeof value === 'object' && !Array.isArray(value) &&
+    Object.values(value).every((item) => typeof item === 'string');
+}
+
+/**
+ * Check a style map
+ *
+ * @param styleMap - Style mappings
+ * @returns Problems of mappings that are ignored
+ */
+export function validateStyleMap(styleMap: StyleMapping[]): string[] {
+  return styleMap
+    .map(getStyleMappingProblem)
+    .filter((problem): problem is string => problem !== null);
+}
+
+/**
+ * Style map read from JSON
+ */
+export interface ParsedStyleMap {
+  /** Style mappings, or null if the text is not a JSON array of mappings */
+  styleMap: StyleMapping[] | null;
+  /** Syntax errors and problems of mappings that are ignored */
+  problems: string[];
+}
+
+/**
+ * Read a style map written as JSON (e.g., edited in the taskpane)
+ *
+ * @param text - JSON array of style mappings (empty text is an empty map)
+ * @returns Style map and its problems
+ */
+export function parseStyleMap(text: string): ParsedStyleMap {
+  if (!text.trim()) {
+    return { styleMap: [], problems: [] };
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { styleMap: null, problems: [`Style map is not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  if (!Array.isArray(value) || value.some((mapping) => !mapping || typeof mapping !== 'object' || Array.isArray(mapping))) {
+    return { styleMap: null, problems: ['Style map must be a JSON array of mappings ({ "style": ..., "type": ... })'] };
+  }
+
+  const styleMap = value as StyleMapping[];
+  return { styleMap, problems: validateStyleMap(styleMap) };
+}
+
+/**
+ * Find the mapping for an element's styles
+ *
+ * The first usable mapping, in map order, that applies to the kind of
+ * style and matches any of the names wins.
+ *
+ * @param styleNames - Style names (and classes) of the element
+ * @param styleMap - Style mappings
+ * @param kind - Whether the names belong to a paragraph or a text run
+ * @returns Matching mapping, or undefined if there is none
+ */
+export function findStyleMapping(
+  styleNames: string[],
+  styleMap: StyleMapping[] | undefined,
+  kind: StyleKind
+): StyleMapping | undefined {
+  if (!styleMap || styleMap.length === 0 || styleNames.length === 0) {
+    return undefined;
+  }
+
+  return styleMap.find((mapping) =>
+    MAPPING_TYPES[kind].includes(mapping.type) &&
+    getStyleMappingProblem(mapping) === null &&
+    styleNames.some((name) => matchesStylePattern(name, mapping.style))
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * RST Word Add-in - XML Helpers
+ * Element lookup, escaping and units shared by the OOXML readers
+ *
+ * The OOXML parser, the DrawingML renderer and the metafile renderer all
+ * walk namespaced XML (w:p, a:blip, ...). Prefixed names cannot be used
+ * in CSS selectors, so elements are matched by tag name.
+ */
+
+/**
+ * EMUs (English Metric Units) per pixel at 96 dpi
+ */
+export const EMU_PER_PIXEL = 9525;
+
+/**
+ * Get the direct children of an element with a tag name
+ *
+ * @param parent - Parent element (none gives no children)
+ * @param tagName - Qualified tag name (e.g., "w:tr")
+ * @returns Matching children in document order
+ */
+export function childElements(parent: Element | null, tagName: string): Element[] {
+  return parent ? Array.from(parent.children).filter((child) => child.tagName === tagName) : [];
+}
+
+/**
+ * Get the first direct child of an element with a tag name
+ *
+ * @param parent - Parent element
+ * @param tagName - Qualified tag name (e.g., "w:pPr")
+ * @returns First matching child, or null
+ */
+export function childElement(parent: Element | null, tagName: string): Element | null {
+  return childElements(parent, tagName)[0] || null;
+}
+
+/**
+ * Find the nearest ancestor with a tag name
+ *
+ * closest() takes a CSS selector, which cannot name prefixed XML elements.
+ *
+ * @param element - Element to start from (not itself a candidate)
+ * @param tagName - Qualified tag name (e.g., "w:p")
+ * @param container - Element to stop at (not a candidate either)
+ * @returns Nearest matching ancestor, or null
+ */
+export function findAncestor(element: Element, tagName: string, container?: Element): Element | null {
+  for (let parent = element.parentElement; parent && parent !== container; parent = parent.parentElement) {
+    if (parent.tagName === tagName) {
+      return parent;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check if an element is inside an element with a tag name
+ *
+ * @param element - Element to check
+ * @param tagName - Qualified tag name (e.g., "mc:Fallback")
+ * @param container - Element to stop at
+ * @returns True if a matching ancestor lies below the container
+ */
+export function hasAncestor(element: Element, tagName: string, container?: Element): boolean {
+  return findAncestor(element, tagName, container) !== null;
+}
+
+/**
+ * Get the w:val attribute of a WordprocessingML property element
+ *
+ * @param parent - Property container (e.g., w:pPr)
+ * @param tagName - Property element (e.g., "w:jc")
+ * @returns Value, or null if the property is not set
+ */
+export function getVal(parent: Element | null, tagName: string): string | null {
+  return childElement(parent, tagName)?.getAttribute('w:val') ?? null;
+}
+
+/**
+ * Check if a WordprocessingML toggle property (w:b, w:i, w:vanish, ...) is set
+ *
+ * @param parent - Property container (e.g., w:rPr)
+ * @param tagName - Toggle property element
+ * @returns True if the property is present and not switched off
+ */
+export function isOn(parent: Element | null, tagName: string): boolean {
+  const property = childElement(parent, tagName);
+  if (!property) {
+    return false;
+  }
+  const value = property.getAttribute('w:val');
+  return value === null || !['0', 'false', 'off'].includes(value.toLowerCase());
+}
+
+/**
+ * Escape text for XML content and attributes
+ *
+ * @param text - Plain text
+ * @returns Escaped text
+ */
+export function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}